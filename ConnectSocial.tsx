@@ -10,7 +10,12 @@ interface SocialPlatform {
   color: string
   gradient: string
   description: string
-  comingSoon?: boolean
+  // Only connectable on the Professional plan
+  professionalOnly?: boolean
+}
+
+interface ConnectSocialProps {
+  tier?: 'starter' | 'professional' | null
 }
 
 const platforms: SocialPlatform[] = [
@@ -32,12 +37,12 @@ const platforms: SocialPlatform[] = [
   },
   {
     id: 'twitter',
-    name: 'Twitter',
+    name: 'Twitter/X',
     icon: <Twitter className="w-6 h-6" />,
     color: 'from-cyan-500 to-blue-500',
     gradient: 'from-cyan-500/10 to-blue-500/10',
     description: 'Analyze tweets and replies',
-    comingSoon: true
+    professionalOnly: true
   },
   {
     id: 'linkedin',
@@ -46,19 +51,21 @@ const platforms: SocialPlatform[] = [
     color: 'from-blue-700 to-blue-800',
     gradient: 'from-blue-700/10 to-blue-800/10',
     description: 'Track professional engagement',
-    comingSoon: true
+    professionalOnly: true
   }
 ]
 
-export default function ConnectSocial() {
+export default function ConnectSocial({ tier = null }: ConnectSocialProps) {
   const [connecting, setConnecting] = useState<string | null>(null)
   const [showModal, setShowModal] = useState(false)
 
+  const isLocked = (platform: SocialPlatform) => platform.professionalOnly && tier !== 'professional'
+
   const handleConnect = async (platformId: string) => {
     const platform = platforms.find(p => p.id === platformId)
     
-    if (platform?.comingSoon) {
-      alert('This platform is coming soon! Stay tuned.')
+    if (platform && isLocked(platform)) {
+      alert(`${platform.name} is available on the Professional plan. Upgrade to connect it.`)
       return
     }
 
@@ -73,7 +80,8 @@ export default function ConnectSocial() {
       })
 
       if (!response.ok) {
-        throw new Error('Failed to initiate connection')
+        const { error } = await response.json().catch(() => ({}))
+        throw new Error(error || 'Failed to initiate connection')
       }
 
       const { authUrl } = await response.json()
@@ -82,7 +90,9 @@ export default function ConnectSocial() {
       window.location.href = authUrl
     } catch (error) {
       console.error(`Error connecting to ${platformId}:`, error)
-      alert(`Failed to connect to ${platform?.name}. Please try again.`)
+      alert(error instanceof Error && error.message !== 'Failed to initiate connection'
+        ? error.message
+        : `Failed to connect to ${platform?.name}. Please try again.`)
     } finally {
       setConnecting(null)
     }
@@ -132,7 +142,7 @@ export default function ConnectSocial() {
                   onClick={() => handleConnect(platform.id)}
                   disabled={connecting !== null}
                   className={`w-full group relative overflow-hidden rounded-xl p-6 border border-white/10 transition-all duration-300 ${
-                    platform.comingSoon 
+                    isLocked(platform)
                       ? 'opacity-60 cursor-not-allowed' 
                       : 'hover:border-white/20 hover:bg-white/5'
                   }`}
@@ -157,9 +167,9 @@ export default function ConnectSocial() {
                         <h3 className="text-lg font-bold text-white">
                           {platform.name}
                         </h3>
-                        {platform.comingSoon && (
-                          <span className="px-2 py-0.5 bg-yellow-500/20 text-yellow-400 text-xs font-medium rounded">
-                            Coming Soon
+                        {platform.professionalOnly && (
+                          <span className="px-2 py-0.5 bg-purple-500/20 text-purple-300 text-xs font-medium rounded">
+                            Professional
                           </span>
                         )}
                       </div>
@@ -169,7 +179,7 @@ export default function ConnectSocial() {
                     </div>
 
                     {/* Arrow */}
-                    {!platform.comingSoon && (
+                    {!isLocked(platform) && (
                       <svg 
                         className="w-5 h-5 text-slate-400 group-hover:text-white group-hover:translate-x-1 transition-all flex-shrink-0" 
                         fill="none" 
@@ -1,7 +1,20 @@
 'use client'
 
-import { useState } from 'react'
-import { ThumbsUp, ThumbsDown, Minus, ExternalLink, Instagram, Facebook, Twitter, Linkedin, Sparkles } from 'lucide-react'
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { ThumbsUp, ThumbsDown, Minus, ExternalLink, Instagram, Facebook, Twitter, Linkedin, Sparkles, X, Languages, Search, Loader2, SlidersHorizontal, Bookmark, Pin, PinOff, Trash2, PanelRight } from 'lucide-react'
+import { languageName } from '@/lib/sentiment/types'
+import { subscribeToRows } from '@/lib/realtime'
+import MentionDrawer from '@/components/MentionDrawer'
+import {
+  MENTION_FILTER_KEYS,
+  filterQueryString,
+  mentionFilterSchema,
+  mergeMentions,
+  type FeedLabel,
+  type MentionFacets,
+  type MentionFilterKey
+} from '@/lib/mentions'
 
 interface Mention {
   id: string
@@ -13,28 +26,331 @@ interface Mention {
   sentiment_score: number | null
   sentiment_label: 'positive' | 'negative' | 'neutral' | null
   sentiment_reasoning: string | null
+  sentiment_confidence: number | null
+  sentiment_model: string | null
+  sentiment_prompt_version: string | null
+  sentiment_analyzed_at: string | null
+  language: string | null
+  translated_content: string | null
+  is_sarcastic: boolean
+  needs_review: boolean
   engagement_count: number | null
   social_accounts: {
     platform: string
     account_name: string
   }
+  mention_aspects?: {
+    aspect: string
+    sentiment_label: 'positive' | 'negative' | 'neutral'
+    sentiment_score: number
+  }[]
+  // A human verdict from the review queue, which wins over the model's
+  sentiment_reviews?: {
+    action: 'confirm' | 'override'
+    sentiment_label: 'positive' | 'negative' | 'neutral'
+    sentiment_score: number
+  } | null
+  // Tracked queries this mention matched
+  mention_queries?: { query_id: string }[]
 }
 
+interface TrackedQueryOption {
+  id: string
+  name: string
+}
+
+interface AccountOption {
+  id: string
+  platform: string
+  account_name: string
+}
+
+interface SavedViewOption {
+  id: string
+  name: string
+  // Feed query string parameters
+  filters: Record<string, string>
+  is_pinned: boolean
+}
+
+interface AnalysisJobProgress {
+  id: string
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+  total: number
+  processed: number
+  failed: number
+}
+
+// Filter values as they appear in the URL query string
+type FilterValues = Partial<Record<MentionFilterKey, string>>
+
 interface Props {
+  userId: string
+  // First page of the feed for `filters`, rendered on the server
   mentions: Mention[]
+  nextCursor: string | null
+  facets: MentionFacets
+  filters?: FilterValues
+  // Unanalyzed mentions across the whole feed, whatever the filters
+  unanalyzedCount: number
+  accounts?: AccountOption[]
+  activeJob?: AnalysisJobProgress | null
+  queries?: TrackedQueryOption[]
+  views?: SavedViewOption[]
 }
 
-export default function MentionFeed({ mentions }: Props) {
-  const [filter, setFilter] = useState<'all' | 'positive' | 'negative' | 'neutral' | 'unanalyzed'>('all')
+const JOB_POLL_INTERVAL_MS = 2000
+const FILTER_DEBOUNCE_MS = 300
+// Realtime changes are collected this long and re-fetched together; an
+// analysis job updates mentions in quick bursts
+const REALTIME_BATCH_MS = 1000
+const REALTIME_MAX_IDS = 100
+
+// Rolling periods; a saved view using one stays current
+const PERIOD_OPTIONS = [
+  { days: '1', label: 'Last 24 hours' },
+  { days: '7', label: 'Last 7 days' },
+  { days: '30', label: 'Last 30 days' },
+  { days: '90', label: 'Last 90 days' },
+]
+
+// Filters behind the "More filters" toggle
+const ADVANCED_FILTER_KEYS: MentionFilterKey[] = ['days', 'from', 'to', 'minScore', 'maxScore', 'minEngagement', 'hasUrl', 'author']
+
+// Most frequent first
+const byCount = (counts: Record<string, number>) =>
+  Object.keys(counts).map(key => [key, counts[key]] as [string, number]).sort((a, b) => b[1] - a[1])
+
+const effectiveLabel = (mention: Mention) => mention.sentiment_reviews?.sentiment_label ?? mention.sentiment_label
+const effectiveScore = (mention: Mention) => mention.sentiment_reviews?.sentiment_score ?? mention.sentiment_score
+
+export default function MentionFeed({
+  userId,
+  mentions: firstPage,
+  nextCursor: firstCursor,
+  facets: initialFacets,
+  filters: initialFilters = {},
+  unanalyzedCount: analyzableCount,
+  accounts = [],
+  activeJob = null,
+  queries = [],
+  views = []
+}: Props) {
+  const router = useRouter()
   const [isAnalyzing, setIsAnalyzing] = useState(false)
+  const [job, setJob] = useState<AnalysisJobProgress | null>(activeJob)
+  // What the inputs show, and what the feed was last loaded with
+  const [filters, setFilters] = useState<FilterValues>(initialFilters)
+  const [appliedFilters, setAppliedFilters] = useState<FilterValues>(initialFilters)
+  const [showAdvanced, setShowAdvanced] = useState(
+    ADVANCED_FILTER_KEYS.some(key => initialFilters[key] !== undefined)
+  )
+  const [savedViews, setSavedViews] = useState<SavedViewOption[]>(views)
+  // Name being typed for a new view; null while the form is closed
+  const [viewName, setViewName] = useState<string | null>(null)
+  const [viewBusy, setViewBusy] = useState(false)
+  const [viewError, setViewError] = useState<string | null>(null)
+  // Mention open in the detail drawer
+  const [detailId, setDetailId] = useState<string | null>(null)
+
+  // Pages loaded so far for the current filters, and the counts for them
+  const [mentions, setMentions] = useState<Mention[]>(firstPage)
+  const [cursor, setCursor] = useState<string | null>(firstCursor)
+  const [facets, setFacets] = useState<MentionFacets>(initialFacets)
+  const [isLoading, setIsLoading] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const scrollRef = useRef<HTMLDivElement>(null)
+  const sentinelRef = useRef<HTMLDivElement>(null)
+  // Responses for filters that have since changed are dropped
+  const requestRef = useRef(0)
+  const skipFirstLoad = useRef(true)
+  // Mentions realtime reported inserted or updated, waiting to be re-fetched
+  const changedIds = useRef(new Set<string>())
+  const flushTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  const jobInFlight = job !== null && (job.status === 'queued' || job.status === 'running')
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setAppliedFilters(filters), FILTER_DEBOUNCE_MS)
+    return () => clearTimeout(timeout)
+  }, [filters])
+
+  const setFilter = (key: MentionFilterKey, value: string | null) => {
+    setFilters(current => {
+      const next = { ...current }
+      if (value && value.trim() !== '') {
+        next[key] = value
+      } else {
+        delete next[key]
+      }
+      return next
+    })
+  }
+
+  // Half-typed values (a min above the max, say) don't reload the feed
+  const validation = mentionFilterSchema.safeParse(appliedFilters)
+  const activeFilter = validation.success ? validation.data : null
+  const filterErrors = validation.success ? [] : validation.error.issues.map(issue => issue.message)
+  const filterQuery = activeFilter ? filterQueryString(activeFilter) : null
+  const isFiltered = Object.keys(filters).length > 0
+  const label = (filters.label ?? 'all') as 'all' | FeedLabel
+  // Saved filters are normalized like filterQuery, so equal views compare equal
+  const currentView = savedViews.find(view => new URLSearchParams(view.filters).toString() === filterQuery)
+
+  // Load the first page for the current filters, or the page after `after`
+  const loadPage = useCallback(async (after: string | null) => {
+    if (filterQuery === null) return
+
+    const request = ++requestRef.current
+    setIsLoading(true)
+    setLoadError(null)
+    if (!after) setMentions([])
+
+    try {
+      const params = new URLSearchParams(filterQuery)
+      if (after) params.set('cursor', after)
+
+      const response = await fetch(`/api/sentiment/mentions?${params}`)
+      const data = await response.json()
+      if (request !== requestRef.current) return
+
+      if (!response.ok) {
+        setLoadError(data.details ? data.details.join('; ') : data.error || 'Failed to load mentions')
+        return
+      }
+
+      setMentions(current => after ? current.concat(data.mentions) : data.mentions)
+      setCursor(data.nextCursor)
+      if (data.facets) setFacets(data.facets)
+    } catch (error) {
+      console.error('Error loading mentions:', error)
+      if (request === requestRef.current) setLoadError('Failed to load mentions')
+    } finally {
+      if (request === requestRef.current) setIsLoading(false)
+    }
+  }, [filterQuery])
+
+  // Re-fetch mentions that changed, through the feed API so they come back with
+  // their joins and only if they still match the filters
+  const refreshChanged = useCallback(async (ids: string[]) => {
+    if (filterQuery === null) return
+
+    try {
+      for (let i = 0; i < ids.length; i += REALTIME_MAX_IDS) {
+        const chunk = ids.slice(i, i + REALTIME_MAX_IDS)
+        const params = new URLSearchParams(filterQuery)
+        params.set('ids', chunk.join(','))
+
+        const response = await fetch(`/api/sentiment/mentions?${params}`)
+        if (!response.ok || filterQuery !== filterQueryRef.current) return
+
+        const data = await response.json()
+        if (filterQuery !== filterQueryRef.current) return
 
-  const filteredMentions = mentions.filter(mention => {
-    if (filter === 'all') return true
-    if (filter === 'unanalyzed') return mention.sentiment_score === null
-    return mention.sentiment_label === filter
-  })
+        setMentions(current => mergeMentions(current, data.mentions, chunk, cursor !== null))
+        setFacets(data.facets)
+      }
+    } catch (error) {
+      console.error('Error refreshing mentions:', error)
+    }
+  }, [filterQuery, cursor])
+
+  // Latest values for the subscription callback, which outlives renders
+  const filterQueryRef = useRef(filterQuery)
+  filterQueryRef.current = filterQuery
+  const refreshRef = useRef(refreshChanged)
+  refreshRef.current = refreshChanged
+
+  // New mentions stream in and analyzed ones flip from pending to their label
+  useEffect(() => {
+    const unsubscribe = subscribeToRows('mentions', userId, (row) => {
+      changedIds.current.add(row.id)
+
+      if (flushTimer.current) return
+      flushTimer.current = setTimeout(() => {
+        const ids = Array.from(changedIds.current)
+        changedIds.current.clear()
+        flushTimer.current = null
+        refreshRef.current(ids)
+      }, REALTIME_BATCH_MS)
+    })
+
+    return () => {
+      unsubscribe()
+      if (flushTimer.current) clearTimeout(flushTimer.current)
+      flushTimer.current = null
+    }
+  }, [userId])
+
+  // Start over from the first page whenever the filters change, and keep them
+  // in the URL so the view can be shared and survives a reload. The server
+  // already rendered the first page for the URL the feed was opened with.
+  useEffect(() => {
+    if (skipFirstLoad.current) {
+      skipFirstLoad.current = false
+      return
+    }
+    if (filterQuery === null) return
+
+    const url = new URL(window.location.href)
+    MENTION_FILTER_KEYS.forEach(key => url.searchParams.delete(key))
+    new URLSearchParams(filterQuery).forEach((value, key) => url.searchParams.set(key, value))
+    window.history.replaceState(null, '', url)
+
+    if (scrollRef.current) scrollRef.current.scrollTop = 0
+    loadPage(null)
+  }, [filterQuery, loadPage])
+
+  // Infinite scroll: fetch the next page once the end of the list is in view
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!sentinel || !cursor || isLoading || loadError) return
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) loadPage(cursor)
+      },
+      { root: scrollRef.current, rootMargin: '200px' }
+    )
+    observer.observe(sentinel)
+
+    return () => observer.disconnect()
+  }, [cursor, isLoading, loadError, loadPage])
+
+  // Poll the analysis job for its progress. Mentions update as they are
+  // analyzed; once the job settles, the server-rendered figures are refreshed.
+  useEffect(() => {
+    if (!job || !jobInFlight) return
+
+    const interval = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/sentiment/jobs/${job.id}`)
+        if (!response.ok) return
+
+        const { job: latest } = await response.json()
+        setJob(latest)
+
+        if (latest.status !== 'queued' && latest.status !== 'running') {
+          router.refresh()
+        }
+      } catch (error) {
+        console.error('Error polling analysis job:', error)
+      }
+    }, JOB_POLL_INTERVAL_MS)
+
+    return () => clearInterval(interval)
+  }, [job?.id, jobInFlight, router])
 
-  const unanalyzedCount = mentions.filter(m => m.sentiment_score === null).length
+  // Counts come from the server and cover every mention, not just the loaded pages
+  const labelCount = (label: FeedLabel) => facets.labels[label] || 0
+  const allCount = Object.keys(facets.labels).reduce((sum, label) => sum + labelCount(label as FeedLabel), 0)
+  const topics = byCount(facets.topics)
+  const languages = byCount(facets.languages)
+  const platforms = byCount(facets.platforms)
+  const accountCounts = byCount(facets.accounts)
+  const accountName = (id: string) => accounts.find(account => account.id === id)?.account_name ?? 'Unknown account'
+
+  const unanalyzedCount = labelCount('unanalyzed')
 
   const getSentimentColor = (label: string | null) => {
     switch (label) {
@@ -71,12 +387,15 @@ export default function MentionFeed({ mentions }: Props) {
       const response = await fetch('/api/sentiment/analyze', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ batchSize: 10 })
+        body: JSON.stringify({})
       })
       
       if (response.ok) {
-        // Refresh the page to show updated results
-        window.location.reload()
+        const data = await response.json()
+        // Analysis runs as a background job - track its progress
+        if (data.job) {
+          setJob(data.job)
+        }
       }
     } catch (error) {
       console.error('Error analyzing mentions:', error)
@@ -85,6 +404,112 @@ export default function MentionFeed({ mentions }: Props) {
     }
   }
 
+  const handleCancelJob = async () => {
+    if (!job) return
+
+    try {
+      const response = await fetch(`/api/sentiment/jobs/${job.id}`, { method: 'DELETE' })
+      if (response.ok) {
+        setJob({ ...job, status: 'cancelled' })
+        router.refresh()
+      }
+    } catch (error) {
+      console.error('Error cancelling analysis job:', error)
+    }
+  }
+
+  const openView = (viewId: string) => {
+    const view = savedViews.find(v => v.id === viewId)
+    const next = view ? view.filters : {}
+
+    setFilters(next)
+    setAppliedFilters(next)
+    setViewError(null)
+    if (ADVANCED_FILTER_KEYS.some(key => next[key] !== undefined)) setShowAdvanced(true)
+  }
+
+  const handleSaveView = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!viewName) return
+
+    setViewBusy(true)
+    setViewError(null)
+
+    try {
+      const response = await fetch('/api/sentiment/views', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: viewName, filters: appliedFilters })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setViewError(data.details?.join(', ') || data.error || 'Failed to save view')
+        return
+      }
+
+      setSavedViews(current => current.concat(data.view))
+      setViewName(null)
+    } catch (error) {
+      console.error('Error saving view:', error)
+      setViewError('Failed to save view')
+    } finally {
+      setViewBusy(false)
+    }
+  }
+
+  const handleTogglePin = async (view: SavedViewOption) => {
+    setViewBusy(true)
+    setViewError(null)
+
+    try {
+      const response = await fetch(`/api/sentiment/views/${view.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isPinned: !view.is_pinned })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setViewError(data.error || 'Failed to update view')
+        return
+      }
+
+      setSavedViews(current => current.map(v => v.id === view.id ? data.view : v))
+      // Bring the dashboard tiles up to date
+      router.refresh()
+    } catch (error) {
+      console.error('Error pinning view:', error)
+      setViewError('Failed to update view')
+    } finally {
+      setViewBusy(false)
+    }
+  }
+
+  const handleDeleteView = async (view: SavedViewOption) => {
+    if (!confirm(`Delete the saved view "${view.name}"?`)) return
+
+    setViewBusy(true)
+    setViewError(null)
+
+    try {
+      const response = await fetch(`/api/sentiment/views/${view.id}`, { method: 'DELETE' })
+
+      if (!response.ok) {
+        setViewError('Failed to delete view')
+        return
+      }
+
+      setSavedViews(current => current.filter(v => v.id !== view.id))
+      if (view.is_pinned) router.refresh()
+    } catch (error) {
+      console.error('Error deleting view:', error)
+      setViewError('Failed to delete view')
+    } finally {
+      setViewBusy(false)
+    }
+  }
+
   const getTimeAgo = (date: string) => {
     const now = new Date()
     const posted = new Date(date)
@@ -100,67 +525,338 @@ export default function MentionFeed({ mentions }: Props) {
     <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-2xl p-8">
       {/* Header */}
       <div className="flex items-center justify-between mb-6">
-        <h3 className="text-2xl font-bold text-white">Recent Mentions</h3>
+        <div className="flex items-center gap-4">
+          <h3 className="text-2xl font-bold text-white">Recent Mentions</h3>
+          {queries.length > 0 && (
+            <select
+              value={filters.queryId ?? ''}
+              onChange={(e) => setFilter('queryId', e.target.value)}
+              className="px-3 py-2 rounded-lg text-sm font-medium bg-white/5 border border-white/10 text-slate-300 focus:outline-none focus:border-purple-500/50"
+            >
+              <option value="">All mentions</option>
+              {queries.map((query) => (
+                <option key={query.id} value={query.id}>
+                  {query.name}
+                </option>
+              ))}
+            </select>
+          )}
+          {savedViews.length > 0 && (
+            <select
+              value={currentView?.id ?? ''}
+              onChange={(e) => openView(e.target.value)}
+              className="px-3 py-2 rounded-lg text-sm font-medium bg-white/5 border border-white/10 text-slate-300 focus:outline-none focus:border-purple-500/50"
+            >
+              <option value="">{currentView || !isFiltered ? 'Saved views' : 'Unsaved view'}</option>
+              {savedViews.map((view) => (
+                <option key={view.id} value={view.id}>
+                  {view.name}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
         
-        {unanalyzedCount > 0 && (
+        {job && jobInFlight ? (
+          <div className="flex items-center gap-3">
+            <div className="w-40">
+              <div className="flex justify-between text-xs text-slate-400 mb-1">
+                <span>{job.status === 'queued' ? 'Queued' : 'Analyzing'}</span>
+                <span>{job.processed}/{job.total}</span>
+              </div>
+              <div className="h-2 bg-white/5 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-gradient-to-r from-purple-500 to-cyan-500 transition-all duration-500"
+                  style={{ width: `${job.total > 0 ? (job.processed / job.total) * 100 : 0}%` }}
+                ></div>
+              </div>
+            </div>
+            <button
+              onClick={handleCancelJob}
+              className="flex items-center gap-1 px-3 py-2 rounded-lg text-sm text-slate-400 hover:text-white hover:bg-white/5 transition-colors"
+            >
+              <X className="w-4 h-4" />
+              Cancel
+            </button>
+          </div>
+        ) : analyzableCount > 0 && (
           <button
             onClick={handleAnalyzeAll}
             disabled={isAnalyzing}
             className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-purple-500 to-cyan-500 rounded-lg text-white font-medium hover:from-purple-600 hover:to-cyan-600 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             <Sparkles className="w-4 h-4" />
-            {isAnalyzing ? 'Analyzing...' : `Analyze ${unanalyzedCount}`}
+            {isAnalyzing ? 'Queueing...' : `Analyze ${analyzableCount}`}
           </button>
         )}
       </div>
 
+      {/* Search, platform and account */}
+      <div className="flex flex-wrap gap-2 mb-4">
+        <div className="relative flex-1 min-w-[200px]">
+          <Search className="w-4 h-4 text-slate-500 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            value={filters.q ?? ''}
+            onChange={(e) => setFilter('q', e.target.value)}
+            placeholder="Search text and authors"
+            className="w-full pl-9 pr-3 py-2 rounded-lg text-sm bg-white/5 border border-white/10 text-white placeholder:text-slate-500 focus:outline-none focus:border-purple-500/50"
+          />
+        </div>
+        {platforms.length > 1 && (
+          <select
+            value={filters.platform ?? ''}
+            onChange={(e) => setFilter('platform', e.target.value)}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-white/5 border border-white/10 text-slate-300 focus:outline-none focus:border-purple-500/50 capitalize"
+          >
+            <option value="">All platforms</option>
+            {platforms.map(([platform, count]) => (
+              <option key={platform} value={platform}>
+                {platform} ({count})
+              </option>
+            ))}
+          </select>
+        )}
+        {accountCounts.length > 1 && (
+          <select
+            value={filters.socialAccountId ?? ''}
+            onChange={(e) => setFilter('socialAccountId', e.target.value)}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-white/5 border border-white/10 text-slate-300 focus:outline-none focus:border-purple-500/50"
+          >
+            <option value="">All accounts</option>
+            {accountCounts.map(([id, count]) => (
+              <option key={id} value={id}>
+                {accountName(id)} ({count})
+              </option>
+            ))}
+          </select>
+        )}
+        <button
+          onClick={() => setShowAdvanced(!showAdvanced)}
+          className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
+            showAdvanced ? 'bg-white/10 text-white' : 'text-slate-400 hover:text-white hover:bg-white/5'
+          }`}
+        >
+          <SlidersHorizontal className="w-4 h-4" />
+          More filters
+        </button>
+        {isFiltered && (
+          <button
+            onClick={() => setFilters({})}
+            className="flex items-center gap-1 px-3 py-2 rounded-lg text-sm text-slate-400 hover:text-white hover:bg-white/5 transition-colors"
+          >
+            <X className="w-4 h-4" />
+            Clear filters
+          </button>
+        )}
+        {currentView ? (
+          <>
+            <button
+              onClick={() => handleTogglePin(currentView)}
+              disabled={viewBusy}
+              className="flex items-center gap-1 px-3 py-2 rounded-lg text-sm text-slate-400 hover:text-white hover:bg-white/5 transition-colors disabled:opacity-50"
+              title={currentView.is_pinned ? 'Remove the tile from the dashboard' : 'Show this view as a dashboard tile'}
+            >
+              {currentView.is_pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+              {currentView.is_pinned ? 'Unpin' : 'Pin'}
+            </button>
+            <button
+              onClick={() => handleDeleteView(currentView)}
+              disabled={viewBusy}
+              className="p-2 rounded-lg text-slate-400 hover:text-red-400 hover:bg-red-500/10 transition-colors disabled:opacity-50"
+              title="Delete saved view"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </>
+        ) : viewName === null ? (
+          isFiltered && activeFilter && (
+            <button
+              onClick={() => setViewName('')}
+              className="flex items-center gap-1 px-3 py-2 rounded-lg text-sm text-slate-400 hover:text-white hover:bg-white/5 transition-colors"
+            >
+              <Bookmark className="w-4 h-4" />
+              Save view
+            </button>
+          )
+        ) : (
+          <form onSubmit={handleSaveView} className="flex items-center gap-2">
+            <input
+              autoFocus
+              value={viewName}
+              onChange={(e) => setViewName(e.target.value)}
+              placeholder="View name"
+              maxLength={100}
+              className="px-3 py-2 rounded-lg text-sm bg-white/5 border border-white/10 text-white placeholder:text-slate-500 focus:outline-none focus:border-purple-500/50"
+            />
+            <button
+              type="submit"
+              disabled={viewBusy || viewName.trim() === ''}
+              className="px-3 py-2 rounded-lg text-sm font-medium bg-purple-500/20 text-purple-300 hover:bg-purple-500/30 transition-colors disabled:opacity-50"
+            >
+              Save
+            </button>
+            <button
+              type="button"
+              onClick={() => setViewName(null)}
+              className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-white/5 transition-colors"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </form>
+        )}
+      </div>
+
+      {viewError && <p className="text-red-400 text-sm mb-4">{viewError}</p>}
+
+      {/* Date range, score, engagement, link and author */}
+      {showAdvanced && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4 p-4 rounded-xl bg-white/5 border border-white/10">
+          <label className="block">
+            <span className="text-slate-400 text-xs">Period</span>
+            <select
+              value={filters.days ?? ''}
+              onChange={(e) => setFilter('days', e.target.value)}
+              className="mt-1 w-full px-3 py-1.5 rounded-lg text-sm bg-white/5 border border-white/10 text-slate-300 focus:outline-none focus:border-purple-500/50"
+            >
+              <option value="">Any time</option>
+              {PERIOD_OPTIONS.map((option) => (
+                <option key={option.days} value={option.days}>{option.label}</option>
+              ))}
+              {filters.days && !PERIOD_OPTIONS.some(option => option.days === filters.days) && (
+                <option value={filters.days}>Last {filters.days} days</option>
+              )}
+            </select>
+          </label>
+          <label className="block">
+            <span className="text-slate-400 text-xs">Posted from</span>
+            <input
+              type="date"
+              value={filters.from ?? ''}
+              onChange={(e) => setFilter('from', e.target.value)}
+              className="mt-1 w-full px-3 py-1.5 rounded-lg text-sm bg-white/5 border border-white/10 text-slate-300 focus:outline-none focus:border-purple-500/50"
+            />
+          </label>
+          <label className="block">
+            <span className="text-slate-400 text-xs">Posted to</span>
+            <input
+              type="date"
+              value={filters.to ?? ''}
+              onChange={(e) => setFilter('to', e.target.value)}
+              className="mt-1 w-full px-3 py-1.5 rounded-lg text-sm bg-white/5 border border-white/10 text-slate-300 focus:outline-none focus:border-purple-500/50"
+            />
+          </label>
+          <label className="block">
+            <span className="text-slate-400 text-xs">Score (0-10)</span>
+            <div className="mt-1 flex items-center gap-2">
+              <input
+                type="number"
+                min={0}
+                max={10}
+                step={0.5}
+                placeholder="Min"
+                value={filters.minScore ?? ''}
+                onChange={(e) => setFilter('minScore', e.target.value)}
+                className="w-full px-3 py-1.5 rounded-lg text-sm bg-white/5 border border-white/10 text-slate-300 placeholder:text-slate-500 focus:outline-none focus:border-purple-500/50"
+              />
+              <span className="text-slate-500">–</span>
+              <input
+                type="number"
+                min={0}
+                max={10}
+                step={0.5}
+                placeholder="Max"
+                value={filters.maxScore ?? ''}
+                onChange={(e) => setFilter('maxScore', e.target.value)}
+                className="w-full px-3 py-1.5 rounded-lg text-sm bg-white/5 border border-white/10 text-slate-300 placeholder:text-slate-500 focus:outline-none focus:border-purple-500/50"
+              />
+            </div>
+          </label>
+          <label className="block">
+            <span className="text-slate-400 text-xs">Minimum engagement</span>
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={filters.minEngagement ?? ''}
+              onChange={(e) => setFilter('minEngagement', e.target.value)}
+              className="mt-1 w-full px-3 py-1.5 rounded-lg text-sm bg-white/5 border border-white/10 text-slate-300 focus:outline-none focus:border-purple-500/50"
+            />
+          </label>
+          <label className="block">
+            <span className="text-slate-400 text-xs">Link</span>
+            <select
+              value={filters.hasUrl ?? ''}
+              onChange={(e) => setFilter('hasUrl', e.target.value)}
+              className="mt-1 w-full px-3 py-1.5 rounded-lg text-sm bg-white/5 border border-white/10 text-slate-300 focus:outline-none focus:border-purple-500/50"
+            >
+              <option value="">Any</option>
+              <option value="true">Has a link</option>
+              <option value="false">No link</option>
+            </select>
+          </label>
+          <label className="block col-span-2">
+            <span className="text-slate-400 text-xs">Author</span>
+            <input
+              value={filters.author ?? ''}
+              onChange={(e) => setFilter('author', e.target.value)}
+              placeholder="Name or @handle"
+              className="mt-1 w-full px-3 py-1.5 rounded-lg text-sm bg-white/5 border border-white/10 text-white placeholder:text-slate-500 focus:outline-none focus:border-purple-500/50"
+            />
+          </label>
+        </div>
+      )}
+
+      {filterErrors.length > 0 && (
+        <p className="text-red-400 text-sm mb-4">{filterErrors.join('; ')}</p>
+      )}
+
       {/* Filters */}
       <div className="flex flex-wrap gap-2 mb-6">
         <button
-          onClick={() => setFilter('all')}
+          onClick={() => setFilter('label', null)}
           className={`px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
-            filter === 'all'
+            label === 'all'
               ? 'bg-white/10 text-white'
               : 'text-slate-400 hover:text-white hover:bg-white/5'
           }`}
         >
-          All ({mentions.length})
+          All ({allCount})
         </button>
         <button
-          onClick={() => setFilter('positive')}
+          onClick={() => setFilter('label', 'positive')}
           className={`px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
-            filter === 'positive'
+            label === 'positive'
               ? 'bg-green-500/20 text-green-400'
               : 'text-slate-400 hover:text-green-400 hover:bg-green-500/10'
           }`}
         >
-          Positive ({mentions.filter(m => m.sentiment_label === 'positive').length})
+          Positive ({labelCount('positive')})
         </button>
         <button
-          onClick={() => setFilter('neutral')}
+          onClick={() => setFilter('label', 'neutral')}
           className={`px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
-            filter === 'neutral'
+            label === 'neutral'
               ? 'bg-slate-500/20 text-slate-400'
               : 'text-slate-400 hover:bg-slate-500/10'
           }`}
         >
-          Neutral ({mentions.filter(m => m.sentiment_label === 'neutral').length})
+          Neutral ({labelCount('neutral')})
         </button>
         <button
-          onClick={() => setFilter('negative')}
+          onClick={() => setFilter('label', 'negative')}
           className={`px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
-            filter === 'negative'
+            label === 'negative'
               ? 'bg-red-500/20 text-red-400'
               : 'text-slate-400 hover:text-red-400 hover:bg-red-500/10'
           }`}
         >
-          Negative ({mentions.filter(m => m.sentiment_label === 'negative').length})
+          Negative ({labelCount('negative')})
         </button>
         {unanalyzedCount > 0 && (
           <button
-            onClick={() => setFilter('unanalyzed')}
+            onClick={() => setFilter('label', 'unanalyzed')}
             className={`px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
-              filter === 'unanalyzed'
+              label === 'unanalyzed'
                 ? 'bg-purple-500/20 text-purple-400'
                 : 'text-slate-400 hover:text-purple-400 hover:bg-purple-500/10'
             }`}
@@ -168,21 +864,54 @@ export default function MentionFeed({ mentions }: Props) {
             Unanalyzed ({unanalyzedCount})
           </button>
         )}
+        {languages.length > 1 && (
+          <select
+            value={filters.language ?? ''}
+            onChange={(e) => setFilter('language', e.target.value)}
+            className="ml-auto px-4 py-2 rounded-lg text-sm font-medium bg-white/5 border border-white/10 text-slate-300 focus:outline-none focus:border-purple-500/50"
+          >
+            <option value="">All languages</option>
+            {languages.map(([language, count]) => (
+              <option key={language} value={language}>
+                {languageName(language)} ({count})
+              </option>
+            ))}
+          </select>
+        )}
+        {topics.length > 0 && (
+          <select
+            value={filters.topic ?? ''}
+            onChange={(e) => setFilter('topic', e.target.value)}
+            className={`${languages.length > 1 ? '' : 'ml-auto '}px-4 py-2 rounded-lg text-sm font-medium bg-white/5 border border-white/10 text-slate-300 focus:outline-none focus:border-purple-500/50`}
+          >
+            <option value="">All topics</option>
+            {topics.map(([topic, count]) => (
+              <option key={topic} value={topic}>
+                {topic} ({count})
+              </option>
+            ))}
+          </select>
+        )}
       </div>
 
       {/* Mentions List */}
-      <div className="space-y-4 max-h-[600px] overflow-y-auto pr-2">
-        {filteredMentions.length === 0 ? (
+      <div ref={scrollRef} className="space-y-4 max-h-[600px] overflow-y-auto pr-2">
+        {mentions.length === 0 && !isLoading ? (
           <div className="text-center py-12">
-            <p className="text-slate-400 text-lg">No mentions found</p>
+            <p className="text-slate-400 text-lg">{loadError ?? 'No mentions found'}</p>
             <p className="text-slate-500 text-sm mt-2">
-              {filter === 'all' 
-                ? 'Connect social accounts to start tracking mentions' 
-                : `No ${filter} mentions yet`}
+              {!isFiltered
+                ? 'Connect social accounts to start tracking mentions'
+                : label === 'all'
+                  ? 'No mentions match these filters'
+                  : `No ${label} mentions yet`}
+              {activeFilter?.topic && ` about ${activeFilter.topic}`}
+              {activeFilter?.language && ` in ${languageName(activeFilter.language)}`}
+              {activeFilter?.q && ` matching "${activeFilter.q}"`}
             </p>
           </div>
         ) : (
-          filteredMentions.map((mention) => (
+          mentions.map((mention) => (
             <div
               key={mention.id}
               className="group bg-white/5 border border-white/10 rounded-xl p-5 hover:bg-white/10 transition-all duration-300"
@@ -195,15 +924,28 @@ export default function MentionFeed({ mentions }: Props) {
                   </div>
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center gap-2">
-                      <p className="text-white font-medium truncate">
+                      <button
+                        onClick={() => setFilter('author', mention.author_handle ?? mention.author)}
+                        className="text-white font-medium truncate hover:underline"
+                        title="Show mentions by this author"
+                      >
                         {mention.author}
-                      </p>
+                      </button>
                       <div className="flex items-center gap-1 text-slate-400">
                         {getPlatformIcon(mention.social_accounts.platform)}
                         <span className="text-xs capitalize">
                           {mention.social_accounts.platform}
                         </span>
                       </div>
+                      {mention.language && mention.language !== 'en' && (
+                        <button
+                          onClick={() => setFilter('language', mention.language)}
+                          className="px-1.5 py-0.5 rounded bg-white/5 text-slate-400 text-xs font-medium uppercase hover:text-white transition-colors"
+                          title={languageName(mention.language)}
+                        >
+                          {mention.language}
+                        </button>
+                      )}
                     </div>
                     {mention.author_handle && (
                       <p className="text-slate-500 text-sm">
@@ -217,6 +959,13 @@ export default function MentionFeed({ mentions }: Props) {
                   <span className="text-slate-500 text-xs whitespace-nowrap">
                     {getTimeAgo(mention.posted_at)}
                   </span>
+                  <button
+                    onClick={() => setDetailId(mention.id)}
+                    className="text-slate-400 hover:text-white transition-colors"
+                    title="Details, conversation and history"
+                  >
+                    <PanelRight className="w-4 h-4" />
+                  </button>
                   {mention.post_url && (
                     <a
                       href={mention.post_url}
@@ -230,27 +979,75 @@ export default function MentionFeed({ mentions }: Props) {
                 </div>
               </div>
 
-              {/* Content */}
-              <p className="text-slate-300 text-sm mb-3 leading-relaxed">
-                {mention.content}
-              </p>
+              {/* Content, with the English translation alongside when there is one */}
+              {mention.translated_content ? (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-3">
+                  <p className="text-slate-300 text-sm leading-relaxed">
+                    {mention.content}
+                  </p>
+                  <div className="border-l border-white/10 pl-4">
+                    <p className="flex items-center gap-1 text-slate-500 text-xs mb-1">
+                      <Languages className="w-3 h-3" />
+                      Translated from {mention.language ? languageName(mention.language) : 'unknown language'}
+                    </p>
+                    <p className="text-slate-400 text-sm leading-relaxed italic">
+                      {mention.translated_content}
+                    </p>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-slate-300 text-sm mb-3 leading-relaxed">
+                  {mention.content}
+                </p>
+              )}
+
+              {/* Topics */}
+              {mention.mention_aspects && mention.mention_aspects.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {mention.mention_aspects.map((a) => (
+                    <button
+                      key={a.aspect}
+                      onClick={() => setFilter('topic', a.aspect)}
+                      className={`px-2 py-0.5 rounded text-xs font-medium capitalize transition-opacity hover:opacity-80 ${getSentimentColor(a.sentiment_label)}`}
+                    >
+                      {a.aspect}
+                    </button>
+                  ))}
+                </div>
+              )}
 
               {/* Footer */}
               <div className="flex items-center justify-between">
                 <div className="flex items-center gap-3">
                   {mention.sentiment_score !== null ? (
                     <>
-                      <div className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg ${getSentimentColor(mention.sentiment_label)}`}>
-                        {getSentimentIcon(mention.sentiment_label)}
+                      <div className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg ${getSentimentColor(effectiveLabel(mention))}`}>
+                        {getSentimentIcon(effectiveLabel(mention))}
                         <span className="text-sm font-medium capitalize">
-                          {mention.sentiment_label}
+                          {effectiveLabel(mention)}
                         </span>
                       </div>
                       <div className="text-slate-400 text-sm">
-                        Score: <span className={getSentimentColor(mention.sentiment_label).split(' ')[0]}>
-                          {mention.sentiment_score.toFixed(1)}
+                        Score: <span className={getSentimentColor(effectiveLabel(mention)).split(' ')[0]}>
+                          {effectiveScore(mention)?.toFixed(1)}
                         </span>
                       </div>
+                      {mention.sentiment_reviews ? (
+                        <div className="text-slate-500 text-xs">
+                          {mention.sentiment_reviews.action === 'override'
+                            ? `Reviewed (model said ${mention.sentiment_label})`
+                            : 'Reviewed'}
+                        </div>
+                      ) : mention.sentiment_confidence !== null && (
+                        <div className={`text-xs ${mention.needs_review ? 'text-yellow-500' : 'text-slate-500'}`}>
+                          {Math.round(mention.sentiment_confidence * 100)}% confident
+                        </div>
+                      )}
+                      {mention.is_sarcastic && (
+                        <span className="px-2 py-0.5 rounded text-xs font-medium text-yellow-400 bg-yellow-500/10">
+                          Sarcasm
+                        </span>
+                      )}
                     </>
                   ) : (
                     <div className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-slate-500/10 text-slate-500">
@@ -278,12 +1075,40 @@ export default function MentionFeed({ mentions }: Props) {
                   <p className="text-slate-500 text-xs mt-2 leading-relaxed">
                     {mention.sentiment_reasoning}
                   </p>
+                  {(mention.sentiment_model || mention.sentiment_analyzed_at) && (
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-slate-600 text-xs">
+                      {mention.sentiment_model && <span>Model: {mention.sentiment_model}</span>}
+                      {mention.sentiment_prompt_version && <span>Prompt: {mention.sentiment_prompt_version}</span>}
+                      {mention.sentiment_analyzed_at && <span>Analyzed {getTimeAgo(mention.sentiment_analyzed_at)}</span>}
+                    </div>
+                  )}
                 </details>
               )}
             </div>
           ))
         )}
+
+        {/* Next page loads when this scrolls into view */}
+        <div ref={sentinelRef} className="flex justify-center py-2">
+          {isLoading && <Loader2 className="w-5 h-5 text-slate-500 animate-spin" />}
+          {loadError && mentions.length > 0 && (
+            <button
+              onClick={() => loadPage(cursor)}
+              className="text-sm text-red-400 hover:text-red-300 transition-colors"
+            >
+              {loadError} - retry
+            </button>
+          )}
+        </div>
       </div>
+
+      {detailId && (
+        <MentionDrawer
+          mentionId={detailId}
+          onClose={() => setDetailId(null)}
+          onAnalyzed={(id) => refreshChanged([id])}
+        />
+      )}
     </div>
   )
 }
@@ -1,7 +1,10 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { TrendingUp, TrendingDown, Minus } from 'lucide-react'
+import { EMOTIONS, type Emotion } from '@/lib/sentiment/types'
+import type { Benchmark } from '@/lib/queries/benchmark'
+import { subscribeToRows } from '@/lib/realtime'
 
 interface AnalyticsData {
   id: string
@@ -11,6 +14,7 @@ interface AnalyticsData {
   neutral_count: number
   average_score: number
   total_mentions: number
+  emotion_counts?: Partial<Record<Emotion, number>> | null
 }
 
 interface Summary {
@@ -21,13 +25,95 @@ interface Summary {
   positivePercentage: number
 }
 
+interface TrackedQueryOption {
+  id: string
+  name: string
+}
+
+// Daily rollup of the mentions one tracked query matched
+interface QueryAnalyticsData extends Omit<AnalyticsData, 'id'> {
+  query_id: string
+}
+
 interface Props {
+  userId: string
   analytics: AnalyticsData[]
+  // First day (YYYY-MM-DD) `analytics` covers; older days updated live are ignored
+  since: string
   summary: Summary
+  queries?: TrackedQueryOption[]
+  queryAnalytics?: QueryAnalyticsData[]
+  benchmark?: Benchmark
+}
+
+const EMOTION_COLORS: Record<Emotion, string> = {
+  joy: 'bg-yellow-400',
+  trust: 'bg-green-400',
+  surprise: 'bg-cyan-400',
+  anger: 'bg-red-500',
+  fear: 'bg-purple-500',
+  sadness: 'bg-blue-500',
+  disappointment: 'bg-orange-400',
+  confusion: 'bg-slate-400',
+}
+
+// Us first, then competitors in the order they were added
+const BENCHMARK_COLORS = ['#a855f7', '#06b6d4', '#f97316', '#ec4899', '#22c55e', '#eab308', '#3b82f6']
+const benchmarkColor = (index: number) => BENCHMARK_COLORS[index % BENCHMARK_COLORS.length]
+
+// Summary figures for a set of daily rows, matching what the dashboard computes
+function summarize(rows: Omit<AnalyticsData, 'id'>[]): Summary {
+  const totalMentions = rows.reduce((sum, d) => sum + d.total_mentions, 0)
+  const positiveCount = rows.reduce((sum, d) => sum + d.positive_count, 0)
+  return {
+    totalMentions,
+    avgScore: rows.length ? rows.reduce((sum, d) => sum + d.average_score, 0) / rows.length : 0,
+    positiveCount,
+    negativeCount: rows.reduce((sum, d) => sum + d.negative_count, 0),
+    positivePercentage: totalMentions > 0 ? (positiveCount / totalMentions) * 100 : 0,
+  }
 }
 
-export default function SentimentHealthCard({ analytics, summary }: Props) {
-  const [viewMode, setViewMode] = useState<'trend' | 'distribution'>('trend')
+export default function SentimentHealthCard({
+  userId,
+  analytics: initialAnalytics,
+  since,
+  summary: initialSummary,
+  queries = [],
+  queryAnalytics = [],
+  benchmark
+}: Props) {
+  const [viewMode, setViewMode] = useState<'trend' | 'distribution' | 'emotions' | 'benchmark'>('trend')
+  const [selectedQuery, setSelectedQuery] = useState<string | null>(null)
+  const [allAnalytics, setAllAnalytics] = useState<AnalyticsData[]>(initialAnalytics)
+
+  // A server refresh brings a fresh set of days
+  useEffect(() => {
+    setAllAnalytics(initialAnalytics)
+  }, [initialAnalytics])
+
+  // Daily rollups are rewritten as mentions are analyzed or reviewed
+  useEffect(() => {
+    return subscribeToRows('sentiment_analytics', userId, (row) => {
+      if (row.date < since) return
+
+      setAllAnalytics(current => current
+        .filter(day => day.date !== row.date)
+        .concat(row)
+        .sort((a, b) => a.date < b.date ? -1 : a.date > b.date ? 1 : 0))
+    })
+  }, [userId, since])
+
+  // The server's figures until a live update arrives, then the same sums over the live days
+  const overallSummary = allAnalytics === initialAnalytics ? initialSummary : summarize(allAnalytics)
+
+  // Either everything, or the days on which the selected query matched mentions
+  const analytics: AnalyticsData[] = selectedQuery
+    ? queryAnalytics
+        .filter(d => d.query_id === selectedQuery)
+        .map(d => ({ ...d, id: `${d.query_id}:${d.date}` }))
+    : allAnalytics
+  const summary = selectedQuery ? summarize(analytics) : overallSummary
 
   // Calculate trend (comparing first half vs second half of period)
   const midPoint = Math.floor(analytics.length / 2)
@@ -39,6 +125,21 @@ export default function SentimentHealthCard({ analytics, summary }: Props) {
   // Find max value for chart scaling
   const maxMentions = Math.max(...analytics.map(d => d.total_mentions), 1)
 
+  // Emotion totals per day and over the whole period
+  const dailyEmotionTotals = analytics.map(d =>
+    EMOTIONS.reduce((sum, emotion) => sum + (d.emotion_counts?.[emotion] || 0), 0)
+  )
+  const maxEmotions = Math.max(...dailyEmotionTotals, 1)
+  const emotionTotals = EMOTIONS.map(emotion => ({
+    emotion,
+    count: analytics.reduce((sum, d) => sum + (d.emotion_counts?.[emotion] || 0), 0)
+  }))
+
+  // Competitor comparison, once there is at least one competitor query
+  const hasCompetitors = !!benchmark && benchmark.entities.length > 1
+  const benchmarkX = (i: number) =>
+    benchmark && benchmark.days.length > 1 ? (i / (benchmark.days.length - 1)) * 800 : 400
+
   // Get sentiment color
   const getSentimentColor = (score: number) => {
     if (score >= 7) return 'from-green-500 to-emerald-600'
@@ -57,9 +158,25 @@ export default function SentimentHealthCard({ analytics, summary }: Props) {
       {/* Header */}
       <div className="flex items-center justify-between mb-8">
         <div>
-          <h3 className="text-2xl font-bold text-white mb-2">
-            Sentiment Health Score
-          </h3>
+          <div className="flex items-center gap-3 mb-2">
+            <h3 className="text-2xl font-bold text-white">
+              Sentiment Health Score
+            </h3>
+            {queries.length > 0 && viewMode !== 'benchmark' && (
+              <select
+                value={selectedQuery ?? ''}
+                onChange={(e) => setSelectedQuery(e.target.value || null)}
+                className="px-3 py-1.5 rounded-lg text-sm font-medium bg-white/5 border border-white/10 text-slate-300 focus:outline-none focus:border-purple-500/50"
+              >
+                <option value="">All mentions</option>
+                {queries.map((query) => (
+                  <option key={query.id} value={query.id}>
+                    {query.name}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
           <div className="flex items-center gap-3">
             <span className={`text-5xl font-bold ${getSentimentTextColor(summary.avgScore)}`}>
               {summary.avgScore.toFixed(1)}
@@ -117,6 +234,28 @@ export default function SentimentHealthCard({ analytics, summary }: Props) {
           >
             Distribution
           </button>
+          <button
+            onClick={() => setViewMode('emotions')}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
+              viewMode === 'emotions'
+                ? 'bg-white/10 text-white'
+                : 'text-slate-400 hover:text-white'
+            }`}
+          >
+            Emotions
+          </button>
+          {hasCompetitors && (
+            <button
+              onClick={() => setViewMode('benchmark')}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
+                viewMode === 'benchmark'
+                  ? 'bg-white/10 text-white'
+                  : 'text-slate-400 hover:text-white'
+              }`}
+            >
+              Competitors
+            </button>
+          )}
         </div>
       </div>
 
@@ -226,6 +365,158 @@ export default function SentimentHealthCard({ analytics, summary }: Props) {
             })}
           </div>
         </div>
+      ) : viewMode === 'benchmark' && benchmark ? (
+        <div className="space-y-6">
+          {/* Share of voice and average score over the whole window */}
+          <div className="space-y-3">
+            {benchmark.entities.map((entity, index) => (
+              <div key={entity.id ?? 'own'} className="flex items-center gap-4">
+                <div className="flex items-center gap-2 w-40 min-w-0">
+                  <div className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: benchmarkColor(index) }}></div>
+                  <span className="text-white text-sm font-medium truncate">{entity.name}</span>
+                </div>
+                <div className="flex-1 h-3 bg-white/5 rounded-full overflow-hidden">
+                  <div
+                    className="h-full transition-all duration-500"
+                    style={{ width: `${entity.shareOfVoice * 100}%`, backgroundColor: benchmarkColor(index) }}
+                  ></div>
+                </div>
+                <span className="text-slate-400 text-sm w-28 text-right">
+                  {(entity.shareOfVoice * 100).toFixed(1)}% · {entity.mentions}
+                </span>
+                <span className={`text-lg font-bold w-12 text-right ${
+                  entity.averageScore === null ? 'text-slate-500' : getSentimentTextColor(entity.averageScore)
+                }`}>
+                  {entity.averageScore === null ? '–' : entity.averageScore.toFixed(1)}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          {/* Average score per day */}
+          <div className="h-48 relative">
+            <svg className="w-full h-full" viewBox="0 0 800 200" preserveAspectRatio="none">
+              {[0, 2.5, 5, 7.5, 10].map((value, i) => (
+                <line
+                  key={i}
+                  x1="0"
+                  y1={200 - (value / 10) * 200}
+                  x2="800"
+                  y2={200 - (value / 10) * 200}
+                  stroke="rgba(255,255,255,0.05)"
+                  strokeWidth="1"
+                />
+              ))}
+
+              {benchmark.entities.map((entity, index) => {
+                // Days without analyzed mentions leave a gap in the line
+                const points = benchmark.days
+                  .map((day, i) => ({ x: benchmarkX(i), score: day.entities[index].averageScore }))
+                  .filter((point): point is { x: number; score: number } => point.score !== null)
+                return (
+                  <g key={entity.id ?? 'own'}>
+                    <path
+                      d={points.map((point, i) => `${i === 0 ? 'M' : 'L'} ${point.x} ${200 - (point.score / 10) * 200}`).join(' ')}
+                      fill="none"
+                      stroke={benchmarkColor(index)}
+                      strokeWidth="3"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                    />
+                    {points.map((point, i) => (
+                      <circle
+                        key={i}
+                        cx={point.x}
+                        cy={200 - (point.score / 10) * 200}
+                        r="3"
+                        fill={benchmarkColor(index)}
+                      />
+                    ))}
+                  </g>
+                )
+              })}
+            </svg>
+
+            <div className="absolute left-0 top-0 h-full flex flex-col justify-between text-xs text-slate-500 -ml-8">
+              <span>10</span>
+              <span>7.5</span>
+              <span>5</span>
+              <span>2.5</span>
+              <span>0</span>
+            </div>
+          </div>
+
+          {/* Daily share of voice */}
+          <div className="h-24 flex items-end gap-1">
+            {benchmark.days.map((day) => (
+              <div key={day.date} className="flex-1 h-full flex flex-col-reverse rounded-t overflow-hidden group relative">
+                {day.entities.map((entity, index) => entity.mentions > 0 && (
+                  <div
+                    key={entity.id ?? 'own'}
+                    className="opacity-70 group-hover:opacity-100 transition-opacity"
+                    style={{ height: `${entity.shareOfVoice * 100}%`, backgroundColor: benchmarkColor(index) }}
+                  />
+                ))}
+                <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 px-2 py-1 bg-black/80 rounded text-xs text-white whitespace-nowrap opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none z-10">
+                  {new Date(day.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                  {day.entities.map((entity, index) => entity.mentions > 0 && (
+                    <div key={entity.id ?? 'own'} className="text-slate-400 text-xs">
+                      {benchmark.entities[index].name}: {(entity.shareOfVoice * 100).toFixed(0)}%
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <p className="text-xs text-slate-500">
+            Competitors are tracked by the terms of their competitor queries; their own accounts can't be connected, so their posts only count when a search for those terms finds them.
+          </p>
+        </div>
+      ) : viewMode === 'emotions' ? (
+        <div className="space-y-6">
+          {/* Stacked daily emotion bars */}
+          <div className="h-64 flex items-end gap-1">
+            {analytics.map((d, i) => (
+              <div
+                key={i}
+                className="flex-1 flex flex-col-reverse rounded-t overflow-hidden group relative"
+                style={{ height: `${(dailyEmotionTotals[i] / maxEmotions) * 100}%`, minHeight: '4px' }}
+              >
+                {EMOTIONS.map((emotion) => {
+                  const count = d.emotion_counts?.[emotion] || 0
+                  if (count === 0) return null
+                  return (
+                    <div
+                      key={emotion}
+                      className={`${EMOTION_COLORS[emotion]} opacity-70 group-hover:opacity-100 transition-opacity`}
+                      style={{ height: `${(count / dailyEmotionTotals[i]) * 100}%` }}
+                    />
+                  )
+                })}
+                <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 px-2 py-1 bg-black/80 rounded text-xs text-white whitespace-nowrap opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none z-10">
+                  {new Date(d.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                  {EMOTIONS.filter(emotion => d.emotion_counts?.[emotion]).map(emotion => (
+                    <div key={emotion} className="text-slate-400 text-xs capitalize">
+                      {emotion}: {d.emotion_counts?.[emotion]}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Legend with period totals */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {emotionTotals.map(({ emotion, count }) => (
+              <div key={emotion} className="flex items-center gap-2">
+                <div className={`w-3 h-3 rounded-full ${EMOTION_COLORS[emotion]}`}></div>
+                <span className="text-white text-sm capitalize">{emotion}</span>
+                <span className="text-slate-500 text-sm">{count}</span>
+              </div>
+            ))}
+          </div>
+        </div>
       ) : (
         <div className="space-y-6">
           {/* Sentiment distribution */}
@@ -0,0 +1,52 @@
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+import { ArrowLeft } from 'lucide-react'
+import { createSupabaseServerClient, getCurrentUser } from '@/lib/supabase'
+import ImportMentions from '@/components/ImportMentions'
+
+export default async function SentimentImportPage() {
+  const user = await getCurrentUser()
+
+  if (!user) {
+    redirect('/login')
+  }
+
+  const supabase = await createSupabaseServerClient()
+  const { data: accounts } = await supabase
+    .from('social_accounts')
+    .select('id, platform, account_name')
+    .eq('user_id', user.id)
+    .eq('is_active', true)
+    .order('created_at', { ascending: true })
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-purple-950 to-slate-950">
+      <div className="relative z-10 container mx-auto px-6 py-12 max-w-5xl">
+        {/* Header */}
+        <header className="mb-12">
+          <Link
+            href="/sentiment"
+            className="inline-flex items-center gap-2 text-slate-400 hover:text-white text-sm mb-6 transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back to dashboard
+          </Link>
+          <h1 className="text-5xl font-bold mb-3 bg-gradient-to-r from-cyan-400 via-purple-400 to-pink-400 bg-clip-text text-transparent">
+            Import Mentions
+          </h1>
+          <p className="text-slate-400 text-lg">
+            Backfill history from another listening tool&apos;s CSV or NDJSON export. Mentions the account already has are skipped.
+          </p>
+        </header>
+
+        {accounts && accounts.length > 0 ? (
+          <ImportMentions accounts={accounts} />
+        ) : (
+          <p className="text-slate-400">
+            Connect a social account first; imported mentions are stored under one of your accounts.
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,46 @@
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+import { ArrowLeft } from 'lucide-react'
+import { createSupabaseServerClient, getCurrentUser } from '@/lib/supabase'
+import { getReviewQueue, REVIEW_CONFIDENCE_THRESHOLD } from '@/lib/sentiment/review'
+import ReviewQueue from '@/components/ReviewQueue'
+
+export default async function SentimentReviewPage() {
+  const user = await getCurrentUser()
+
+  if (!user) {
+    redirect('/login')
+  }
+
+  const supabase = await createSupabaseServerClient()
+  const queue = await getReviewQueue(supabase, user.id, { limit: 100 })
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-purple-950 to-slate-950">
+      <div className="relative z-10 container mx-auto px-6 py-12 max-w-5xl">
+        {/* Header */}
+        <header className="mb-12">
+          <Link
+            href="/sentiment"
+            className="inline-flex items-center gap-2 text-slate-400 hover:text-white text-sm mb-6 transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back to dashboard
+          </Link>
+          <h1 className="text-5xl font-bold mb-3 bg-gradient-to-r from-cyan-400 via-purple-400 to-pink-400 bg-clip-text text-transparent">
+            Review Queue
+          </h1>
+          <p className="text-slate-400 text-lg">
+            Confirm or correct the labels Claude wasn&apos;t sure about. Reviewed labels take precedence in analytics.
+          </p>
+        </header>
+
+        <ReviewQueue
+          mentions={queue.mentions}
+          total={queue.total}
+          threshold={REVIEW_CONFIDENCE_THRESHOLD}
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+import { NextRequest } from 'next/server'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { OAUTH_COOKIE, type PendingAuthorization } from '@/lib/oauth'
+import { GET } from './route'
+
+const session = vi.hoisted(() => ({ user: { id: 'u1' } as { id: string } | null }))
+
+vi.mock('@/lib/supabase', () => ({
+  getCurrentUser: async () => session.user,
+  createSupabaseServerClient: async () => ({}),
+}))
+
+const { completeAuthorization } = vi.hoisted(() => ({ completeAuthorization: vi.fn() }))
+
+vi.mock('@/lib/oauth', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/oauth')>()),
+  getOAuthProvider: () => ({}),
+  completeAuthorization,
+}))
+
+const PENDING: PendingAuthorization = { platform: 'twitter', userId: 'u1', state: 'state-1', codeVerifier: 'verifier-1' }
+
+async function callback(query: string, pending: PendingAuthorization | string | null = PENDING, platform = 'twitter') {
+  const headers = new Headers()
+  if (pending !== null) {
+    const value = typeof pending === 'string' ? pending : JSON.stringify(pending)
+    headers.set('cookie', `${OAUTH_COOKIE}=${encodeURIComponent(value)}`)
+  }
+  const req = new NextRequest(`https://app.test/api/auth/callback/${platform}?${query}`, { headers })
+  const response = await GET(req, { params: Promise.resolve({ platform }) })
+  const location = new URL(response.headers.get('location')!)
+  return { location, params: Object.fromEntries(location.searchParams), cookie: response.cookies.get(OAUTH_COOKIE) }
+}
+
+const EXPIRED = 'The connection request expired or was tampered with. Please try again.'
+
+describe('GET /api/auth/callback/[platform]', () => {
+  beforeEach(() => {
+    session.user = { id: 'u1' }
+    completeAuthorization.mockReset()
+    completeAuthorization.mockResolvedValue(1)
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it('completes the authorization with the pending verifier when the state matches', async () => {
+    const { location, params, cookie } = await callback('code=code-1&state=state-1')
+
+    expect(location.pathname).toBe('/sentiment')
+    expect(params).toEqual({ connected: 'twitter', accounts: '1' })
+    expect(completeAuthorization).toHaveBeenCalledWith(expect.anything(), expect.anything(), PENDING, 'code-1')
+    expect(cookie).toMatchObject({ value: '', maxAge: 0 })
+  })
+
+  it.each([
+    ['a different state', 'code=code-1&state=state-2', PENDING, 'twitter'],
+    ['a missing state', 'code=code-1', PENDING, 'twitter'],
+    ['a missing code', 'state=state-1', PENDING, 'twitter'],
+    ['no pending cookie', 'code=code-1&state=state-1', null, 'twitter'],
+    ['an unreadable cookie', 'code=code-1&state=state-1', '{not json', 'twitter'],
+    ['a cookie from another user', 'code=code-1&state=state-1', { ...PENDING, userId: 'u2' }, 'twitter'],
+    ['a cookie for another platform', 'code=code-1&state=state-1', PENDING, 'linkedin'],
+  ] as const)('refuses %s', async (_case, query, pending, platform) => {
+    const { params, cookie } = await callback(query, pending, platform)
+
+    expect(params).toEqual({ connect_error: EXPIRED })
+    expect(completeAuthorization).not.toHaveBeenCalled()
+    expect(cookie).toMatchObject({ value: '', maxAge: 0 })
+  })
+
+  it('passes on a declined consent', async () => {
+    const { params } = await callback('error=access_denied&error_description=The+user+denied+access')
+
+    expect(params).toEqual({ connect_error: 'The user denied access' })
+    expect(completeAuthorization).not.toHaveBeenCalled()
+  })
+
+  it('reports a login that granted no accounts', async () => {
+    completeAuthorization.mockResolvedValue(0)
+
+    expect((await callback('code=code-1&state=state-1')).params).toEqual({
+      connect_error: 'No twitter accounts were shared during login',
+    })
+  })
+
+  it('reports a failed code exchange', async () => {
+    completeAuthorization.mockRejectedValue(new Error('Token request failed: 400'))
+
+    expect((await callback('code=code-1&state=state-1')).params).toEqual({ connect_error: 'Failed to connect account' })
+  })
+
+  it('sends signed-out users to the login page', async () => {
+    session.user = null
+
+    expect((await callback('code=code-1&state=state-1')).location.pathname).toBe('/login')
+  })
+})
@@ -0,0 +1,90 @@
+import { timingSafeEqual } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseServerClient, getCurrentUser } from '@/lib/supabase'
+import type { SocialPlatform } from '@/lib/connectors'
+import { completeAuthorization, getOAuthProvider, OAUTH_COOKIE, type PendingAuthorization } from '@/lib/oauth'
+
+interface RouteContext {
+  params: Promise<{ platform: string }>
+}
+
+function readPending(req: NextRequest): PendingAuthorization | null {
+  try {
+    return JSON.parse(req.cookies.get(OAUTH_COOKIE)?.value || 'null')
+  } catch {
+    return null
+  }
+}
+
+function sameState(expected: string, received: string) {
+  const a = Buffer.from(expected)
+  const b = Buffer.from(received)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+// GET endpoint the platform redirects back to after the user consents.
+// Always ends on the dashboard, with ?connected= or ?connect_error=.
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const { platform } = await params
+  const dashboard = new URL('/sentiment', req.nextUrl.origin)
+
+  const finish = (result: Record<string, string>) => {
+    for (const [key, value] of Object.entries(result)) {
+      dashboard.searchParams.set(key, value)
+    }
+    const response = NextResponse.redirect(dashboard)
+    response.cookies.set(OAUTH_COOKIE, '', { path: '/api/auth/callback', maxAge: 0 })
+    return response
+  }
+
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.redirect(new URL('/login', req.nextUrl.origin))
+    }
+
+    const search = req.nextUrl.searchParams
+    const providerError = search.get('error')
+
+    // The user declined, or the platform refused the request
+    if (providerError) {
+      return finish({ connect_error: search.get('error_description') || providerError })
+    }
+
+    const pending = readPending(req)
+    const code = search.get('code')
+    const state = search.get('state')
+
+    if (
+      !pending ||
+      !code ||
+      !state ||
+      pending.platform !== platform ||
+      pending.userId !== user.id ||
+      !sameState(pending.state, state)
+    ) {
+      return finish({ connect_error: 'The connection request expired or was tampered with. Please try again.' })
+    }
+
+    const provider = getOAuthProvider(platform as SocialPlatform)
+
+    if (!provider) {
+      return finish({ connect_error: 'Unsupported platform' })
+    }
+
+    const supabase = await createSupabaseServerClient()
+    const saved = await completeAuthorization(supabase, provider, pending, code)
+
+    if (saved === 0) {
+      return finish({ connect_error: `No ${platform} accounts were shared during login` })
+    }
+
+    return finish({ connected: platform, accounts: String(saved) })
+
+  } catch (error) {
+    console.error('OAuth callback error:', error)
+
+    return finish({ connect_error: 'Failed to connect account' })
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/supabase'
+import type { SocialPlatform } from '@/lib/connectors'
+import { getOAuthProvider, OAUTH_COOKIE, OAUTH_COOKIE_MAX_AGE, startAuthorization } from '@/lib/oauth'
+import { canUsePlatform, getSubscriptionTier, PLATFORM_NAMES } from '@/lib/plans'
+
+interface ConnectRequest {
+  platform?: SocialPlatform
+}
+
+// POST endpoint to start connecting a social account
+// Returns the platform's consent URL for the browser to redirect to
+export async function POST(req: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body: ConnectRequest = await req.json().catch(() => ({}))
+    const provider = body.platform ? getOAuthProvider(body.platform) : null
+
+    if (!body.platform || !provider) {
+      return NextResponse.json(
+        { error: 'Unsupported platform' },
+        { status: 400 }
+      )
+    }
+
+    const tier = await getSubscriptionTier(user.id)
+
+    if (!canUsePlatform(tier, body.platform)) {
+      return NextResponse.json(
+        { error: `${PLATFORM_NAMES[body.platform]} requires the Professional plan`, upgradeRequired: true },
+        { status: 403 }
+      )
+    }
+
+    const { authUrl, pending } = startAuthorization(provider, body.platform, user.id)
+    const response = NextResponse.json({
+      success: true,
+      authUrl
+    })
+
+    // Only the callback reads it; sameSite=lax still sends it on the
+    // top-level redirect back from the platform
+    response.cookies.set(OAUTH_COOKIE, JSON.stringify(pending), {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/api/auth/callback',
+      maxAge: OAUTH_COOKIE_MAX_AGE
+    })
+
+    return response
+
+  } catch (error) {
+    console.error('OAuth connect error:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Failed to start connection',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
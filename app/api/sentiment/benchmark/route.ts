@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseServerClient, getCurrentUser } from '@/lib/supabase'
+import { loadBenchmark } from '@/lib/queries/benchmark'
+
+// Longest window that can be compared at once
+const MAX_DAYS = 365
+
+// GET endpoint comparing share of voice and average score against each competitor query
+// e.g. /api/sentiment/benchmark?days=30
+export async function GET(req: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const days = Number(req.nextUrl.searchParams.get('days') || 30)
+
+    if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+      return NextResponse.json(
+        { error: `days must be a whole number between 1 and ${MAX_DAYS}` },
+        { status: 400 }
+      )
+    }
+
+    const since = new Date()
+    since.setDate(since.getDate() - days)
+
+    const supabase = await createSupabaseServerClient()
+    const benchmark = await loadBenchmark(supabase, user.id, since.toISOString().split('T')[0])
+
+    return NextResponse.json({
+      success: true,
+      benchmark
+    })
+
+  } catch (error) {
+    console.error('Benchmark error:', error)
+
+    return NextResponse.json(
+      { error: 'Failed to build competitor benchmark' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseServerClient, getCurrentUser } from '@/lib/supabase'
+import { diffPromptVersions } from '@/lib/sentiment/history'
+
+// GET endpoint reporting how sentiment labels shifted between two prompt versions
+// e.g. /api/sentiment/history/diff?base=3f2a9c1b7e4d&compare=a81c0e55d2f9
+export async function GET(req: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const base = req.nextUrl.searchParams.get('base')
+    const compare = req.nextUrl.searchParams.get('compare')
+
+    if (!base || !compare) {
+      return NextResponse.json(
+        { error: 'Both base and compare prompt versions are required' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createSupabaseServerClient()
+    const report = await diffPromptVersions(supabase, user.id, base, compare)
+
+    return NextResponse.json({
+      success: true,
+      report
+    })
+
+  } catch (error) {
+    console.error('Sentiment diff error:', error)
+    
+    return NextResponse.json(
+      { error: 'Failed to build sentiment diff report' },
+      { status: 500 }
+    )
+  }
+}
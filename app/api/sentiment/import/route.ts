@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { createSupabaseAdmin, createSupabaseServerClient, getCurrentUser } from '@/lib/supabase'
+import type { SocialAccount } from '@/lib/connectors'
+import {
+  MAX_IMPORT_BYTES,
+  MAX_IMPORT_RECORDS,
+  detectFormat,
+  guessMapping,
+  importMentions,
+  importOptionsSchema,
+  missingColumns,
+  parseImportFile
+} from '@/lib/import'
+import { processAnalysisJobs } from '@/lib/sentiment/jobs'
+
+// How long the request may keep analyzing imported mentions after responding
+const AFTER_RESPONSE_BUDGET_MS = 20_000
+
+// POST endpoint to import historical mentions from a CSV or NDJSON export
+// multipart/form-data: file, socialAccountId, format? (csv | ndjson, detected
+// when left out), mapping? (JSON object of mention field -> column, guessed
+// from the column names when left out), analyze? ("true"), dryRun? ("true")
+export async function POST(req: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const form = await req.formData().catch(() => null)
+    const file = form?.get('file')
+    const socialAccountId = form?.get('socialAccountId')
+
+    if (!form || !(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'A file is required' },
+        { status: 400 }
+      )
+    }
+
+    if (typeof socialAccountId !== 'string' || !socialAccountId) {
+      return NextResponse.json(
+        { error: 'socialAccountId is required' },
+        { status: 400 }
+      )
+    }
+
+    if (file.size > MAX_IMPORT_BYTES) {
+      return NextResponse.json(
+        { error: `File is larger than ${MAX_IMPORT_BYTES / 1024 / 1024} MB; split it into smaller files` },
+        { status: 413 }
+      )
+    }
+
+    const text = await file.text()
+    const format = form.get('format') || detectFormat(file.name, text)
+    const parsed = parseImportFile(text, format === 'ndjson' ? 'ndjson' : 'csv')
+
+    if (parsed.records.length === 0 && parsed.errors.length === 0) {
+      return NextResponse.json(
+        { error: 'File has no rows to import' },
+        { status: 400 }
+      )
+    }
+
+    if (parsed.records.length > MAX_IMPORT_RECORDS) {
+      return NextResponse.json(
+        { error: `File has more than ${MAX_IMPORT_RECORDS} rows; split it into smaller files` },
+        { status: 413 }
+      )
+    }
+
+    let mapping: unknown = guessMapping(parsed.columns)
+    const rawMapping = form.get('mapping')
+    if (typeof rawMapping === 'string' && rawMapping) {
+      try {
+        mapping = JSON.parse(rawMapping)
+      } catch {
+        return NextResponse.json(
+          { error: 'mapping must be a JSON object' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const validation = importOptionsSchema.safeParse({
+      format,
+      mapping,
+      analyze: form.get('analyze') === 'true',
+      dryRun: form.get('dryRun') === 'true'
+    })
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid import options',
+          details: validation.error.issues.map(issue => issue.message),
+          columns: parsed.columns
+        },
+        { status: 400 }
+      )
+    }
+
+    const unknownColumns = missingColumns(validation.data.mapping, parsed.columns)
+    if (unknownColumns.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Mapping refers to columns the file does not have',
+          details: unknownColumns,
+          columns: parsed.columns
+        },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createSupabaseServerClient()
+    const { data: account } = await supabase
+      .from('social_accounts')
+      .select('*')
+      .eq('id', socialAccountId)
+      .eq('user_id', user.id)
+      .eq('is_active', true)
+      .maybeSingle()
+
+    if (!account) {
+      return NextResponse.json(
+        { error: 'Social account not found' },
+        { status: 404 }
+      )
+    }
+
+    const result = await importMentions(supabase, account as SocialAccount, parsed, validation.data)
+
+    if (result.jobId) {
+      after(() => processAnalysisJobs(createSupabaseAdmin(), { timeBudgetMs: AFTER_RESPONSE_BUDGET_MS })
+        .catch(error => console.error('Background analysis error:', error)))
+    }
+
+    return NextResponse.json({
+      success: true,
+      mapping: validation.data.mapping,
+      ...result
+    })
+
+  } catch (error) {
+    console.error('Import error:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Failed to import mentions',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { createSupabaseAdmin, createSupabaseServerClient, getCurrentUser } from '@/lib/supabase'
+import type { SocialAccount } from '@/lib/connectors'
+import { ingestAccount, type IngestResult } from '@/lib/connectors/ingest'
+import { syncAccount } from '@/lib/connectors/sync'
+import { enqueueAnalysisJob, processAnalysisJobs } from '@/lib/sentiment/jobs'
+
+// How long the request may keep analyzing freshly synced mentions after responding
+const AFTER_RESPONSE_BUDGET_MS = 20_000
+
+interface IngestRequest {
+  socialAccountId?: string
+  // Optional sanity check against the account's own platform
+  platform?: string
+  // Only fetch mentions posted after this ISO timestamp. Without it the
+  // account's stored sync cursor is used and advanced.
+  since?: string
+}
+
+// POST endpoint to pull new mentions for a connected account
+export async function POST(req: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body: IngestRequest = await req.json().catch(() => ({}))
+
+    if (!body.socialAccountId) {
+      return NextResponse.json(
+        { error: 'socialAccountId is required' },
+        { status: 400 }
+      )
+    }
+
+    if (body.since && isNaN(new Date(body.since).getTime())) {
+      return NextResponse.json(
+        { error: 'since must be an ISO timestamp' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createSupabaseServerClient()
+    const { data: account } = await supabase
+      .from('social_accounts')
+      .select('*')
+      .eq('id', body.socialAccountId)
+      .eq('user_id', user.id)
+      .eq('is_active', true)
+      .maybeSingle()
+
+    if (!account) {
+      return NextResponse.json(
+        { error: 'Social account not found' },
+        { status: 404 }
+      )
+    }
+
+    if (account.needs_reconnect) {
+      return NextResponse.json(
+        { error: 'Account needs to be reconnected', details: account.last_sync_error },
+        { status: 409 }
+      )
+    }
+
+    if (body.platform && body.platform !== account.platform) {
+      return NextResponse.json(
+        { error: `Account is connected to ${account.platform}, not ${body.platform}` },
+        { status: 400 }
+      )
+    }
+
+    let result: IngestResult
+
+    if (body.since) {
+      result = await ingestAccount(supabase, account as SocialAccount, {
+        cursor: new Date(body.since).toISOString()
+      })
+
+      // syncAccount queues its own; a backfill has to do it here
+      if (result.insertedIds.length > 0) {
+        await enqueueAnalysisJob(supabase, user.id, { mentionIds: result.insertedIds })
+      }
+    } else {
+      const outcome = await syncAccount(supabase, account as SocialAccount)
+
+      if (!outcome.success) {
+        return NextResponse.json(
+          { error: 'Failed to ingest mentions', details: outcome.error },
+          { status: 500 }
+        )
+      }
+      result = outcome.result
+    }
+
+    // The new mentions are queued for analysis - start on it right away
+    if (result.insertedIds.length > 0) {
+      after(() => processAnalysisJobs(createSupabaseAdmin(), { timeBudgetMs: AFTER_RESPONSE_BUDGET_MS })
+        .catch(error => console.error('Background analysis error:', error)))
+    }
+
+    return NextResponse.json({
+      success: true,
+      fetched: result.fetched,
+      inserted: result.inserted,
+      updated: result.updated,
+      skipped: result.skipped,
+      duplicates: result.duplicates,
+      cursor: result.cursor
+    })
+
+  } catch (error) {
+    console.error('Ingest error:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Failed to ingest mentions',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseServerClient, getCurrentUser } from '@/lib/supabase'
+import { cancelAnalysisJob, getAnalysisJob } from '@/lib/sentiment/jobs'
+
+interface RouteContext {
+  params: Promise<{ jobId: string }>
+}
+
+// GET endpoint to report progress of an analysis job
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await getCurrentUser()
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { jobId } = await params
+    const supabase = await createSupabaseServerClient()
+    const job = await getAnalysisJob(supabase, user.id, jobId)
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      job: {
+        id: job.id,
+        status: job.status,
+        total: job.total_count,
+        processed: job.processed_count,
+        failed: job.failed_count,
+        attempts: job.attempts,
+        lastError: job.last_error,
+        retryAt: job.status === 'queued' && job.attempts > 0 ? job.run_after : null,
+        percentageComplete: job.total_count > 0 ? (job.processed_count / job.total_count) * 100 : 100,
+        startedAt: job.started_at,
+        completedAt: job.completed_at,
+        createdAt: job.created_at
+      }
+    })
+
+  } catch (error) {
+    console.error('Job status error:', error)
+    
+    return NextResponse.json(
+      { error: 'Failed to load job status' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE endpoint to cancel a queued or running job
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await getCurrentUser()
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { jobId } = await params
+    const supabase = await createSupabaseServerClient()
+    const cancelled = await cancelAnalysisJob(supabase, user.id, jobId)
+
+    if (!cancelled) {
+      return NextResponse.json(
+        { error: 'Job not found or already finished' },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Job cancel error:', error)
+    
+    return NextResponse.json(
+      { error: 'Failed to cancel job' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { processAnalysisJobs } from '@/lib/sentiment/jobs'
+
+const CRON_SECRET = process.env.CRON_SECRET
+
+export const maxDuration = 60
+
+// Worker entry point for a cron caller (e.g. Vercel Cron every minute).
+// Authenticated with `Authorization: Bearer $CRON_SECRET`, not a user session.
+export async function GET(req: NextRequest) {
+  if (!CRON_SECRET || req.headers.get('authorization') !== `Bearer ${CRON_SECRET}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const result = await processAnalysisJobs(createSupabaseAdmin(), { timeBudgetMs: 50_000 })
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    })
+
+  } catch (error) {
+    console.error('Analysis worker error:', error)
+    
+    return NextResponse.json(
+      { error: 'Analysis worker failed' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseServerClient, getCurrentUser } from '@/lib/supabase'
+import { getSentimentProvider } from '@/lib/sentiment'
+import { saveMentionSentiment } from '@/lib/sentiment/persist'
+import { getMentionDetail, threadContextFor } from '@/lib/mentions/thread'
+
+interface RouteContext {
+  params: Promise<{ mentionId: string }>
+}
+
+// POST endpoint re-analyzing one mention right away
+// Body: { threadContext?: boolean } - also show the model the post the mention
+// replies to and other replies to it. Ignored when none of them are stored.
+// Responds with the refreshed detail, as GET /api/sentiment/mentions/:id does.
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body: { threadContext?: boolean } = await req.json().catch(() => ({}))
+    const { mentionId } = await params
+    const supabase = await createSupabaseServerClient()
+    const detail = await getMentionDetail(supabase, user.id, mentionId)
+
+    if (!detail) {
+      return NextResponse.json(
+        { error: 'Mention not found' },
+        { status: 404 }
+      )
+    }
+
+    const provider = getSentimentProvider()
+    const context = body.threadContext === true ? threadContextFor(detail) : null
+    const sentiment = await provider.analyze(detail.mention.content, context ?? undefined)
+
+    await saveMentionSentiment(supabase, user.id, mentionId, sentiment, provider, { threadContext: context !== null })
+
+    return NextResponse.json({
+      success: true,
+      ...await getMentionDetail(supabase, user.id, mentionId)
+    })
+
+  } catch (error) {
+    console.error('Mention re-analysis error:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Failed to analyze mention',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
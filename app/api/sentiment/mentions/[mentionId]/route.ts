@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseServerClient, getCurrentUser } from '@/lib/supabase'
+import { getMentionDetail } from '@/lib/mentions/thread'
+
+interface RouteContext {
+  params: Promise<{ mentionId: string }>
+}
+
+// GET endpoint with everything the detail drawer shows for a mention: the
+// mention with its aspects and review, the post it replies to, other replies
+// to that post, replies to the mention, and every analysis it has had
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { mentionId } = await params
+    const supabase = await createSupabaseServerClient()
+    const detail = await getMentionDetail(supabase, user.id, mentionId)
+
+    if (!detail) {
+      return NextResponse.json(
+        { error: 'Mention not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...detail
+    })
+
+  } catch (error) {
+    console.error('Mention detail error:', error)
+
+    return NextResponse.json(
+      { error: 'Failed to load mention' },
+      { status: 500 }
+    )
+  }
+}
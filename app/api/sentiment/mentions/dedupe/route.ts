@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseServerClient, getCurrentUser } from '@/lib/supabase'
+import { mergeDuplicateMentions } from '@/lib/connectors/dedupe'
+
+// Long-lived accounts can have tens of thousands of mentions to scan
+export const maxDuration = 60
+
+// POST endpoint that merges duplicate mentions and flags reposts
+// Body: { dryRun?: boolean } - a dry run only reports what would change
+export async function POST(req: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body: { dryRun?: boolean } = await req.json().catch(() => ({}))
+    const supabase = await createSupabaseServerClient()
+    const report = await mergeDuplicateMentions(supabase, user.id, { dryRun: body.dryRun === true })
+
+    return NextResponse.json({
+      success: true,
+      report
+    })
+
+  } catch (error) {
+    console.error('Mention dedupe error:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Failed to merge duplicate mentions',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
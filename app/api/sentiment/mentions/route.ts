@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseServerClient, getCurrentUser } from '@/lib/supabase'
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  decodeCursor,
+  filterParams,
+  getMentionFacets,
+  listMentions,
+  mentionFilterSchema,
+  mentionIdsSchema
+} from '@/lib/mentions'
+
+// GET endpoint paging through the mention feed, newest first
+// e.g. /api/sentiment/mentions?label=negative&platform=instagram&q=delivery&limit=25
+// Filters: label (positive | negative | neutral | unanalyzed), platform,
+// socialAccountId, queryId, topic, language, q (full-text search of text and
+// author), from/to (YYYY-MM-DD), days (last N), minScore/maxScore (0-10),
+// minEngagement, hasUrl (true | false) and author. Pass the returned nextCursor
+// as `cursor` for the next page. Responses without a cursor also carry facet
+// counts for the filters. `ids` (comma-separated, up to 100) narrows the
+// response to those of the mentions that match the filters, which is how the
+// dashboard refreshes mentions that changed.
+export async function GET(req: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const params = req.nextUrl.searchParams
+    const validation = mentionFilterSchema.safeParse(filterParams(params))
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid filter',
+          details: validation.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const rawCursor = params.get('cursor')
+    const cursor = rawCursor ? decodeCursor(rawCursor) : null
+
+    if (rawCursor && !cursor) {
+      return NextResponse.json(
+        { error: 'Invalid cursor' },
+        { status: 400 }
+      )
+    }
+
+    const rawIds = params.get('ids')
+    const ids = rawIds ? mentionIdsSchema.safeParse(rawIds.split(',')) : null
+
+    if (ids && !ids.success) {
+      return NextResponse.json(
+        { error: 'Invalid ids', details: ids.error.issues.map(issue => issue.message) },
+        { status: 400 }
+      )
+    }
+
+    const limit = Math.min(Math.max(Number(params.get('limit')) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE)
+    const supabase = await createSupabaseServerClient()
+    const page = await listMentions(supabase, user.id, validation.data, { cursor, limit, ids: ids?.data })
+    const facets = cursor ? undefined : await getMentionFacets(supabase, user.id, validation.data)
+
+    return NextResponse.json({
+      success: true,
+      mentions: page.mentions,
+      nextCursor: page.nextCursor,
+      facets
+    })
+
+  } catch (error) {
+    console.error('Mention feed error:', error)
+
+    return NextResponse.json(
+      { error: 'Failed to load mentions' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseServerClient, getCurrentUser } from '@/lib/supabase'
+import { deleteQuery, queryUpdateSchema, updateQuery } from '@/lib/queries'
+
+// Postgres unique_violation: a query with that name already exists
+const UNIQUE_VIOLATION = '23505'
+
+interface RouteContext {
+  params: Promise<{ queryId: string }>
+}
+
+// PATCH endpoint to rename, pause or change a tracked query
+// A new expression re-matches recent mentions and restarts platform search.
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const parsed = queryUpdateSchema.safeParse(await req.json().catch(() => null))
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid tracked query', details: parsed.error.issues.map(issue => issue.message) },
+        { status: 400 }
+      )
+    }
+
+    const { queryId } = await params
+    const supabase = await createSupabaseServerClient()
+    const updated = await updateQuery(supabase, user.id, queryId, parsed.data)
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'Tracked query not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...updated
+    })
+
+  } catch (error) {
+    if ((error as { code?: string }).code === UNIQUE_VIOLATION) {
+      return NextResponse.json(
+        { error: 'A tracked query with this name already exists' },
+        { status: 409 }
+      )
+    }
+
+    console.error('Tracked query update error:', error)
+
+    return NextResponse.json(
+      { error: 'Failed to update tracked query' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE endpoint to stop tracking a query; matched mentions are kept
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { queryId } = await params
+    const supabase = await createSupabaseServerClient()
+    const deleted = await deleteQuery(supabase, user.id, queryId)
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Tracked query not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Tracked query delete error:', error)
+
+    return NextResponse.json(
+      { error: 'Failed to delete tracked query' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseServerClient, getCurrentUser } from '@/lib/supabase'
+import { createQuery, listQueries, queryInputSchema } from '@/lib/queries'
+
+// Postgres unique_violation: a query with that name already exists
+const UNIQUE_VIOLATION = '23505'
+
+// GET endpoint listing the user's tracked queries
+export async function GET() {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const supabase = await createSupabaseServerClient()
+    const queries = await listQueries(supabase, user.id)
+
+    return NextResponse.json({
+      success: true,
+      queries
+    })
+
+  } catch (error) {
+    console.error('Tracked queries error:', error)
+
+    return NextResponse.json(
+      { error: 'Failed to load tracked queries' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST endpoint to start tracking a brand, hashtag, competitor or keyword expression
+// Body: { name, kind, expression, isActive? }
+// Recent mentions that match are linked straight away.
+export async function POST(req: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const parsed = queryInputSchema.safeParse(await req.json().catch(() => null))
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid tracked query', details: parsed.error.issues.map(issue => issue.message) },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createSupabaseServerClient()
+    const { query, matched } = await createQuery(supabase, user.id, parsed.data)
+
+    return NextResponse.json({
+      success: true,
+      query,
+      matched
+    })
+
+  } catch (error) {
+    if ((error as { code?: string }).code === UNIQUE_VIOLATION) {
+      return NextResponse.json(
+        { error: 'A tracked query with this name already exists' },
+        { status: 409 }
+      )
+    }
+
+    console.error('Tracked query create error:', error)
+
+    return NextResponse.json(
+      { error: 'Failed to create tracked query' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseServerClient, getCurrentUser } from '@/lib/supabase'
+import { clearReview, reviewInputSchema, submitReview } from '@/lib/sentiment/review'
+
+interface RouteContext {
+  params: Promise<{ mentionId: string }>
+}
+
+// POST endpoint to confirm or override the model's label for a mention
+// Body: { action: 'confirm' } or { action: 'override', label, score?, note? }
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const parsed = reviewInputSchema.safeParse(await req.json().catch(() => null))
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid review', details: parsed.error.issues.map(issue => issue.message) },
+        { status: 400 }
+      )
+    }
+
+    const { mentionId } = await params
+    const supabase = await createSupabaseServerClient()
+    const review = await submitReview(supabase, user.id, user.id, mentionId, parsed.data)
+
+    if (!review) {
+      return NextResponse.json(
+        { error: 'Mention not found or not analyzed yet' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      review
+    })
+
+  } catch (error) {
+    console.error('Review submit error:', error)
+
+    return NextResponse.json(
+      { error: 'Failed to save review' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE endpoint to undo a review and fall back to the model's label
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { mentionId } = await params
+    const supabase = await createSupabaseServerClient()
+    const cleared = await clearReview(supabase, user.id, mentionId)
+
+    if (!cleared) {
+      return NextResponse.json(
+        { error: 'Review not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Review clear error:', error)
+
+    return NextResponse.json(
+      { error: 'Failed to clear review' },
+      { status: 500 }
+    )
+  }
+}
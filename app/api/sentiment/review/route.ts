@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseServerClient, getCurrentUser } from '@/lib/supabase'
+import { getReviewQueue, REVIEW_CONFIDENCE_THRESHOLD } from '@/lib/sentiment/review'
+
+// GET endpoint listing mentions waiting for human review
+export async function GET(req: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const limit = Math.min(Number(req.nextUrl.searchParams.get('limit')) || 50, 200)
+    const supabase = await createSupabaseServerClient()
+    const queue = await getReviewQueue(supabase, user.id, { limit })
+
+    return NextResponse.json({
+      success: true,
+      threshold: REVIEW_CONFIDENCE_THRESHOLD,
+      total: queue.total,
+      mentions: queue.mentions
+    })
+
+  } catch (error) {
+    console.error('Review queue error:', error)
+
+    return NextResponse.json(
+      { error: 'Failed to load review queue' },
+      { status: 500 }
+    )
+  }
+}
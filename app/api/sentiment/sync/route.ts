@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { syncDueAccounts } from '@/lib/connectors/sync'
+
+const CRON_SECRET = process.env.CRON_SECRET
+
+export const maxDuration = 60
+
+// Scheduler entry point for a cron caller (e.g. Vercel Cron every 5 minutes).
+// Polls every active account whose sync interval has passed.
+// Authenticated with `Authorization: Bearer $CRON_SECRET`, not a user session.
+export async function GET(req: NextRequest) {
+  if (!CRON_SECRET || req.headers.get('authorization') !== `Bearer ${CRON_SECRET}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const result = await syncDueAccounts(createSupabaseAdmin(), { timeBudgetMs: 50_000 })
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    })
+
+  } catch (error) {
+    console.error('Account sync scheduler error:', error)
+    
+    return NextResponse.json(
+      { error: 'Account sync failed' },
+      { status: 500 }
+    )
+  }
+}
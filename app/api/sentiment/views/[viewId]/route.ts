@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseServerClient, getCurrentUser } from '@/lib/supabase'
+import { MAX_PINNED_VIEWS, countPinnedViews, deleteView, updateView, viewUpdateSchema } from '@/lib/views'
+
+// Postgres unique_violation: a view with that name already exists
+const UNIQUE_VIOLATION = '23505'
+
+interface RouteContext {
+  params: Promise<{ viewId: string }>
+}
+
+// PATCH endpoint to rename a saved view, replace its filters or pin/unpin it
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const parsed = viewUpdateSchema.safeParse(await req.json().catch(() => null))
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid saved view', details: parsed.error.issues.map(issue => issue.message) },
+        { status: 400 }
+      )
+    }
+
+    const { viewId } = await params
+    const supabase = await createSupabaseServerClient()
+
+    if (parsed.data.isPinned && await countPinnedViews(supabase, user.id, viewId) >= MAX_PINNED_VIEWS) {
+      return NextResponse.json(
+        { error: `Up to ${MAX_PINNED_VIEWS} views can be pinned to the dashboard` },
+        { status: 409 }
+      )
+    }
+
+    const view = await updateView(supabase, user.id, viewId, parsed.data)
+
+    if (!view) {
+      return NextResponse.json(
+        { error: 'Saved view not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      view
+    })
+
+  } catch (error) {
+    if ((error as { code?: string }).code === UNIQUE_VIOLATION) {
+      return NextResponse.json(
+        { error: 'A saved view with this name already exists' },
+        { status: 409 }
+      )
+    }
+
+    console.error('Saved view update error:', error)
+
+    return NextResponse.json(
+      { error: 'Failed to update saved view' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE endpoint to remove a saved view
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { viewId } = await params
+    const supabase = await createSupabaseServerClient()
+    const deleted = await deleteView(supabase, user.id, viewId)
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Saved view not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Saved view delete error:', error)
+
+    return NextResponse.json(
+      { error: 'Failed to delete saved view' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseServerClient, getCurrentUser } from '@/lib/supabase'
+import { MAX_PINNED_VIEWS, countPinnedViews, createView, listViews, viewInputSchema } from '@/lib/views'
+
+// Postgres unique_violation: a view with that name already exists
+const UNIQUE_VIOLATION = '23505'
+
+// GET endpoint listing the user's saved mention feed views
+export async function GET() {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const supabase = await createSupabaseServerClient()
+    const views = await listViews(supabase, user.id)
+
+    return NextResponse.json({
+      success: true,
+      views
+    })
+
+  } catch (error) {
+    console.error('Saved views error:', error)
+
+    return NextResponse.json(
+      { error: 'Failed to load saved views' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST endpoint to save a named set of feed filters
+// Body: { name, filters, isPinned? }, with filters as in the feed's query
+// string, e.g. { "label": "negative", "platform": "instagram", "minEngagement": "50", "days": "7" }
+export async function POST(req: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const parsed = viewInputSchema.safeParse(await req.json().catch(() => null))
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid saved view', details: parsed.error.issues.map(issue => issue.message) },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createSupabaseServerClient()
+
+    if (parsed.data.isPinned && await countPinnedViews(supabase, user.id) >= MAX_PINNED_VIEWS) {
+      return NextResponse.json(
+        { error: `Up to ${MAX_PINNED_VIEWS} views can be pinned to the dashboard` },
+        { status: 409 }
+      )
+    }
+
+    const view = await createView(supabase, user.id, parsed.data)
+
+    return NextResponse.json({
+      success: true,
+      view
+    })
+
+  } catch (error) {
+    if ((error as { code?: string }).code === UNIQUE_VIOLATION) {
+      return NextResponse.json(
+        { error: 'A saved view with this name already exists' },
+        { status: 409 }
+      )
+    }
+
+    console.error('Saved view create error:', error)
+
+    return NextResponse.json(
+      { error: 'Failed to save view' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { getConnector, type SocialPlatform } from '@/lib/connectors'
+import { receiveWebhook } from '@/lib/connectors/webhook'
+import { processAnalysisJobs } from '@/lib/sentiment/jobs'
+
+// How long the request may keep analyzing delivered mentions after responding
+const AFTER_RESPONSE_BUDGET_MS = 20_000
+
+const PLATFORMS: SocialPlatform[] = ['instagram', 'facebook', 'twitter', 'linkedin']
+
+interface RouteContext {
+  params: Promise<{ platform: string }>
+}
+
+// The connector for a platform, if it takes webhook deliveries
+async function webhookConnector({ params }: RouteContext) {
+  const { platform } = await params
+
+  if (!PLATFORMS.includes(platform as SocialPlatform)) {
+    return null
+  }
+
+  try {
+    const connector = getConnector(platform as SocialPlatform)
+    return connector.webhook ? { platform: platform as SocialPlatform, connector, webhook: connector.webhook } : null
+  } catch {
+    return null
+  }
+}
+
+// GET endpoint for the platform's subscription verification handshake
+export async function GET(req: NextRequest, context: RouteContext) {
+  const target = await webhookConnector(context)
+
+  if (!target) {
+    return NextResponse.json(
+      { error: 'Webhooks not supported for this platform' },
+      { status: 404 }
+    )
+  }
+
+  const challenge = target.webhook.verifyHandshake(req.nextUrl.searchParams)
+
+  if (challenge === null) {
+    return NextResponse.json(
+      { error: 'Verification failed' },
+      { status: 403 }
+    )
+  }
+
+  // The platform expects the challenge echoed back as-is, not as JSON
+  return new NextResponse(challenge, {
+    headers: { 'Content-Type': 'text/plain' }
+  })
+}
+
+// POST endpoint the platform delivers mention events to.
+// Authenticated by the platform's request signature, not a user session.
+export async function POST(req: NextRequest, context: RouteContext) {
+  const target = await webhookConnector(context)
+
+  if (!target) {
+    return NextResponse.json(
+      { error: 'Webhooks not supported for this platform' },
+      { status: 404 }
+    )
+  }
+
+  // The signature covers the exact bytes sent, so read the body raw
+  const rawBody = await req.text()
+
+  if (!target.webhook.verifySignature(rawBody, req.headers)) {
+    return NextResponse.json(
+      { error: 'Invalid signature' },
+      { status: 401 }
+    )
+  }
+
+  let payload: unknown
+  try {
+    payload = JSON.parse(rawBody)
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON payload' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const result = await receiveWebhook(createSupabaseAdmin(), target.platform, target.connector, payload)
+
+    if (result.queued) {
+      after(() => processAnalysisJobs(createSupabaseAdmin(), { timeBudgetMs: AFTER_RESPONSE_BUDGET_MS })
+        .catch(error => console.error('Background analysis error:', error)))
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    })
+
+  } catch (error) {
+    // A non-2xx makes the platform retry the delivery; storing is idempotent
+    console.error('Webhook error:', error)
+
+    return NextResponse.json(
+      { error: 'Failed to process webhook' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,251 @@
+'use client'
+
+import { useState } from 'react'
+import { Upload, Loader2, CheckCircle, AlertCircle, FileText } from 'lucide-react'
+import { detectFormat, parseImportFile, type ImportFormat, type RecordError } from '@/lib/import/parse'
+import {
+  IMPORT_FIELDS,
+  REQUIRED_IMPORT_FIELDS,
+  guessMapping,
+  type ColumnMapping,
+  type ImportField
+} from '@/lib/import/mapping'
+
+interface Account {
+  id: string
+  platform: string
+  account_name: string
+}
+
+interface Props {
+  accounts: Account[]
+}
+
+interface ImportResponse {
+  total: number
+  imported: number
+  duplicates: number
+  nearDuplicates: number
+  invalid: number
+  errors: RecordError[]
+  jobId: string | null
+  dryRun: boolean
+}
+
+const FIELD_LABELS: Record<ImportField, string> = {
+  content: 'Text',
+  posted_at: 'Posted at',
+  author: 'Author',
+  author_handle: 'Handle',
+  post_url: 'Post URL',
+  external_id: 'Post ID',
+  parent_external_id: 'Reply to ID',
+  engagement_count: 'Engagement',
+  language: 'Language',
+}
+
+export default function ImportMentions({ accounts }: Props) {
+  const [accountId, setAccountId] = useState(accounts[0]?.id ?? '')
+  const [file, setFile] = useState<File | null>(null)
+  const [format, setFormat] = useState<ImportFormat>('csv')
+  const [columns, setColumns] = useState<string[]>([])
+  const [recordCount, setRecordCount] = useState(0)
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [analyze, setAnalyze] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<ImportResponse | null>(null)
+
+  // Read the file locally to offer its columns for mapping
+  const handleFile = async (selected: File | null) => {
+    setFile(selected)
+    setResult(null)
+    setError(null)
+    if (!selected) return
+
+    const text = await selected.text()
+    const detected = detectFormat(selected.name, text)
+    const parsed = parseImportFile(text, detected)
+
+    setFormat(detected)
+    setColumns(parsed.columns)
+    setRecordCount(parsed.records.length)
+    setMapping(guessMapping(parsed.columns))
+  }
+
+  const submit = async (dryRun: boolean) => {
+    if (!file) return
+
+    setBusy(true)
+    setError(null)
+
+    try {
+      const body = new FormData()
+      body.append('file', file)
+      body.append('socialAccountId', accountId)
+      body.append('format', format)
+      body.append('mapping', JSON.stringify(mapping))
+      body.append('analyze', String(analyze))
+      body.append('dryRun', String(dryRun))
+
+      const response = await fetch('/api/sentiment/import', { method: 'POST', body })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.details ? `${data.error}: ${data.details.join(', ')}` : data.error || 'Import failed')
+        return
+      }
+
+      setResult(data)
+    } catch (err) {
+      console.error('Error importing mentions:', err)
+      setError('Import failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const missingRequired = REQUIRED_IMPORT_FIELDS.filter(field => !mapping[field])
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-2xl p-8 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="block">
+            <span className="text-slate-400 text-sm">Import into account</span>
+            <select
+              value={accountId}
+              onChange={(e) => setAccountId(e.target.value)}
+              className="mt-1 w-full px-3 py-2 rounded-lg text-sm bg-white/5 border border-white/10 text-slate-300 focus:outline-none focus:border-purple-500/50"
+            >
+              {accounts.map((account) => (
+                <option key={account.id} value={account.id}>
+                  {account.account_name} ({account.platform})
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block">
+            <span className="text-slate-400 text-sm">CSV or NDJSON export</span>
+            <div className="mt-1 flex items-center gap-3 px-3 py-2 rounded-lg bg-white/5 border border-white/10 border-dashed">
+              <Upload className="w-4 h-4 text-slate-400" />
+              <input
+                type="file"
+                accept=".csv,.ndjson,.jsonl,.json,text/csv,application/x-ndjson"
+                onChange={(e) => handleFile(e.target.files?.[0] ?? null)}
+                className="text-sm text-slate-300 file:hidden"
+              />
+            </div>
+          </label>
+        </div>
+
+        {file && (
+          <>
+            <p className="flex items-center gap-2 text-slate-400 text-sm">
+              <FileText className="w-4 h-4" />
+              {recordCount} rows, {columns.length} columns ({format.toUpperCase()})
+            </p>
+
+            {/* Column mapping */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {IMPORT_FIELDS.map((field) => (
+                <label key={field} className="flex items-center gap-3">
+                  <span className="w-28 text-white text-sm">
+                    {FIELD_LABELS[field]}
+                    {REQUIRED_IMPORT_FIELDS.includes(field) && <span className="text-red-400"> *</span>}
+                  </span>
+                  <select
+                    value={mapping[field] ?? ''}
+                    onChange={(e) => setMapping({ ...mapping, [field]: e.target.value || undefined })}
+                    className="flex-1 px-3 py-1.5 rounded-lg text-sm bg-white/5 border border-white/10 text-slate-300 focus:outline-none focus:border-purple-500/50"
+                  >
+                    <option value="">Not in file</option>
+                    {columns.map((column) => (
+                      <option key={column} value={column}>{column}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+
+            <label className="flex items-center gap-2 text-slate-300 text-sm">
+              <input
+                type="checkbox"
+                checked={analyze}
+                onChange={(e) => setAnalyze(e.target.checked)}
+                className="accent-purple-500"
+              />
+              Analyze imported mentions so they show up in sentiment history
+            </label>
+
+            {error && <p className="text-red-400 text-sm">{error}</p>}
+
+            <div className="flex gap-3">
+              <button
+                onClick={() => submit(true)}
+                disabled={busy || !accountId || missingRequired.length > 0}
+                className="px-6 py-3 bg-white/5 border border-white/10 rounded-xl hover:bg-white/10 transition-all duration-300 text-white font-medium disabled:opacity-50"
+              >
+                Check rows
+              </button>
+              <button
+                onClick={() => submit(false)}
+                disabled={busy || !accountId || missingRequired.length > 0}
+                className="flex items-center gap-2 px-6 py-3 bg-gradient-to-r from-purple-500 to-cyan-500 rounded-xl text-white font-medium disabled:opacity-50"
+              >
+                {busy && <Loader2 className="w-4 h-4 animate-spin" />}
+                Import
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+
+      {result && (
+        <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-2xl p-8 space-y-4">
+          <h3 className="text-xl font-bold text-white flex items-center gap-2">
+            {result.invalid === 0
+              ? <CheckCircle className="w-5 h-5 text-green-400" />
+              : <AlertCircle className="w-5 h-5 text-yellow-400" />}
+            {result.dryRun ? 'Check complete' : 'Import complete'}
+          </h3>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <p className="text-slate-500">{result.dryRun ? 'Would import' : 'Imported'}</p>
+              <p className="text-white text-2xl font-bold">{result.imported}</p>
+            </div>
+            <div>
+              <p className="text-slate-500">Duplicates</p>
+              <p className="text-white text-2xl font-bold">{result.duplicates}</p>
+            </div>
+            <div>
+              <p className="text-slate-500">Reposts</p>
+              <p className="text-white text-2xl font-bold">{result.nearDuplicates}</p>
+            </div>
+            <div>
+              <p className="text-slate-500">Invalid rows</p>
+              <p className="text-red-400 text-2xl font-bold">{result.invalid}</p>
+            </div>
+          </div>
+          {result.jobId && (
+            <p className="text-slate-400 text-sm">Analysis has been queued; the dashboard fills in as it runs.</p>
+          )}
+          {result.errors.length > 0 && (
+            <div className="max-h-64 overflow-y-auto space-y-1">
+              {result.errors.map((rowError) => (
+                <p key={rowError.line} className="text-sm">
+                  <span className="text-slate-500 font-mono">Line {rowError.line}:</span>{' '}
+                  <span className="text-red-300">{rowError.errors.join('; ')}</span>
+                </p>
+              ))}
+              {result.errors.length < result.invalid && (
+                <p className="text-slate-500 text-sm">…and {result.invalid - result.errors.length} more</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
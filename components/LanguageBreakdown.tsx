@@ -0,0 +1,80 @@
+'use client'
+
+import { Languages } from 'lucide-react'
+import { languageName } from '@/lib/sentiment/types'
+
+interface LanguageSummary {
+  language: string
+  mentions: number
+  positive: number
+  negative: number
+  neutral: number
+  averageScore: number
+}
+
+interface Props {
+  languages: LanguageSummary[]
+}
+
+export default function LanguageBreakdown({ languages }: Props) {
+  const sortedLanguages = [...languages].sort((a, b) => b.mentions - a.mentions)
+  const totalMentions = sortedLanguages.reduce((sum, l) => sum + l.mentions, 0)
+
+  const getSentimentTextColor = (score: number) => {
+    if (score >= 7) return 'text-green-400'
+    if (score >= 5) return 'text-yellow-400'
+    return 'text-red-400'
+  }
+
+  // A single language has nothing to compare against
+  if (sortedLanguages.length < 2) {
+    return null
+  }
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-2xl p-8 hover:bg-white/10 transition-all duration-300">
+      {/* Header */}
+      <div className="flex items-center gap-3 mb-6">
+        <Languages className="w-5 h-5 text-cyan-400" />
+        <h3 className="text-2xl font-bold text-white">
+          Languages
+        </h3>
+      </div>
+
+      <div className="space-y-4">
+        {sortedLanguages.map((entry) => (
+          <div key={entry.language} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <span className="text-white font-medium">{languageName(entry.language)}</span>
+                <span className="text-slate-500 text-xs uppercase">{entry.language}</span>
+              </div>
+              <div className="flex items-center gap-3 text-sm">
+                <span className="text-slate-500">
+                  {entry.mentions} mentions ({((entry.mentions / totalMentions) * 100).toFixed(0)}%)
+                </span>
+                <span className={`font-bold ${getSentimentTextColor(entry.averageScore)}`}>
+                  {entry.averageScore.toFixed(1)}
+                </span>
+              </div>
+            </div>
+            <div className="h-3 bg-white/5 rounded-full overflow-hidden flex">
+              <div
+                className="h-full bg-gradient-to-r from-green-500 to-emerald-600"
+                style={{ width: `${(entry.positive / entry.mentions) * 100}%` }}
+              ></div>
+              <div
+                className="h-full bg-gradient-to-r from-slate-500 to-slate-600"
+                style={{ width: `${(entry.neutral / entry.mentions) * 100}%` }}
+              ></div>
+              <div
+                className="h-full bg-gradient-to-r from-red-500 to-rose-600"
+                style={{ width: `${(entry.negative / entry.mentions) * 100}%` }}
+              ></div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,362 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { ThumbsUp, ThumbsDown, Minus, ExternalLink, Languages, Loader2, RefreshCw, MessageSquare, CornerDownRight, X } from 'lucide-react'
+import { languageName } from '@/lib/sentiment/types'
+import type { MentionDetail, ThreadPost } from '@/lib/mentions/thread'
+
+interface Props {
+  mentionId: string
+  onClose: () => void
+  // Called after a re-analysis so the feed can refresh its copy of the mention
+  onAnalyzed?: (mentionId: string) => void
+}
+
+const getSentimentColor = (label: string | null) => {
+  switch (label) {
+    case 'positive': return 'text-green-400 bg-green-500/10'
+    case 'negative': return 'text-red-400 bg-red-500/10'
+    case 'neutral': return 'text-slate-400 bg-slate-500/10'
+    default: return 'text-slate-500 bg-slate-500/10'
+  }
+}
+
+const getSentimentIcon = (label: string | null) => {
+  switch (label) {
+    case 'positive': return <ThumbsUp className="w-4 h-4" />
+    case 'negative': return <ThumbsDown className="w-4 h-4" />
+    case 'neutral': return <Minus className="w-4 h-4" />
+    default: return null
+  }
+}
+
+const formatDate = (date: string) => new Date(date).toLocaleString()
+
+function ThreadPostCard({ post }: { post: ThreadPost }) {
+  return (
+    <div className="p-3 rounded-lg bg-white/5 border border-white/5">
+      <div className="flex items-center justify-between gap-2 mb-1">
+        <p className="text-white text-sm font-medium truncate">
+          {post.author}
+          {post.author_handle && <span className="text-slate-500 font-normal"> {post.author_handle}</span>}
+        </p>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          {post.sentiment_label && (
+            <span className={`px-2 py-0.5 rounded text-xs font-medium capitalize ${getSentimentColor(post.sentiment_label)}`}>
+              {post.sentiment_label}
+            </span>
+          )}
+          {post.post_url && (
+            <a href={post.post_url} target="_blank" rel="noopener noreferrer" className="text-slate-400 hover:text-white transition-colors">
+              <ExternalLink className="w-3.5 h-3.5" />
+            </a>
+          )}
+        </div>
+      </div>
+      <p className="text-slate-400 text-sm leading-relaxed">{post.content}</p>
+      <p className="text-slate-600 text-xs mt-1">{formatDate(post.posted_at)}</p>
+    </div>
+  )
+}
+
+// Side panel with a mention's conversation, its full analysis and every
+// earlier analysis, and a way to re-run it with the conversation as context
+export default function MentionDrawer({ mentionId, onClose, onAnalyzed }: Props) {
+  const [detail, setDetail] = useState<MentionDetail | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [useThread, setUseThread] = useState(true)
+  const [isAnalyzing, setIsAnalyzing] = useState(false)
+
+  const load = useCallback(async () => {
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/sentiment/mentions/${mentionId}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to load mention')
+        return
+      }
+
+      setDetail(data)
+    } catch (err) {
+      console.error('Error loading mention:', err)
+      setError('Failed to load mention')
+    }
+  }, [mentionId])
+
+  useEffect(() => {
+    setDetail(null)
+    load()
+  }, [load])
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose()
+    }
+    window.addEventListener('keydown', handleKey)
+    return () => window.removeEventListener('keydown', handleKey)
+  }, [onClose])
+
+  const reanalyze = async () => {
+    setIsAnalyzing(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/sentiment/mentions/${mentionId}/analyze`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ threadContext: hasThread && useThread })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.details ? `${data.error}: ${data.details}` : data.error || 'Failed to analyze mention')
+        return
+      }
+
+      setDetail(data)
+      onAnalyzed?.(mentionId)
+    } catch (err) {
+      console.error('Error re-analyzing mention:', err)
+      setError('Failed to analyze mention')
+    } finally {
+      setIsAnalyzing(false)
+    }
+  }
+
+  const mention = detail?.mention
+  const thread = detail?.thread
+  const review = mention?.sentiment_reviews ?? null
+  // Only stored posts can go into the prompt
+  const hasThread = !!thread && (thread.parent !== null || thread.siblings.length > 0)
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/80 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+      <div
+        className="bg-slate-900 border-l border-white/10 max-w-xl w-full h-full overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="sticky top-0 z-10 bg-slate-900 border-b border-white/10 p-6 flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <h2 className="text-xl font-bold text-white truncate">{mention ? mention.author : 'Mention'}</h2>
+            {mention && (
+              <p className="text-slate-400 text-sm">
+                {mention.author_handle && `${mention.author_handle} · `}
+                {mention.social_accounts.account_name} ({mention.platform}) · {formatDate(mention.posted_at)}
+              </p>
+            )}
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {!detail ? (
+          <div className="flex justify-center py-16">
+            {error ? <p className="text-red-400 text-sm">{error}</p> : <Loader2 className="w-6 h-6 text-slate-500 animate-spin" />}
+          </div>
+        ) : mention && thread && (
+          <div className="p-6 space-y-8">
+            {/* Conversation */}
+            <section className="space-y-3">
+              <h3 className="flex items-center gap-2 text-white font-semibold">
+                <MessageSquare className="w-4 h-4 text-purple-400" />
+                Conversation
+              </h3>
+
+              {thread.parent ? (
+                <ThreadPostCard post={thread.parent} />
+              ) : mention.parent_external_id && (
+                <p className="text-slate-500 text-xs">Replies to a post that isn&apos;t among your mentions</p>
+              )}
+
+              <div className={mention.parent_external_id ? 'flex gap-2' : ''}>
+                {mention.parent_external_id && <CornerDownRight className="w-4 h-4 text-slate-600 flex-shrink-0 mt-3" />}
+                <div className="flex-1 p-4 rounded-lg bg-purple-500/10 border border-purple-500/20">
+                  <p className="text-slate-200 text-sm leading-relaxed">{mention.content}</p>
+                  {mention.translated_content && (
+                    <div className="mt-3 pt-3 border-t border-white/10">
+                      <p className="flex items-center gap-1 text-slate-500 text-xs mb-1">
+                        <Languages className="w-3 h-3" />
+                        Translated from {mention.language ? languageName(mention.language) : 'unknown language'}
+                      </p>
+                      <p className="text-slate-400 text-sm leading-relaxed italic">{mention.translated_content}</p>
+                    </div>
+                  )}
+                  {mention.post_url && (
+                    <a
+                      href={mention.post_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 mt-2 text-slate-400 hover:text-white text-xs transition-colors"
+                    >
+                      <ExternalLink className="w-3 h-3" />
+                      View post
+                    </a>
+                  )}
+                </div>
+              </div>
+
+              {thread.siblings.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-slate-400 text-xs uppercase tracking-wide">Other replies to the same post</p>
+                  {thread.siblings.map((post) => <ThreadPostCard key={post.id} post={post} />)}
+                </div>
+              )}
+
+              {thread.replies.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-slate-400 text-xs uppercase tracking-wide">Replies to this mention</p>
+                  {thread.replies.map((post) => <ThreadPostCard key={post.id} post={post} />)}
+                </div>
+              )}
+
+              {!mention.parent_external_id && thread.replies.length === 0 && (
+                <p className="text-slate-500 text-xs">Not part of a stored conversation</p>
+              )}
+            </section>
+
+            {/* Latest analysis */}
+            <section className="space-y-3">
+              <h3 className="text-white font-semibold">Analysis</h3>
+
+              {mention.sentiment_label ? (
+                <>
+                  <div className="flex flex-wrap items-center gap-3">
+                    <div className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg ${getSentimentColor(mention.sentiment_label)}`}>
+                      {getSentimentIcon(mention.sentiment_label)}
+                      <span className="text-sm font-medium capitalize">{mention.sentiment_label}</span>
+                    </div>
+                    <span className="text-slate-400 text-sm">Score: {mention.sentiment_score?.toFixed(1)}</span>
+                    {mention.sentiment_confidence !== null && (
+                      <span className={`text-xs ${mention.needs_review ? 'text-yellow-500' : 'text-slate-500'}`}>
+                        {Math.round(mention.sentiment_confidence * 100)}% confident
+                      </span>
+                    )}
+                    {mention.is_sarcastic && (
+                      <span className="px-2 py-0.5 rounded text-xs font-medium text-yellow-400 bg-yellow-500/10">Sarcasm</span>
+                    )}
+                  </div>
+
+                  {mention.sentiment_reasoning && (
+                    <p className="text-slate-300 text-sm leading-relaxed whitespace-pre-line">{mention.sentiment_reasoning}</p>
+                  )}
+
+                  {(mention.mention_aspects.length > 0 || mention.emotions.length > 0) && (
+                    <div className="flex flex-wrap gap-2">
+                      {mention.mention_aspects.map((a) => (
+                        <span key={a.aspect} className={`px-2 py-0.5 rounded text-xs font-medium capitalize ${getSentimentColor(a.sentiment_label)}`}>
+                          {a.aspect} {a.sentiment_score.toFixed(1)}
+                        </span>
+                      ))}
+                      {mention.emotions.map((emotion) => (
+                        <span key={emotion} className="px-2 py-0.5 rounded text-xs font-medium capitalize text-purple-300 bg-purple-500/10">
+                          {emotion}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+
+                  <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-xs">
+                    <dt className="text-slate-500">Model</dt>
+                    <dd className="text-slate-300 font-mono break-all">{mention.sentiment_model || 'Unknown'}</dd>
+                    <dt className="text-slate-500">Prompt version</dt>
+                    <dd className="text-slate-300 font-mono">{mention.sentiment_prompt_version || 'Unknown'}</dd>
+                    <dt className="text-slate-500">Analyzed</dt>
+                    <dd className="text-slate-300">{mention.sentiment_analyzed_at ? formatDate(mention.sentiment_analyzed_at) : 'Unknown'}</dd>
+                    <dt className="text-slate-500">Conversation context</dt>
+                    <dd className="text-slate-300">{mention.sentiment_thread_context ? 'Included' : 'Not included'}</dd>
+                    <dt className="text-slate-500">Language</dt>
+                    <dd className="text-slate-300">{mention.language ? languageName(mention.language) : 'Unknown'}</dd>
+                    <dt className="text-slate-500">Review</dt>
+                    <dd className="text-slate-300">
+                      {review
+                        ? review.action === 'override'
+                          ? `Overridden to ${review.sentiment_label} (${review.sentiment_score.toFixed(1)})`
+                          : 'Confirmed'
+                        : mention.needs_review ? 'Waiting for review' : 'Not needed'}
+                    </dd>
+                  </dl>
+                  {review?.note && <p className="text-slate-400 text-xs italic">&ldquo;{review.note}&rdquo;</p>}
+                  {review?.latest_model_label && (
+                    <p className="text-yellow-500 text-xs">
+                      Re-analysis now says {review.latest_model_label} ({Number(review.latest_model_score).toFixed(1)}); the review still counts until it is reviewed again
+                    </p>
+                  )}
+                </>
+              ) : (
+                <p className="text-slate-500 text-sm">Not analyzed yet</p>
+              )}
+
+              {/* Re-analysis */}
+              <div className="flex flex-wrap items-center gap-4 pt-2">
+                <button
+                  onClick={reanalyze}
+                  disabled={isAnalyzing}
+                  className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-purple-500 to-cyan-500 rounded-lg text-white text-sm font-medium disabled:opacity-50"
+                >
+                  {isAnalyzing ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                  Re-analyze
+                </button>
+                <label className={`flex items-center gap-2 text-sm ${hasThread ? 'text-slate-300' : 'text-slate-600'}`}>
+                  <input
+                    type="checkbox"
+                    checked={hasThread && useThread}
+                    disabled={!hasThread}
+                    onChange={(e) => setUseThread(e.target.checked)}
+                    className="accent-purple-500"
+                  />
+                  Include conversation context
+                </label>
+              </div>
+              {error && <p className="text-red-400 text-sm">{error}</p>}
+            </section>
+
+            {/* Every analysis, newest first; the label is highlighted where it changed */}
+            {detail.history.length > 0 && (
+              <section className="space-y-3">
+                <h3 className="text-white font-semibold">History</h3>
+                <ol className="space-y-2">
+                  {detail.history.map((entry, i) => {
+                    const previous = detail.history[i - 1]
+                    const changed = previous !== undefined && previous.sentiment_label !== entry.sentiment_label
+                    return { entry, previous, changed }
+                  }).reverse().map(({ entry, previous, changed }) => (
+                    <li key={entry.id} className="p-3 rounded-lg bg-white/5 border border-white/5 space-y-1">
+                      <div className="flex flex-wrap items-center gap-2 text-sm">
+                        {changed && (
+                          <>
+                            <span className={`px-2 py-0.5 rounded text-xs font-medium capitalize ${getSentimentColor(previous.sentiment_label)}`}>
+                              {previous.sentiment_label}
+                            </span>
+                            <span className="text-slate-500">→</span>
+                          </>
+                        )}
+                        <span className={`px-2 py-0.5 rounded text-xs font-medium capitalize ${getSentimentColor(entry.sentiment_label)}`}>
+                          {entry.sentiment_label}
+                        </span>
+                        <span className="text-slate-400">{entry.sentiment_score.toFixed(1)}</span>
+                        <span className="text-slate-600 text-xs ml-auto">{formatDate(entry.analyzed_at)}</span>
+                      </div>
+                      <div className="flex flex-wrap gap-x-4 text-slate-600 text-xs">
+                        {entry.sentiment_model && <span>Model: {entry.sentiment_model}</span>}
+                        {entry.sentiment_prompt_version && <span>Prompt: {entry.sentiment_prompt_version}</span>}
+                        {entry.thread_context && <span>With conversation context</span>}
+                      </div>
+                      {entry.sentiment_reasoning && (
+                        <p className="text-slate-500 text-xs leading-relaxed">{entry.sentiment_reasoning}</p>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              </section>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,48 @@
+'use client'
+
+import { useState } from 'react'
+import { Loader2, RefreshCw } from 'lucide-react'
+
+interface ReconnectButtonProps {
+  platform: string
+}
+
+// Restarts the OAuth flow for an account whose access expired; the callback
+// updates the existing account instead of adding a new one
+export default function ReconnectButton({ platform }: ReconnectButtonProps) {
+  const [connecting, setConnecting] = useState(false)
+
+  const handleReconnect = async () => {
+    setConnecting(true)
+
+    try {
+      const response = await fetch('/api/auth/social/connect', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ platform })
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to initiate connection')
+      }
+
+      const { authUrl } = await response.json()
+      window.location.href = authUrl
+    } catch (error) {
+      console.error(`Error reconnecting ${platform}:`, error)
+      alert('Failed to start reconnecting. Please try again.')
+      setConnecting(false)
+    }
+  }
+
+  return (
+    <button
+      onClick={handleReconnect}
+      disabled={connecting}
+      className="flex items-center gap-1.5 px-3 py-1.5 bg-orange-500/20 hover:bg-orange-500/30 border border-orange-500/30 rounded-lg text-orange-300 text-xs font-medium transition-colors disabled:opacity-50"
+    >
+      {connecting ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+      Reconnect
+    </button>
+  )
+}
@@ -0,0 +1,222 @@
+'use client'
+
+import { useState } from 'react'
+import { Check, ExternalLink, Languages, ThumbsUp, ThumbsDown, Minus } from 'lucide-react'
+import { languageName } from '@/lib/sentiment/types'
+
+type Label = 'positive' | 'negative' | 'neutral'
+
+interface ReviewMention {
+  id: string
+  content: string
+  translated_content: string | null
+  language: string | null
+  author: string
+  author_handle: string | null
+  post_url: string | null
+  posted_at: string
+  platform: string
+  sentiment_score: number | null
+  sentiment_label: Label | null
+  sentiment_reasoning: string | null
+  sentiment_confidence: number | null
+  is_sarcastic: boolean
+}
+
+interface Props {
+  mentions: ReviewMention[]
+  total: number
+  threshold: number
+}
+
+const LABELS: Label[] = ['positive', 'neutral', 'negative']
+
+export default function ReviewQueue({ mentions, total, threshold }: Props) {
+  const [reviewedIds, setReviewedIds] = useState<Set<string>>(new Set())
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  const [error, setError] = useState<string | null>(null)
+
+  const remaining = mentions.filter(m => !reviewedIds.has(m.id))
+
+  const getSentimentColor = (label: string | null) => {
+    switch (label) {
+      case 'positive': return 'text-green-400 bg-green-500/10'
+      case 'negative': return 'text-red-400 bg-red-500/10'
+      case 'neutral': return 'text-slate-400 bg-slate-500/10'
+      default: return 'text-slate-500 bg-slate-500/10'
+    }
+  }
+
+  const getSentimentIcon = (label: string | null) => {
+    switch (label) {
+      case 'positive': return <ThumbsUp className="w-4 h-4" />
+      case 'negative': return <ThumbsDown className="w-4 h-4" />
+      case 'neutral': return <Minus className="w-4 h-4" />
+      default: return null
+    }
+  }
+
+  const handleReview = async (mention: ReviewMention, label: Label | null) => {
+    setPendingId(mention.id)
+    setError(null)
+
+    const note = notes[mention.id]?.trim() || undefined
+    const body = label === null || label === mention.sentiment_label
+      ? { action: 'confirm', note }
+      : { action: 'override', label, note }
+
+    try {
+      const response = await fetch(`/api/sentiment/review/${mention.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        setError(data.error || 'Failed to save review')
+        return
+      }
+
+      setReviewedIds(prev => new Set(prev).add(mention.id))
+    } catch (err) {
+      console.error('Error saving review:', err)
+      setError('Failed to save review')
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-2xl p-8">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-2xl font-bold text-white">
+          Needs Review ({Math.max(total - reviewedIds.size, 0)})
+        </h3>
+        <p className="text-slate-500 text-sm">
+          Sarcastic or below {Math.round(threshold * 100)}% confidence
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-4 px-4 py-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {remaining.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-slate-400 text-lg">Nothing to review</p>
+            <p className="text-slate-500 text-sm mt-2">
+              Uncertain and sarcastic mentions will show up here after analysis
+            </p>
+          </div>
+        ) : (
+          remaining.map((mention) => (
+            <div
+              key={mention.id}
+              className="bg-white/5 border border-white/10 rounded-xl p-5"
+            >
+              {/* Header */}
+              <div className="flex items-start justify-between mb-3">
+                <div>
+                  <p className="text-white font-medium">{mention.author}</p>
+                  <p className="text-slate-500 text-xs capitalize">
+                    {mention.platform} · {new Date(mention.posted_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {mention.is_sarcastic && (
+                    <span className="px-2 py-0.5 rounded text-xs font-medium text-yellow-400 bg-yellow-500/10">
+                      Sarcasm
+                    </span>
+                  )}
+                  {mention.sentiment_confidence !== null && (
+                    <span className="text-slate-500 text-xs">
+                      {Math.round(mention.sentiment_confidence * 100)}% confident
+                    </span>
+                  )}
+                  {mention.post_url && (
+                    <a
+                      href={mention.post_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-slate-400 hover:text-white transition-colors"
+                    >
+                      <ExternalLink className="w-4 h-4" />
+                    </a>
+                  )}
+                </div>
+              </div>
+
+              {/* Content */}
+              <p className="text-slate-300 text-sm mb-2 leading-relaxed">
+                {mention.content}
+              </p>
+              {mention.translated_content && (
+                <p className="flex items-start gap-1 text-slate-400 text-sm mb-2 leading-relaxed italic">
+                  <Languages className="w-3 h-3 mt-1 flex-shrink-0" />
+                  {mention.translated_content}
+                  {mention.language && (
+                    <span className="not-italic text-slate-500 text-xs ml-1">({languageName(mention.language)})</span>
+                  )}
+                </p>
+              )}
+
+              {/* Model verdict */}
+              <div className="flex items-center gap-3 mb-2">
+                <div className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg ${getSentimentColor(mention.sentiment_label)}`}>
+                  {getSentimentIcon(mention.sentiment_label)}
+                  <span className="text-sm font-medium capitalize">{mention.sentiment_label}</span>
+                </div>
+                {mention.sentiment_score !== null && (
+                  <span className="text-slate-400 text-sm">Score: {mention.sentiment_score.toFixed(1)}</span>
+                )}
+              </div>
+              {mention.sentiment_reasoning && (
+                <p className="text-slate-500 text-xs mb-4 leading-relaxed">
+                  {mention.sentiment_reasoning}
+                </p>
+              )}
+
+              {/* Actions */}
+              <div className="flex flex-wrap items-center gap-2">
+                <button
+                  onClick={() => handleReview(mention, null)}
+                  disabled={pendingId === mention.id}
+                  className="flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm font-medium bg-gradient-to-r from-purple-500 to-cyan-500 text-white hover:from-purple-600 hover:to-cyan-600 transition-all duration-300 disabled:opacity-50"
+                >
+                  <Check className="w-4 h-4" />
+                  Confirm
+                </button>
+                <span className="text-slate-500 text-xs px-1">or set to</span>
+                {LABELS.filter(label => label !== mention.sentiment_label).map(label => (
+                  <button
+                    key={label}
+                    onClick={() => handleReview(mention, label)}
+                    disabled={pendingId === mention.id}
+                    className={`flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm font-medium capitalize transition-opacity hover:opacity-80 disabled:opacity-50 ${getSentimentColor(label)}`}
+                  >
+                    {getSentimentIcon(label)}
+                    {label}
+                  </button>
+                ))}
+                <input
+                  type="text"
+                  value={notes[mention.id] || ''}
+                  onChange={(e) => setNotes({ ...notes, [mention.id]: e.target.value })}
+                  placeholder="Note (optional)"
+                  maxLength={500}
+                  className="flex-1 min-w-[160px] px-3 py-2 rounded-lg text-sm bg-white/5 border border-white/10 text-slate-300 placeholder-slate-600 focus:outline-none focus:border-purple-500/50"
+                />
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
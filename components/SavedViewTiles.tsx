@@ -0,0 +1,78 @@
+'use client'
+
+import Link from 'next/link'
+import { Bookmark } from 'lucide-react'
+
+interface ViewTile {
+  view: {
+    id: string
+    name: string
+    filters: Record<string, string>
+  }
+  facets: {
+    total: number
+    averageScore: number | null
+    labels: Partial<Record<'positive' | 'negative' | 'neutral' | 'unanalyzed', number>>
+  } | null
+}
+
+interface Props {
+  tiles: ViewTile[]
+}
+
+export default function SavedViewTiles({ tiles }: Props) {
+  const getSentimentTextColor = (score: number) => {
+    if (score >= 7) return 'text-green-400'
+    if (score >= 5) return 'text-yellow-400'
+    return 'text-red-400'
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+      {tiles.map(({ view, facets }) => {
+        const positive = facets?.labels.positive || 0
+        const negative = facets?.labels.negative || 0
+        const neutral = facets?.labels.neutral || 0
+        const analyzed = positive + negative + neutral
+
+        return (
+          // Opens the feed with the view's filters applied
+          <Link
+            key={view.id}
+            href={`/sentiment?${new URLSearchParams(view.filters)}#mentions`}
+            className="block bg-white/5 backdrop-blur-sm border border-white/10 rounded-2xl p-6 hover:bg-white/10 transition-all duration-300"
+          >
+            <div className="flex items-center justify-between mb-3">
+              <span className="text-slate-400 text-sm font-medium truncate">{view.name}</span>
+              <Bookmark className="w-5 h-5 text-purple-400 flex-shrink-0" />
+            </div>
+
+            {facets ? (
+              <>
+                <div className="flex items-baseline gap-3 mb-3">
+                  <p className="text-4xl font-bold text-white">{facets.total.toLocaleString()}</p>
+                  {facets.averageScore !== null && (
+                    <span className={`text-sm font-semibold ${getSentimentTextColor(facets.averageScore)}`}>
+                      {facets.averageScore.toFixed(1)} avg
+                    </span>
+                  )}
+                </div>
+                {analyzed > 0 ? (
+                  <div className="h-2 bg-white/5 rounded-full overflow-hidden flex">
+                    <div className="bg-green-500" style={{ width: `${(positive / analyzed) * 100}%` }}></div>
+                    <div className="bg-slate-500" style={{ width: `${(neutral / analyzed) * 100}%` }}></div>
+                    <div className="bg-red-500" style={{ width: `${(negative / analyzed) * 100}%` }}></div>
+                  </div>
+                ) : (
+                  <p className="text-xs text-slate-500">Nothing analyzed yet</p>
+                )}
+              </>
+            ) : (
+              <p className="text-xs text-slate-500">This view&apos;s filters are no longer valid</p>
+            )}
+          </Link>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,111 @@
+'use client'
+
+import { useState } from 'react'
+import { Tags } from 'lucide-react'
+
+interface TopicSummary {
+  aspect: string
+  mentions: number
+  positive: number
+  negative: number
+  neutral: number
+  averageScore: number
+}
+
+interface Props {
+  topics: TopicSummary[]
+}
+
+const MAX_TOPICS = 8
+
+export default function TopicBreakdown({ topics }: Props) {
+  const [sortMode, setSortMode] = useState<'volume' | 'negative'>('volume')
+
+  const sortedTopics = [...topics]
+    .sort((a, b) => sortMode === 'volume'
+      ? b.mentions - a.mentions
+      : b.negative / b.mentions - a.negative / a.mentions)
+    .slice(0, MAX_TOPICS)
+
+  const getSentimentTextColor = (score: number) => {
+    if (score >= 7) return 'text-green-400'
+    if (score >= 5) return 'text-yellow-400'
+    return 'text-red-400'
+  }
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-2xl p-8 hover:bg-white/10 transition-all duration-300">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <Tags className="w-5 h-5 text-purple-400" />
+          <h3 className="text-2xl font-bold text-white">
+            Topic Breakdown
+          </h3>
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => setSortMode('volume')}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
+              sortMode === 'volume'
+                ? 'bg-white/10 text-white'
+                : 'text-slate-400 hover:text-white'
+            }`}
+          >
+            Most discussed
+          </button>
+          <button
+            onClick={() => setSortMode('negative')}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
+              sortMode === 'negative'
+                ? 'bg-white/10 text-white'
+                : 'text-slate-400 hover:text-white'
+            }`}
+          >
+            Most negative
+          </button>
+        </div>
+      </div>
+
+      {sortedTopics.length === 0 ? (
+        <div className="text-center py-8">
+          <p className="text-slate-400">No topics extracted yet</p>
+          <p className="text-slate-500 text-sm mt-2">
+            Topics appear once mentions have been analyzed
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {sortedTopics.map((topic) => (
+            <div key={topic.aspect} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-white font-medium capitalize">{topic.aspect}</span>
+                <div className="flex items-center gap-3 text-sm">
+                  <span className="text-slate-500">{topic.mentions} mentions</span>
+                  <span className={`font-bold ${getSentimentTextColor(topic.averageScore)}`}>
+                    {topic.averageScore.toFixed(1)}
+                  </span>
+                </div>
+              </div>
+              <div className="h-3 bg-white/5 rounded-full overflow-hidden flex">
+                <div
+                  className="h-full bg-gradient-to-r from-green-500 to-emerald-600"
+                  style={{ width: `${(topic.positive / topic.mentions) * 100}%` }}
+                ></div>
+                <div
+                  className="h-full bg-gradient-to-r from-slate-500 to-slate-600"
+                  style={{ width: `${(topic.neutral / topic.mentions) * 100}%` }}
+                ></div>
+                <div
+                  className="h-full bg-gradient-to-r from-red-500 to-rose-600"
+                  style={{ width: `${(topic.negative / topic.mentions) * 100}%` }}
+                ></div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,200 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Search, Plus, Trash2, Pause, Play, Loader2, AlertCircle } from 'lucide-react'
+
+type QueryKind = 'brand' | 'hashtag' | 'competitor' | 'keyword'
+
+interface TrackedQuery {
+  id: string
+  name: string
+  kind: QueryKind
+  expression: string
+  is_active: boolean
+  last_search_error: string | null
+}
+
+interface Props {
+  queries: TrackedQuery[]
+}
+
+const KIND_STYLES: Record<QueryKind, string> = {
+  brand: 'bg-purple-500/20 text-purple-300',
+  hashtag: 'bg-cyan-500/20 text-cyan-300',
+  competitor: 'bg-orange-500/20 text-orange-300',
+  keyword: 'bg-slate-500/20 text-slate-300',
+}
+
+const EXPRESSION_HINT = 'e.g. (acme OR "acme corp" OR #acme) -jobs'
+
+export default function TrackedQueries({ queries }: Props) {
+  const router = useRouter()
+  const [showForm, setShowForm] = useState(false)
+  const [name, setName] = useState('')
+  const [kind, setKind] = useState<QueryKind>('brand')
+  const [expression, setExpression] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/sentiment/queries', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, kind, expression })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.details?.join(', ') || data.error || 'Failed to save query')
+        return
+      }
+
+      setName('')
+      setExpression('')
+      setShowForm(false)
+      router.refresh()
+    } catch (err) {
+      console.error('Error creating tracked query:', err)
+      setError('Failed to save query')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggle = async (query: TrackedQuery) => {
+    setBusyId(query.id)
+    try {
+      const response = await fetch(`/api/sentiment/queries/${query.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive: !query.is_active })
+      })
+      if (response.ok) router.refresh()
+    } catch (err) {
+      console.error('Error updating tracked query:', err)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDelete = async (query: TrackedQuery) => {
+    if (!confirm(`Stop tracking "${query.name}"? Mentions it found are kept.`)) return
+
+    setBusyId(query.id)
+    try {
+      const response = await fetch(`/api/sentiment/queries/${query.id}`, { method: 'DELETE' })
+      if (response.ok) router.refresh()
+    } catch (err) {
+      console.error('Error deleting tracked query:', err)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-2xl p-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-bold text-white flex items-center gap-2">
+          <Search className="w-5 h-5 text-cyan-400" />
+          Tracked Queries
+        </h3>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-white/5 transition-colors"
+          title="Track a new query"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="space-y-3 mb-6 p-4 bg-white/5 rounded-xl border border-white/5">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name"
+            required
+            className="w-full px-3 py-2 rounded-lg text-sm bg-white/5 border border-white/10 text-white placeholder:text-slate-500 focus:outline-none focus:border-purple-500/50"
+          />
+          <select
+            value={kind}
+            onChange={(e) => setKind(e.target.value as QueryKind)}
+            className="w-full px-3 py-2 rounded-lg text-sm bg-white/5 border border-white/10 text-slate-300 focus:outline-none focus:border-purple-500/50"
+          >
+            <option value="brand">Brand</option>
+            <option value="hashtag">Hashtag</option>
+            <option value="competitor">Competitor</option>
+            <option value="keyword">Keyword</option>
+          </select>
+          <input
+            value={expression}
+            onChange={(e) => setExpression(e.target.value)}
+            placeholder={EXPRESSION_HINT}
+            required
+            className="w-full px-3 py-2 rounded-lg text-sm font-mono bg-white/5 border border-white/10 text-white placeholder:text-slate-500 focus:outline-none focus:border-purple-500/50"
+          />
+          {error && <p className="text-red-400 text-xs">{error}</p>}
+          <button
+            type="submit"
+            disabled={saving}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-gradient-to-r from-purple-500 to-cyan-500 rounded-lg text-white text-sm font-medium disabled:opacity-50"
+          >
+            {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+            Track
+          </button>
+        </form>
+      )}
+
+      {queries.length === 0 ? (
+        <p className="text-slate-500 text-sm">
+          Track brand names, hashtags or competitors to collect mentions beyond your own accounts.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {queries.map((query) => (
+            <div
+              key={query.id}
+              className={`p-3 bg-white/5 rounded-xl border border-white/5 ${query.is_active ? '' : 'opacity-50'}`}
+            >
+              <div className="flex items-center gap-2">
+                <span className="text-white font-medium text-sm flex-1 truncate">{query.name}</span>
+                <span className={`px-2 py-0.5 text-xs font-medium rounded capitalize ${KIND_STYLES[query.kind]}`}>
+                  {query.kind}
+                </span>
+                {query.last_search_error && (
+                  <span title={query.last_search_error}>
+                    <AlertCircle className="w-4 h-4 text-red-400" />
+                  </span>
+                )}
+                <button
+                  onClick={() => handleToggle(query)}
+                  disabled={busyId === query.id}
+                  className="text-slate-400 hover:text-white transition-colors"
+                  title={query.is_active ? 'Pause' : 'Resume'}
+                >
+                  {query.is_active ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                </button>
+                <button
+                  onClick={() => handleDelete(query)}
+                  disabled={busyId === query.id}
+                  className="text-slate-400 hover:text-red-400 transition-colors"
+                  title="Stop tracking"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              <p className="text-slate-500 text-xs font-mono mt-1 truncate">{query.expression}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { formatPageCursor, parsePageCursor } from './cursor'
+
+describe('parsePageCursor', () => {
+  it('reads a plain timestamp as both bounds', () => {
+    expect(parsePageCursor('2024-05-01T10:00:00Z')).toEqual({
+      newest: '2024-05-01T10:00:00Z',
+      since: '2024-05-01T10:00:00Z',
+      resume: null,
+    })
+  })
+
+  it('starts over without a cursor', () => {
+    expect(parsePageCursor(null)).toEqual({ newest: null, since: null, resume: null })
+  })
+
+  it('round-trips a resume cursor', () => {
+    const cursor = { newest: '2024-05-02T08:00:00Z', since: '2024-05-01T10:00:00Z', resume: 'QVFIUm' }
+
+    expect(parsePageCursor(formatPageCursor(cursor))).toEqual(cursor)
+  })
+
+  it('starts over when a resume cursor is unreadable', () => {
+    expect(parsePageCursor('resume:{not json')).toEqual({ newest: null, since: null, resume: null })
+    expect(parsePageCursor('resume:{"since":"2024-05-01T10:00:00Z"}')).toEqual({ newest: null, since: null, resume: null })
+  })
+})
+
+describe('formatPageCursor', () => {
+  it('goes back to the newest timestamp once nothing is left to resume', () => {
+    expect(formatPageCursor({ newest: '2024-05-02T08:00:00Z', since: '2024-05-01T10:00:00Z', resume: null })).toBe(
+      '2024-05-02T08:00:00Z'
+    )
+  })
+
+  it("doesn't resume a first fetch", () => {
+    expect(formatPageCursor({ newest: '2024-05-02T08:00:00Z', since: null, resume: 'QVFIUm' })).toBe('2024-05-02T08:00:00Z')
+  })
+})
@@ -0,0 +1,37 @@
+// Sync cursors are normally the newest timestamp seen (ISO 8601). Platforms
+// page newest first, so a fetch cut short by MAX_PAGES can't be continued
+// from a timestamp: the cursor then also keeps the bound that fetch was paging
+// down to and where to resume, in a form each connector picks. Once the gap is
+// closed the cursor goes back to a plain timestamp.
+export interface PageCursor {
+  // Newest item seen; the next complete fetch stops here
+  newest: string | null
+  // Where the current fetch stops
+  since: string | null
+  // Connector-specific position of the next unread page, null when there is none
+  resume: string | null
+}
+
+const RESUME_PREFIX = 'resume:'
+
+export function parsePageCursor(cursor: string | null): PageCursor {
+  if (cursor?.startsWith(RESUME_PREFIX)) {
+    try {
+      const { newest, since, resume } = JSON.parse(cursor.slice(RESUME_PREFIX.length))
+      if (typeof resume === 'string' && typeof since === 'string') {
+        return { newest: typeof newest === 'string' ? newest : since, since, resume }
+      }
+    } catch {
+      // Unreadable: fall through and start over like a first fetch
+    }
+    return { newest: null, since: null, resume: null }
+  }
+
+  return { newest: cursor, since: cursor, resume: null }
+}
+
+// A first fetch (nothing to page down to) only ever takes the most recent
+// pages, so only fetches with a lower bound are resumed
+export function formatPageCursor({ newest, since, resume }: PageCursor): string | null {
+  return resume && since ? RESUME_PREFIX + JSON.stringify({ newest, since, resume }) : newest
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest'
+import { FakeSupabase } from '@/test/supabase'
+import { contentFingerprint, mergeDuplicateMentions, planNearDuplicates } from './dedupe'
+
+describe('contentFingerprint', () => {
+  const text = 'The new delivery app is so much faster than before'
+
+  it('survives the usual edits made when reposting', () => {
+    const fingerprint = contentFingerprint(text)
+
+    expect(fingerprint).toMatch(/^[0-9a-f]{16}$/)
+    expect(contentFingerprint(`RT: @shop ${text.toUpperCase()}!!! https://t.co/abc123`)).toBe(fingerprint)
+    expect(contentFingerprint(`  the new #delivery app is so much faster than before 🚀`)).toBe(fingerprint)
+  })
+
+  it('tells different texts apart', () => {
+    expect(contentFingerprint('The new delivery app is so much slower than before')).not.toBe(contentFingerprint(text))
+  })
+
+  it('keeps non-Latin letters', () => {
+    expect(contentFingerprint('Доставка сегодня была очень быстрой')).not.toBe(
+      contentFingerprint('Доставка сегодня была очень медленной')
+    )
+  })
+
+  it('skips texts too short to tell apart', () => {
+    expect(contentFingerprint('Love it!!! https://t.co/abc123 @shop')).toBeNull()
+  })
+})
+
+describe('planNearDuplicates', () => {
+  const mention = (id: string, postedAt: string, duplicateOf: string | null = null, hash: string | null = 'h1') => ({
+    id,
+    content_hash: hash,
+    posted_at: postedAt,
+    duplicate_of: duplicateOf,
+  })
+
+  it('points later copies at the earliest mention', () => {
+    expect(planNearDuplicates([
+      mention('b', '2024-05-02T10:00:00Z'),
+      mention('a', '2024-05-01T10:00:00Z'),
+      mention('c', '2024-05-03T10:00:00Z'),
+    ])).toEqual([
+      { id: 'b', duplicate_of: 'a' },
+      { id: 'c', duplicate_of: 'a' },
+    ])
+  })
+
+  it('re-points copies when an older original turns up', () => {
+    expect(planNearDuplicates([
+      mention('a', '2024-05-02T10:00:00Z'),
+      mention('b', '2024-05-03T10:00:00Z', 'a'),
+      mention('old', '2024-05-01T10:00:00Z'),
+    ])).toEqual([
+      { id: 'a', duplicate_of: 'old' },
+      { id: 'b', duplicate_of: 'old' },
+    ])
+  })
+
+  it('restores an original that was marked as a copy', () => {
+    expect(planNearDuplicates([
+      mention('a', '2024-05-01T10:00:00Z', 'b'),
+      mention('b', '2024-05-02T10:00:00Z'),
+    ])).toEqual([
+      { id: 'a', duplicate_of: null },
+      { id: 'b', duplicate_of: 'a' },
+    ])
+  })
+
+  it('compares timestamps as times and breaks ties by id', () => {
+    expect(planNearDuplicates([
+      mention('a', '2024-05-01T12:00:00+02:00'),
+      mention('b', '2024-05-01T11:00:00Z'),
+    ])).toEqual([{ id: 'b', duplicate_of: 'a' }])
+
+    expect(planNearDuplicates([
+      mention('y', '2024-05-01T10:00:00Z'),
+      mention('x', '2024-05-01T10:00:00.000+00:00'),
+    ])).toEqual([{ id: 'y', duplicate_of: 'x' }])
+  })
+
+  it('leaves settled mentions, other fingerprints and unfingerprinted mentions alone', () => {
+    expect(planNearDuplicates([
+      mention('a', '2024-05-01T10:00:00Z'),
+      mention('b', '2024-05-02T10:00:00Z', 'a'),
+      mention('c', '2024-05-01T09:00:00Z', null, 'h2'),
+      mention('d', '2024-04-01T10:00:00Z', null, null),
+    ])).toEqual([])
+  })
+})
+
+describe('mergeDuplicateMentions', () => {
+  const stored = (id: string, createdAt: string, sentimentScore: number | null) => ({
+    id,
+    user_id: 'u1',
+    social_account_id: 'acc1',
+    external_id: 'post-1',
+    post_url: null,
+    content: 'The new delivery app is so much faster than before',
+    content_hash: null,
+    posted_at: '2024-05-01T10:00:00Z',
+    duplicate_of: null,
+    sentiment_score: sentimentScore,
+    engagement_count: 3,
+    created_at: createdAt,
+  })
+
+  it('moves the query matches of merged rows to the kept row', async () => {
+    const db = new FakeSupabase({
+      mentions: [stored('old', '2024-05-01T10:00:00Z', null), stored('analyzed', '2024-05-02T10:00:00Z', 7)],
+      mention_queries: [
+        { mention_id: 'analyzed', query_id: 'q1', user_id: 'u1', matched_at: '2024-05-02T10:00:00Z' },
+        { mention_id: 'old', query_id: 'q1', user_id: 'u1', matched_at: '2024-05-01T10:00:00Z' },
+        { mention_id: 'old', query_id: 'q2', user_id: 'u1', matched_at: '2024-05-01T10:00:00Z' },
+      ],
+    })
+
+    expect(await mergeDuplicateMentions(db.client, 'u1')).toMatchObject({ scanned: 2, merged: 1 })
+
+    expect(db.tables.mentions.map(m => m.id)).toEqual(['analyzed'])
+    expect(db.tables.mention_queries.filter(q => q.mention_id === 'analyzed')).toEqual([
+      { mention_id: 'analyzed', query_id: 'q1', user_id: 'u1', matched_at: '2024-05-02T10:00:00Z' },
+      expect.objectContaining({ mention_id: 'analyzed', query_id: 'q2', user_id: 'u1', matched_at: '2024-05-01T10:00:00Z' }),
+    ])
+  })
+
+  it('leaves the tables alone on a dry run', async () => {
+    const db = new FakeSupabase({
+      mentions: [stored('old', '2024-05-01T10:00:00Z', null), stored('analyzed', '2024-05-02T10:00:00Z', 7)],
+      mention_queries: [{ mention_id: 'old', query_id: 'q2', user_id: 'u1', matched_at: '2024-05-01T10:00:00Z' }],
+    })
+
+    expect(await mergeDuplicateMentions(db.client, 'u1', { dryRun: true })).toMatchObject({ merged: 1, dryRun: true })
+    expect(db.tables.mentions).toHaveLength(2)
+    expect(db.tables.mention_queries).toHaveLength(1)
+  })
+})
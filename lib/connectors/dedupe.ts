@@ -0,0 +1,349 @@
+import { createHash } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// PostgREST caps responses at 1000 rows by default
+const PAGE_SIZE = 1000
+// Below this many characters (after normalizing) texts like "love it!" would
+// collide constantly, so they never count as copies of each other
+const MIN_FINGERPRINT_LENGTH = 20
+
+// Fingerprint of a mention's text that survives the usual edits made when
+// reposting: case, links, @handles, hashtag signs, punctuation, emoji and
+// spacing. Returns null for texts too short to tell apart.
+export function contentFingerprint(content: string) {
+  const normalized = content
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/@[\w.]+/g, ' ')
+    .replace(/^(rt|repost)\b:?/, ' ')
+    .replace(/[^a-z0-9À-ɏЀ-ӿ]+/g, ' ')
+    .trim()
+
+  if (normalized.length < MIN_FINGERPRINT_LENGTH) {
+    return null
+  }
+
+  return createHash('sha256').update(normalized).digest('hex').slice(0, 16)
+}
+
+interface FingerprintedMention {
+  id: string
+  content_hash: string | null
+  posted_at: string
+  duplicate_of: string | null
+}
+
+// Fingerprints looked up per query, to keep the request URL short
+const HASH_CHUNK_SIZE = 100
+
+// The `duplicate_of` changes that leave every fingerprint with one original:
+// the earliest posted mention (ties broken by id), with every other mention
+// sharing its fingerprint pointing straight at it. That includes copies that
+// already pointed elsewhere, e.g. at a mention that turns out to be a copy of
+// an older one backfilled later.
+export function planNearDuplicates(mentions: FingerprintedMention[]) {
+  // Timestamps may come back as ...Z or ...+00:00, so they are compared as times
+  const isEarlier = (a: FingerprintedMention, b: FingerprintedMention) => {
+    const diff = new Date(a.posted_at).getTime() - new Date(b.posted_at).getTime()
+    return diff < 0 || (diff === 0 && a.id < b.id)
+  }
+
+  const earliest = new Map<string, FingerprintedMention>()
+  for (const mention of mentions) {
+    if (!mention.content_hash) continue
+    const current = earliest.get(mention.content_hash)
+    if (!current || isEarlier(mention, current)) {
+      earliest.set(mention.content_hash, mention)
+    }
+  }
+
+  const changes: { id: string; duplicate_of: string | null }[] = []
+  for (const mention of mentions) {
+    if (!mention.content_hash) continue
+    const original = earliest.get(mention.content_hash)!
+    const duplicateOf = original.id === mention.id ? null : original.id
+    if (mention.duplicate_of !== duplicateOf) {
+      changes.push({ id: mention.id, duplicate_of: duplicateOf })
+    }
+  }
+
+  return changes
+}
+
+// Re-point the mentions sharing a fingerprint with any of `candidates` at
+// the earliest of them, whether that one was just stored or already there.
+// Returns how many mentions became copies.
+export async function markNearDuplicates(
+  supabase: SupabaseClient,
+  userId: string,
+  candidates: FingerprintedMention[]
+) {
+  const hashes = Array.from(new Set(
+    candidates.map(m => m.content_hash).filter((hash): hash is string => !!hash)
+  ))
+  let marked = 0
+
+  for (let i = 0; i < hashes.length; i += HASH_CHUNK_SIZE) {
+    const chunk = hashes.slice(i, i + HASH_CHUNK_SIZE)
+    const { data: stored, error } = await supabase
+      .from('mentions')
+      .select('id, content_hash, posted_at, duplicate_of')
+      .eq('user_id', userId)
+      .in('content_hash', chunk)
+
+    if (error) {
+      throw error
+    }
+
+    // Candidates are usually stored already; the stored copy of a row wins
+    const byId = new Map<string, FingerprintedMention>()
+    for (const mention of candidates.filter(m => m.content_hash && chunk.includes(m.content_hash))) {
+      byId.set(mention.id, mention)
+    }
+    for (const mention of (stored || []) as FingerprintedMention[]) {
+      byId.set(mention.id, mention)
+    }
+
+    for (const change of planNearDuplicates(Array.from(byId.values()))) {
+      const wasOriginal = byId.get(change.id)!.duplicate_of === null
+
+      const { error: updateError } = await supabase
+        .from('mentions')
+        .update({ duplicate_of: change.duplicate_of })
+        .eq('id', change.id)
+        .eq('user_id', userId)
+
+      if (updateError) {
+        throw updateError
+      }
+
+      const candidate = candidates.find(m => m.id === change.id)
+      if (candidate) candidate.duplicate_of = change.duplicate_of
+      if (change.duplicate_of && wasOriginal) marked++
+    }
+  }
+
+  return marked
+}
+
+interface StoredMention extends FingerprintedMention {
+  social_account_id: string
+  external_id: string | null
+  post_url: string | null
+  content: string
+  sentiment_score: number | null
+  engagement_count: number | null
+  created_at: string
+}
+
+export interface DedupeReport {
+  scanned: number
+  // Rows deleted because another row holds the same platform post
+  merged: number
+  // Reposts/copies newly pointed at their original
+  nearDuplicates: number
+  dryRun: boolean
+}
+
+async function loadMentions(supabase: SupabaseClient, userId: string) {
+  const rows: StoredMention[] = []
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('mentions')
+      .select('id, social_account_id, external_id, post_url, content, content_hash, posted_at, duplicate_of, sentiment_score, engagement_count, created_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1)
+
+    if (error) {
+      throw error
+    }
+
+    rows.push(...((data || []) as StoredMention[]))
+
+    if (!data || data.length < PAGE_SIZE) {
+      return rows
+    }
+  }
+}
+
+// Fold rows that hold the same platform post into one. The analyzed (then
+// oldest) row is kept; it takes over the highest engagement count, the
+// tracked query matches and any human review the others had.
+async function mergeInto(supabase: SupabaseClient, userId: string, keeper: StoredMention, others: StoredMention[]) {
+  const ids = others.map(m => m.id)
+
+  const { data: keeperReview } = await supabase
+    .from('sentiment_reviews')
+    .select('id')
+    .eq('mention_id', keeper.id)
+    .maybeSingle()
+
+  if (!keeperReview) {
+    const { data: review } = await supabase
+      .from('sentiment_reviews')
+      .select('id')
+      .in('mention_id', ids)
+      .order('updated_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (review) {
+      const { error } = await supabase
+        .from('sentiment_reviews')
+        .update({ mention_id: keeper.id })
+        .eq('id', review.id)
+        .eq('user_id', userId)
+
+      if (error) {
+        throw error
+      }
+    }
+  }
+
+  // Query matches would go with the removed rows (ON DELETE CASCADE), so the
+  // keeper takes them over, keeping the earliest match of each query
+  const { data: matches, error: matchesError } = await supabase
+    .from('mention_queries')
+    .select('query_id, matched_at')
+    .in('mention_id', ids)
+    .order('matched_at', { ascending: true })
+
+  if (matchesError) {
+    throw matchesError
+  }
+
+  const matchedAt = new Map<string, string | null>()
+  for (const match of (matches || []) as { query_id: string; matched_at: string | null }[]) {
+    if (!matchedAt.has(match.query_id)) matchedAt.set(match.query_id, match.matched_at)
+  }
+
+  if (matchedAt.size > 0) {
+    const { error } = await supabase
+      .from('mention_queries')
+      .upsert(
+        Array.from(matchedAt.entries()).map(([queryId, at]) => ({
+          mention_id: keeper.id,
+          query_id: queryId,
+          user_id: userId,
+          matched_at: at ?? undefined,
+        })),
+        { onConflict: 'mention_id,query_id', ignoreDuplicates: true }
+      )
+
+    if (error) {
+      throw error
+    }
+  }
+
+  // Anything that pointed at a removed row as its original now points at the keeper
+  const { error: repointError } = await supabase
+    .from('mentions')
+    .update({ duplicate_of: keeper.id })
+    .eq('user_id', userId)
+    .in('duplicate_of', ids)
+
+  if (repointError) {
+    throw repointError
+  }
+
+  const engagement = Math.max(...[keeper, ...others].map(m => m.engagement_count || 0))
+  const externalId = keeper.external_id ?? others.find(m => m.external_id)?.external_id ?? null
+
+  const { error: deleteError } = await supabase
+    .from('mentions')
+    .delete()
+    .eq('user_id', userId)
+    .in('id', ids)
+
+  if (deleteError) {
+    throw deleteError
+  }
+
+  // After the delete, so the external id is free to move to the keeper
+  const { error: updateError } = await supabase
+    .from('mentions')
+    .update({ engagement_count: engagement, external_id: externalId })
+    .eq('id', keeper.id)
+    .eq('user_id', userId)
+
+  if (updateError) {
+    throw updateError
+  }
+}
+
+// One-off cleanup for mentions stored before ingestion was idempotent:
+// backfills fingerprints, merges rows for the same platform post (matched on
+// external id, or post URL for rows that predate it) and flags reposts.
+export async function mergeDuplicateMentions(
+  supabase: SupabaseClient,
+  userId: string,
+  { dryRun = false }: { dryRun?: boolean } = {}
+): Promise<DedupeReport> {
+  const mentions = await loadMentions(supabase, userId)
+
+  for (const mention of mentions) {
+    const hash = contentFingerprint(mention.content)
+    if (hash === mention.content_hash) continue
+
+    mention.content_hash = hash
+    if (!dryRun) {
+      const { error } = await supabase
+        .from('mentions')
+        .update({ content_hash: hash })
+        .eq('id', mention.id)
+        .eq('user_id', userId)
+
+      if (error) {
+        throw error
+      }
+    }
+  }
+
+  // Rows from before external ids existed join the group of the row with the same URL
+  const keyByUrl = new Map<string, string>()
+  for (const mention of mentions) {
+    if (mention.external_id && mention.post_url) {
+      keyByUrl.set(`${mention.social_account_id}|${mention.post_url}`, `${mention.social_account_id}|id:${mention.external_id}`)
+    }
+  }
+
+  const groups = new Map<string, StoredMention[]>()
+  for (const mention of mentions) {
+    const urlKey = mention.post_url ? `${mention.social_account_id}|${mention.post_url}` : null
+    const key = mention.external_id
+      ? `${mention.social_account_id}|id:${mention.external_id}`
+      : urlKey && (keyByUrl.get(urlKey) ?? urlKey)
+    if (!key) continue
+    groups.set(key, [...(groups.get(key) || []), mention])
+  }
+
+  let merged = 0
+  const removed = new Set<string>()
+  for (const group of Array.from(groups.values())) {
+    if (group.length < 2) continue
+
+    // Rows come oldest first, so the first analyzed one (or the oldest) wins
+    const keeper = group.find(m => m.sentiment_score !== null) || group[0]
+    const others = group.filter(m => m !== keeper)
+
+    if (!dryRun) {
+      await mergeInto(supabase, userId, keeper, others)
+    }
+    others.forEach(m => removed.add(m.id))
+    merged += others.length
+  }
+
+  const remaining = mentions.filter(m => !removed.has(m.id))
+  let nearDuplicates = 0
+
+  if (dryRun) {
+    const wasOriginal = new Set(remaining.filter(m => !m.duplicate_of).map(m => m.id))
+    nearDuplicates = planNearDuplicates(remaining).filter(change => change.duplicate_of && wasOriginal.has(change.id)).length
+  } else {
+    nearDuplicates = await markNearDuplicates(supabase, userId, remaining)
+  }
+
+  return { scanned: mentions.length, merged, nearDuplicates, dryRun }
+}
@@ -0,0 +1,70 @@
+import {
+  fetchGraphNode,
+  fetchGraphSince,
+  graphUrl,
+  parseMetaChanges,
+  verifyMetaHandshake,
+  verifyMetaSignature,
+} from './graph'
+import { parsePageCursor } from './cursor'
+import { decryptToken } from './tokens'
+import type { PlatformConnector } from './types'
+
+// Posts the page was tagged in
+interface FacebookTaggedPost {
+  id: string
+  message?: string
+  from?: { id: string; name: string }
+  permalink_url?: string
+  created_time: string
+  reactions?: { summary?: { total_count: number } }
+  comments?: { summary?: { total_count: number } }
+}
+
+const POST_FIELDS = 'id,message,from,permalink_url,created_time,reactions.limit(0).summary(true),comments.limit(0).summary(true)'
+
+export const facebookConnector: PlatformConnector<FacebookTaggedPost> = {
+  name: 'facebook',
+  fetchSince: (account, cursor) => {
+    const { since } = parsePageCursor(cursor)
+    return fetchGraphSince<FacebookTaggedPost>(
+      graphUrl(`${account.account_id}/tagged`, {
+        fields: POST_FIELDS,
+        limit: '50',
+        // The edge filters by time itself; fetchGraphSince still stops at the cursor
+        ...(since && { since: String(Math.floor(new Date(since).getTime() / 1000)) }),
+        access_token: decryptToken(account.access_token),
+      }),
+      cursor,
+      post => post.created_time
+    )
+  },
+  normalize: (post, account) => {
+    if (!post.message?.trim()) return null
+
+    return {
+      user_id: account.user_id,
+      social_account_id: account.id,
+      platform: 'facebook',
+      external_id: post.id,
+      content: post.message,
+      author: post.from?.name || 'Facebook user',
+      author_handle: null,
+      post_url: post.permalink_url || null,
+      posted_at: new Date(post.created_time).toISOString(),
+      engagement_count: (post.reactions?.summary?.total_count || 0) + (post.comments?.summary?.total_count || 0),
+    }
+  },
+  webhook: {
+    verifySignature: (rawBody, headers) =>
+      verifyMetaSignature(rawBody, headers, process.env.FACEBOOK_APP_SECRET),
+    verifyHandshake: verifyMetaHandshake,
+    // The page `mention` field; comment mentions are skipped like in polling
+    parseEvents: payload =>
+      parseMetaChanges(payload, 'mention', value => (value.item === 'post' ? value.post_id : null)),
+    fetchItem: (account, postId) =>
+      fetchGraphNode<FacebookTaggedPost>(
+        graphUrl(postId, { fields: POST_FIELDS, access_token: decryptToken(account.access_token) })
+      ),
+  },
+}
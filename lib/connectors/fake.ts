@@ -0,0 +1,99 @@
+import type { PlatformConnector } from './types'
+
+export interface FakePost {
+  id: string
+  content: string
+  author: string
+  authorHandle?: string
+  postUrl?: string
+  postedAt: string
+  engagementCount?: number
+  // id of the post this one replies to
+  parentId?: string
+}
+
+const DEFAULT_FIXTURES: FakePost[] = [
+  {
+    id: 'fake-1',
+    content: 'Absolutely love the new collection, delivery was super fast 😍',
+    author: 'Anna Bērziņa',
+    authorHandle: '@annab',
+    postUrl: 'https://example.com/posts/fake-1',
+    postedAt: '2024-01-01T09:00:00.000Z',
+    engagementCount: 42,
+  },
+  {
+    id: 'fake-2',
+    content: 'Ordered two weeks ago and still nothing. Support never replied 😡',
+    author: 'Mark Jones',
+    authorHandle: '@markj',
+    postUrl: 'https://example.com/posts/fake-2',
+    postedAt: '2024-01-01T12:30:00.000Z',
+    engagementCount: 7,
+  },
+  {
+    id: 'fake-3',
+    content: 'Oh great, another price increase. Thanks a lot.',
+    author: 'Sam Lee',
+    postUrl: 'https://example.com/posts/fake-3',
+    postedAt: '2024-01-02T08:15:00.000Z',
+    engagementCount: 3,
+  },
+  {
+    id: 'fake-4',
+    content: 'Ļoti laba apkalpošana un kvalitāte, iesaku!',
+    author: 'Jānis Ozols',
+    postUrl: 'https://example.com/posts/fake-4',
+    postedAt: '2024-01-02T15:45:00.000Z',
+    engagementCount: 12,
+  },
+]
+
+// Serves a fixed set of posts, honouring the cursor the same way the real
+// connectors do. Lets ingestion run end to end without platform credentials.
+export function createFakeConnector(fixtures: FakePost[] = DEFAULT_FIXTURES): PlatformConnector<FakePost> {
+  return {
+    name: 'fake',
+    fetchSince: async (_account, cursor) => {
+      const items = fixtures
+        .filter(post => !cursor || new Date(post.postedAt).toISOString() > cursor)
+        .sort((a, b) => b.postedAt.localeCompare(a.postedAt))
+
+      const newest = items[0] ? new Date(items[0].postedAt).toISOString() : cursor
+      return { items, cursor: newest }
+    },
+    normalize: (post, account) => ({
+      user_id: account.user_id,
+      social_account_id: account.id,
+      platform: account.platform,
+      external_id: post.id,
+      content: post.content,
+      author: post.author,
+      author_handle: post.authorHandle || null,
+      post_url: post.postUrl || null,
+      posted_at: new Date(post.postedAt).toISOString(),
+      engagement_count: post.engagementCount ?? null,
+      parent_external_id: post.parentId || null,
+    }),
+  }
+}
+
+// SOCIAL_FAKE_FIXTURES holds a JSON array of FakePost entries, e.g.
+// [{"id":"1","content":"Great service!","author":"Test","postedAt":"2024-01-01T00:00:00Z"}]
+export function createFakeConnectorFromEnv(): PlatformConnector<FakePost> {
+  const raw = process.env.SOCIAL_FAKE_FIXTURES
+
+  if (!raw) {
+    return createFakeConnector()
+  }
+
+  try {
+    const fixtures = JSON.parse(raw)
+    if (!Array.isArray(fixtures)) {
+      throw new Error('expected an array')
+    }
+    return createFakeConnector(fixtures as FakePost[])
+  } catch (error) {
+    throw new Error(`Invalid SOCIAL_FAKE_FIXTURES: ${error instanceof Error ? error.message : 'parse error'}`)
+  }
+}
@@ -0,0 +1,129 @@
+import { createHmac } from 'crypto'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { facebookConnector } from './facebook'
+import { parseMetaChanges, verifyMetaHandshake, verifyMetaSignature } from './graph'
+import { instagramConnector } from './instagram'
+
+const SECRET = 'app-secret'
+const body = JSON.stringify({ object: 'page', entry: [] })
+
+const signed = (rawBody: string, secret = SECRET) =>
+  new Headers({ 'x-hub-signature-256': `sha256=${createHmac('sha256', secret).update(rawBody).digest('hex')}` })
+
+describe('verifyMetaSignature', () => {
+  it('accepts the HMAC of the raw body', () => {
+    expect(verifyMetaSignature(body, signed(body), SECRET)).toBe(true)
+  })
+
+  it('rejects a body that was changed after signing', () => {
+    expect(verifyMetaSignature(body.replace('page', 'user'), signed(body), SECRET)).toBe(false)
+  })
+
+  it('rejects a signature made with another secret', () => {
+    expect(verifyMetaSignature(body, signed(body, 'other-secret'), SECRET)).toBe(false)
+  })
+
+  it('rejects missing, malformed and truncated signatures', () => {
+    const hex = createHmac('sha256', SECRET).update(body).digest('hex')
+
+    expect(verifyMetaSignature(body, new Headers(), SECRET)).toBe(false)
+    expect(verifyMetaSignature(body, new Headers({ 'x-hub-signature-256': hex }), SECRET)).toBe(false)
+    expect(verifyMetaSignature(body, new Headers({ 'x-hub-signature-256': `sha256=${hex.slice(0, 32)}` }), SECRET)).toBe(false)
+  })
+
+  it('rejects everything when the app secret is not configured', () => {
+    expect(verifyMetaSignature(body, signed(body, ''), undefined)).toBe(false)
+    expect(verifyMetaSignature(body, signed(body, ''), '')).toBe(false)
+  })
+})
+
+describe('verifyMetaHandshake', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  const params = (verifyToken: string, mode = 'subscribe') =>
+    new URLSearchParams({ 'hub.mode': mode, 'hub.verify_token': verifyToken, 'hub.challenge': '1158201444' })
+
+  it('answers with the challenge when the verify token matches', () => {
+    vi.stubEnv('META_WEBHOOK_VERIFY_TOKEN', 'verify-me')
+
+    expect(verifyMetaHandshake(params('verify-me'))).toBe('1158201444')
+  })
+
+  it('refuses a wrong token, another mode or a missing configuration', () => {
+    vi.stubEnv('META_WEBHOOK_VERIFY_TOKEN', 'verify-me')
+    expect(verifyMetaHandshake(params('guess'))).toBeNull()
+    expect(verifyMetaHandshake(params('verify-me', 'unsubscribe'))).toBeNull()
+
+    vi.stubEnv('META_WEBHOOK_VERIFY_TOKEN', '')
+    expect(verifyMetaHandshake(params(''))).toBeNull()
+  })
+})
+
+describe('parseMetaChanges', () => {
+  const payload = {
+    object: 'page',
+    entry: [
+      {
+        id: 'page-1',
+        changes: [
+          { field: 'mention', value: { item: 'post', post_id: 'p1', verb: 'add' } },
+          { field: 'mention', value: { item: 'post', post_id: 'p2', verb: 'remove' } },
+          { field: 'feed', value: { item: 'post', post_id: 'p3' } },
+          { field: 'mention', value: { item: 'comment', post_id: 'p4', comment_id: 'c1' } },
+        ],
+      },
+      { id: 'page-2', changes: [{ field: 'mention', value: { item: 'post', post_id: 'p5' } }] },
+      { id: 'page-3' },
+    ],
+  }
+
+  it('pairs each change on the field with its account, skipping removals', () => {
+    expect(parseMetaChanges(payload, 'mention', value => value.post_id)).toEqual([
+      { accountId: 'page-1', itemId: 'p1' },
+      { accountId: 'page-1', itemId: 'p4' },
+      { accountId: 'page-2', itemId: 'p5' },
+    ])
+  })
+
+  it('drops changes without a usable item id', () => {
+    expect(parseMetaChanges(payload, 'mention', value => (value.item === 'post' ? value.post_id : null))).toEqual([
+      { accountId: 'page-1', itemId: 'p1' },
+      { accountId: 'page-2', itemId: 'p5' },
+    ])
+    expect(parseMetaChanges(payload, 'mention', () => 42)).toEqual([])
+  })
+
+  it('returns nothing for payloads that are not Meta webhooks', () => {
+    expect(parseMetaChanges(null, 'mention', value => value.post_id)).toEqual([])
+    expect(parseMetaChanges('ping', 'mention', value => value.post_id)).toEqual([])
+    expect(parseMetaChanges({ entry: [{ id: 'page-1', changes: [{ field: 'mention' }] }] }, 'mention', () => 'x')).toEqual([])
+  })
+})
+
+describe('Meta connector webhooks', () => {
+  it('takes Facebook post mentions and skips comment mentions', () => {
+    expect(facebookConnector.webhook!.parseEvents({
+      entry: [{
+        id: 'page-1',
+        changes: [
+          { field: 'mention', value: { item: 'post', post_id: 'page-9_p1', verb: 'add' } },
+          { field: 'mention', value: { item: 'comment', post_id: 'page-9_p2', comment_id: 'c1', verb: 'add' } },
+        ],
+      }],
+    })).toEqual([{ accountId: 'page-1', itemId: 'page-9_p1' }])
+  })
+
+  it('takes Instagram caption mentions and skips comment mentions', () => {
+    expect(instagramConnector.webhook!.parseEvents({
+      entry: [{
+        id: 'ig-1',
+        changes: [
+          { field: 'mentions', value: { media_id: 'media-1' } },
+          { field: 'mentions', value: { media_id: 'media-2', comment_id: 'c1' } },
+        ],
+      }],
+    })).toEqual([{ accountId: 'ig-1', itemId: 'media-1' }])
+  })
+})
@@ -0,0 +1,146 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { formatPageCursor, parsePageCursor } from './cursor'
+import { reconnectRequired } from './tokens'
+import type { WebhookEvent } from './types'
+
+// Shared plumbing for the Meta Graph API, which serves both Instagram and Facebook
+export const GRAPH_API_VERSION = process.env.FACEBOOK_GRAPH_API_VERSION || 'v19.0'
+
+// Pages fetched per sync before stopping; the cursor resumes from the next page next time
+export const MAX_PAGES = 10
+
+export interface GraphPage<T> {
+  data: T[]
+  paging?: {
+    next?: string
+    cursors?: { before?: string; after?: string }
+  }
+}
+
+export function graphUrl(path: string, params: Record<string, string>) {
+  const url = new URL(`https://graph.facebook.com/${GRAPH_API_VERSION}/${path}`)
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value)
+  }
+  return url.toString()
+}
+
+export async function fetchGraphNode<T>(url: string): Promise<T> {
+  const response = await fetch(url)
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    // 190 is OAuthException: the token expired, was revoked or lost a permission
+    if (errorData.error?.code === 190) {
+      throw reconnectRequired(`Access token rejected: ${errorData.error.message || 'invalid token'}`)
+    }
+    throw new Error(`Graph API error: ${response.status} - ${JSON.stringify(errorData)}`)
+  }
+
+  return response.json()
+}
+
+export function fetchGraphPage<T>(url: string) {
+  return fetchGraphNode<GraphPage<T>>(url)
+}
+
+// Follow pages newest-first until an item is no newer than the cursor, and
+// report the newest timestamp seen as the next cursor. When MAX_PAGES runs
+// out first, the cursor carries the `after` token of the next page (not the
+// `paging.next` URL, which holds the access token) to continue from next time.
+export async function fetchGraphSince<T>(
+  firstUrl: string,
+  cursor: string | null,
+  timestampOf: (item: T) => string
+) {
+  const { newest: start, since, resume } = parsePageCursor(cursor)
+  const items: T[] = []
+  let newest = start
+  let after: string | null = resume
+  let hasNext = true
+
+  for (let page = 0; hasNext && page < MAX_PAGES; page++) {
+    const url = new URL(firstUrl)
+    if (after) url.searchParams.set('after', after)
+
+    const result: GraphPage<T> = await fetchGraphPage<T>(url.toString())
+    after = result.paging?.cursors?.after ?? null
+    hasNext = !!result.paging?.next && after !== null
+
+    for (const item of result.data) {
+      const postedAt = new Date(timestampOf(item)).toISOString()
+      if (since && postedAt <= since) {
+        hasNext = false
+        break
+      }
+      items.push(item)
+      if (!newest || postedAt > newest) newest = postedAt
+    }
+  }
+
+  return { items, cursor: formatPageCursor({ newest, since, resume: hasNext ? after : null }) }
+}
+
+// Meta signs webhook deliveries with the app secret: X-Hub-Signature-256: sha256=<hex hmac of the raw body>
+export function verifyMetaSignature(rawBody: string, headers: Headers, appSecret: string | undefined) {
+  const header = headers.get('x-hub-signature-256')
+
+  if (!appSecret || !header?.startsWith('sha256=')) {
+    return false
+  }
+
+  const expected = Buffer.from(createHmac('sha256', appSecret).update(rawBody).digest('hex'))
+  const received = Buffer.from(header.slice('sha256='.length))
+
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
+
+// Meta confirms a webhook subscription with a GET carrying the verify token
+// configured in the app dashboard; answering with hub.challenge accepts it
+export function verifyMetaHandshake(params: URLSearchParams) {
+  const verifyToken = process.env.META_WEBHOOK_VERIFY_TOKEN
+
+  if (
+    !verifyToken ||
+    params.get('hub.mode') !== 'subscribe' ||
+    params.get('hub.verify_token') !== verifyToken
+  ) {
+    return null
+  }
+
+  return params.get('hub.challenge')
+}
+
+interface MetaWebhookPayload {
+  object?: string
+  entry?: {
+    id: string
+    changes?: { field: string; value?: Record<string, unknown> }[]
+  }[]
+}
+
+// Pull (account id, item id) pairs out of the `changes` of a Meta webhook
+// payload. `itemIdOf` picks the item out of a change on `field`, or returns
+// null for changes that aren't mentions worth storing.
+export function parseMetaChanges(
+  payload: unknown,
+  field: string,
+  itemIdOf: (value: Record<string, unknown>) => unknown
+): WebhookEvent[] {
+  const events: WebhookEvent[] = []
+
+  for (const entry of (payload as MetaWebhookPayload)?.entry || []) {
+    for (const change of entry.changes || []) {
+      if (change.field !== field || !change.value) continue
+      // Removals are left alone; the stored mention stays as it was
+      if (change.value.verb === 'remove') continue
+
+      const itemId = itemIdOf(change.value)
+      if (typeof itemId === 'string' && itemId) {
+        events.push({ accountId: entry.id, itemId })
+      }
+    }
+  }
+
+  return events
+}
@@ -0,0 +1,33 @@
+import { facebookConnector } from './facebook'
+import { createFakeConnectorFromEnv } from './fake'
+import { instagramConnector } from './instagram'
+import { linkedinConnector } from './linkedin'
+import { twitterConnector } from './twitter'
+import type { PlatformConnector, SocialPlatform } from './types'
+
+export * from './types'
+export { createFakeConnector } from './fake'
+
+// Pick the connector for an account's platform. SOCIAL_CONNECTOR=fake swaps
+// every platform for the fixture-backed fake, for local runs and tests.
+export function getConnector(
+  platform: SocialPlatform,
+  override: string | undefined = process.env.SOCIAL_CONNECTOR
+): PlatformConnector {
+  if (override === 'fake') {
+    return createFakeConnectorFromEnv()
+  }
+
+  switch (platform) {
+    case 'instagram':
+      return instagramConnector
+    case 'facebook':
+      return facebookConnector
+    case 'twitter':
+      return twitterConnector
+    case 'linkedin':
+      return linkedinConnector
+    default:
+      throw new Error(`No connector available for platform: ${platform}`)
+  }
+}
@@ -0,0 +1,101 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { contentFingerprint, markNearDuplicates } from './dedupe'
+import { withFreshToken } from '@/lib/oauth/refresh'
+import { assertPlatformAllowed } from '@/lib/plans'
+import { matchTrackedQueries } from '@/lib/queries'
+import { getConnector } from './index'
+import type { MentionInsert, PlatformConnector, SocialAccount } from './types'
+
+export interface IngestResult {
+  fetched: number
+  inserted: number
+  updated: number
+  // Items the connector couldn't turn into a mention
+  skipped: number
+  // New mentions that turned out to be reposts of one already stored
+  duplicates: number
+  // New mentions that aren't duplicates, i.e. the ones worth analyzing
+  insertedIds: string[]
+  cursor: string | null
+}
+
+// Store normalized mentions for one account. Rows are keyed on the platform's
+// own post id, so re-running a sync refreshes mentions instead of duplicating
+// them (and never feeds the analytics trigger the same post twice).
+async function upsertMentions(supabase: SupabaseClient, account: SocialAccount, rows: MentionInsert[]) {
+  // The same post can show up twice when a page boundary shifts mid-sync
+  const unique = rows.filter((row, i) => rows.findIndex(r => r.external_id === row.external_id) === i)
+  const externalIds = unique.map(row => row.external_id).filter((id): id is string => !!id)
+
+  const { data: existing, error: existingError } = await supabase
+    .from('mentions')
+    .select('external_id')
+    .eq('social_account_id', account.id)
+    .in('external_id', externalIds)
+
+  if (existingError) {
+    throw existingError
+  }
+
+  const known = new Set((existing || []).map((row: { external_id: string }) => row.external_id))
+
+  const { data: upserted, error } = await supabase
+    .from('mentions')
+    .upsert(
+      unique.map(row => ({ ...row, content_hash: contentFingerprint(row.content) })),
+      { onConflict: 'social_account_id,external_id' }
+    )
+    .select('id, external_id, content, content_hash, posted_at, duplicate_of')
+
+  if (error) {
+    throw error
+  }
+
+  const inserted = (upserted || []).filter((row: { external_id: string }) => !known.has(row.external_id))
+
+  return { upserted: upserted || [], inserted, updated: (upserted?.length || 0) - inserted.length }
+}
+
+// Normalize raw platform items for an account and store them
+export async function storeItems<T>(
+  supabase: SupabaseClient,
+  account: SocialAccount,
+  connector: PlatformConnector<T>,
+  items: T[]
+): Promise<Omit<IngestResult, 'cursor'>> {
+  const rows = items
+    .map(item => connector.normalize(item, account))
+    .filter((row): row is MentionInsert => row !== null && !!row.external_id)
+
+  if (rows.length === 0) {
+    return { fetched: items.length, inserted: 0, updated: 0, skipped: items.length, duplicates: 0, insertedIds: [] }
+  }
+
+  const { upserted, inserted, updated } = await upsertMentions(supabase, account, rows)
+  const duplicates = await markNearDuplicates(supabase, account.user_id, inserted)
+  await matchTrackedQueries(supabase, account.user_id, upserted)
+
+  return {
+    fetched: items.length,
+    inserted: inserted.length,
+    updated,
+    skipped: items.length - rows.length,
+    duplicates,
+    insertedIds: inserted.filter(row => !row.duplicate_of).map(row => row.id),
+  }
+}
+
+// Pull everything new for an account since `cursor` and store it
+export async function ingestAccount(
+  supabase: SupabaseClient,
+  account: SocialAccount,
+  { cursor = null }: { cursor?: string | null } = {}
+): Promise<IngestResult> {
+  await assertPlatformAllowed(account)
+
+  const connector = getConnector(account.platform)
+  const { items, cursor: nextCursor } = await connector.fetchSince(await withFreshToken(supabase, account), cursor)
+  const result = await storeItems(supabase, account, connector, items)
+
+  return { ...result, cursor: nextCursor }
+}
@@ -0,0 +1,116 @@
+import { positiveTerms } from '@/lib/queries/expression'
+import {
+  fetchGraphNode,
+  fetchGraphPage,
+  fetchGraphSince,
+  graphUrl,
+  parseMetaChanges,
+  verifyMetaHandshake,
+  verifyMetaSignature,
+} from './graph'
+import { parsePageCursor } from './cursor'
+import { decryptToken } from './tokens'
+import type { PlatformConnector } from './types'
+
+// Media the business account was tagged or @mentioned in
+interface InstagramTaggedMedia {
+  id: string
+  caption?: string
+  username?: string
+  permalink?: string
+  timestamp: string
+  like_count?: number
+  comments_count?: number
+}
+
+const MEDIA_FIELDS = 'id,caption,username,permalink,timestamp,like_count,comments_count'
+// Hashtag media has no username
+const HASHTAG_MEDIA_FIELDS = 'id,caption,permalink,timestamp,like_count,comments_count'
+
+export const instagramConnector: PlatformConnector<InstagramTaggedMedia> = {
+  name: 'instagram',
+  fetchSince: (account, cursor) =>
+    fetchGraphSince<InstagramTaggedMedia>(
+      graphUrl(`${account.account_id}/tags`, {
+        fields: MEDIA_FIELDS,
+        limit: '50',
+        access_token: decryptToken(account.access_token),
+      }),
+      cursor,
+      media => media.timestamp
+    ),
+  // Instagram can only search hashtags, so only the query's hashtag terms are
+  // looked up. An account may look up 30 distinct hashtags per week, and
+  // recent_media only covers the last 24 hours. The hashtags share one
+  // timestamp cursor, so a hashtag cut short by MAX_PAGES holds it back and
+  // the gap is read again next time (while it is still within those 24 hours).
+  search: async (account, query, cursor) => {
+    const accessToken = decryptToken(account.access_token)
+    const hashtags = positiveTerms(query).filter(term => /^#[^\s#]+$/.test(term))
+    const items: InstagramTaggedMedia[] = []
+    const { since } = parsePageCursor(cursor)
+    let newest = since
+    let truncated = false
+
+    for (const hashtag of hashtags) {
+      const { data } = await fetchGraphPage<{ id: string }>(
+        graphUrl('ig_hashtag_search', { user_id: account.account_id, q: hashtag.slice(1), access_token: accessToken })
+      )
+      if (!data[0]) continue
+
+      const result = await fetchGraphSince<InstagramTaggedMedia>(
+        graphUrl(`${data[0].id}/recent_media`, {
+          user_id: account.account_id,
+          fields: HASHTAG_MEDIA_FIELDS,
+          limit: '50',
+          access_token: accessToken,
+        }),
+        since,
+        media => media.timestamp
+      )
+      const { newest: hashtagNewest, resume } = parsePageCursor(result.cursor)
+
+      items.push(...result.items.filter(media => !items.some(item => item.id === media.id)))
+      if (resume) truncated = true
+      if (hashtagNewest && (!newest || hashtagNewest > newest)) newest = hashtagNewest
+    }
+
+    return { items, cursor: truncated ? since : newest }
+  },
+  normalize: (media, account) => {
+    if (!media.caption?.trim()) return null
+
+    return {
+      user_id: account.user_id,
+      social_account_id: account.id,
+      platform: 'instagram',
+      external_id: media.id,
+      content: media.caption,
+      author: media.username || 'Instagram user',
+      author_handle: media.username ? `@${media.username}` : null,
+      post_url: media.permalink || null,
+      posted_at: new Date(media.timestamp).toISOString(),
+      engagement_count: (media.like_count || 0) + (media.comments_count || 0),
+    }
+  },
+  webhook: {
+    verifySignature: (rawBody, headers) =>
+      verifyMetaSignature(rawBody, headers, process.env.INSTAGRAM_APP_SECRET),
+    verifyHandshake: verifyMetaHandshake,
+    // `mentions` fires for captions and comments; a comment mention also
+    // carries comment_id and its media_id is someone else's post
+    parseEvents: payload =>
+      parseMetaChanges(payload, 'mentions', value => (value.comment_id ? null : value.media_id)),
+    // Media the account is mentioned in is only readable through the
+    // account's own mentioned_media field
+    fetchItem: async (account, mediaId) => {
+      const node = await fetchGraphNode<{ mentioned_media?: InstagramTaggedMedia }>(
+        graphUrl(account.account_id, {
+          fields: `mentioned_media.media_id(${mediaId}){${MEDIA_FIELDS}}`,
+          access_token: decryptToken(account.access_token),
+        })
+      )
+      return node.mentioned_media || null
+    },
+  },
+}
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { parsePageCursor } from './cursor'
+import { MAX_PAGES } from './graph'
+import { linkedinConnector } from './linkedin'
+import type { SocialAccount } from './types'
+
+const NOW = new Date('2024-05-10T12:00:00.000Z').getTime()
+
+// Tokens saved before encryption pass through decryptToken as they are
+const account = { id: 'a1', user_id: 'u1', account_id: '42', access_token: 'token' } as SocialAccount
+
+const notification = (postId: string | undefined, at: string) => ({
+  action: 'SHARE_MENTION',
+  generatedActivity: postId,
+  lastModifiedAt: new Date(at).getTime(),
+})
+
+// Notification pages come from `pages` in order; posts are made up from their URN
+function stubLinkedIn(...pages: ReturnType<typeof notification>[][]) {
+  const urls: string[] = []
+  vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+    urls.push(url)
+    if (url.includes('/posts/')) {
+      const id = decodeURIComponent(url.split('/posts/')[1])
+      return new Response(JSON.stringify({ id, commentary: `Post ${id}`, author: 'urn:li:person:1', createdAt: NOW }))
+    }
+    const page = pages.shift()
+    if (!page) throw new Error('Unexpected LinkedIn request')
+    return new Response(JSON.stringify({ elements: page }))
+  }))
+  return urls
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] })
+  vi.setSystemTime(NOW)
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.unstubAllGlobals()
+})
+
+describe('linkedinConnector.fetchSince', () => {
+  it('fetches the post of every new mention notification', async () => {
+    const since = '2024-05-10T08:00:00.000Z'
+    const urls = stubLinkedIn([
+      notification('urn:li:share:3', '2024-05-10T09:00:00.000Z'),
+      notification(undefined, '2024-05-10T09:30:00.000Z'),
+      notification('urn:li:share:2', since),
+    ])
+
+    const result = await linkedinConnector.fetchSince(account, since)
+
+    expect(result.items.map(item => item.post.id)).toEqual(['urn:li:share:3'])
+    expect(result.cursor).toBe('2024-05-10T09:00:00.000Z')
+    expect(urls[0]).toContain(`organizationalEntity=${encodeURIComponent('urn:li:organization:42')}`)
+    expect(urls[0]).toContain(`timeRange=(start:${new Date(since).getTime()},end:${NOW})`)
+    expect(urls[1]).toBe(`https://api.linkedin.com/rest/posts/${encodeURIComponent('urn:li:share:3')}`)
+  })
+
+  it('resumes at the offset and time range where the page limit stopped', async () => {
+    const since = '2024-05-01T00:00:00.000Z'
+    const fullPage = Array.from({ length: 50 }, () => notification(undefined, '2024-05-09T00:00:00.000Z'))
+    stubLinkedIn(...Array.from({ length: MAX_PAGES }, () => fullPage))
+
+    const first = await linkedinConnector.fetchSince(account, since)
+
+    expect(parsePageCursor(first.cursor)).toEqual({ newest: since, since, resume: `${NOW}:${MAX_PAGES * 50}` })
+
+    vi.setSystemTime(NOW + 60_000)
+    const urls = stubLinkedIn([notification('urn:li:share:9', '2024-05-02T00:00:00.000Z')])
+    const second = await linkedinConnector.fetchSince(account, first.cursor)
+
+    expect(urls[0]).toContain(`end:${NOW})&start=${MAX_PAGES * 50}&`)
+    expect(second.items.map(item => item.post.id)).toEqual(['urn:li:share:9'])
+    expect(second.cursor).toBe('2024-05-02T00:00:00.000Z')
+  })
+})
+
+describe('linkedinConnector.normalize', () => {
+  const post = { id: 'urn:li:share:3', commentary: 'Great product', author: 'urn:li:organization:7', createdAt: NOW - 1000, publishedAt: NOW }
+
+  it('maps a post onto a mention', () => {
+    expect(linkedinConnector.normalize({ notifiedAt: NOW, post }, account)).toEqual({
+      user_id: 'u1',
+      social_account_id: 'a1',
+      platform: 'linkedin',
+      external_id: 'urn:li:share:3',
+      content: 'Great product',
+      author: 'LinkedIn page',
+      author_handle: null,
+      post_url: 'https://www.linkedin.com/feed/update/urn:li:share:3',
+      posted_at: new Date(NOW).toISOString(),
+      engagement_count: 0,
+    })
+  })
+
+  it('names member authors and skips posts without text', () => {
+    expect(linkedinConnector.normalize({ notifiedAt: NOW, post: { ...post, author: 'urn:li:person:1' } }, account)).toMatchObject({
+      author: 'LinkedIn member',
+    })
+    expect(linkedinConnector.normalize({ notifiedAt: NOW, post: { ...post, commentary: undefined } }, account)).toBeNull()
+  })
+})
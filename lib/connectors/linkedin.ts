@@ -0,0 +1,118 @@
+import { formatPageCursor, parsePageCursor } from './cursor'
+import { MAX_PAGES } from './graph'
+import { decryptToken, reconnectRequired } from './tokens'
+import type { PlatformConnector } from './types'
+
+const API_BASE = 'https://api.linkedin.com/rest'
+// LinkedIn's versioned REST API wants a YYYYMM version on every call
+const LINKEDIN_API_VERSION = process.env.LINKEDIN_API_VERSION || '202405'
+const PAGE_SIZE = 50
+
+export function organizationUrn(id: string) {
+  return `urn:li:organization:${id}`
+}
+
+// `pathAndQuery` is passed through as-is: Rest.li 2.0 syntax such as
+// List(...) and (start:...) must not be percent-encoded, only the values in it
+export async function fetchLinkedIn<T>(pathAndQuery: string, accessToken: string): Promise<T> {
+  const response = await fetch(`${API_BASE}/${pathAndQuery}`, {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'LinkedIn-Version': LINKEDIN_API_VERSION,
+      'X-Restli-Protocol-Version': '2.0.0',
+    }
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    if (response.status === 401) {
+      throw reconnectRequired(`Access token rejected: ${errorData.message || 'unauthorized'}`)
+    }
+    throw new Error(`LinkedIn API error: ${response.status} - ${JSON.stringify(errorData)}`)
+  }
+
+  return response.json()
+}
+
+interface MentionNotification {
+  action: string
+  // The post the organization was mentioned in
+  generatedActivity?: string
+  lastModifiedAt: number
+}
+
+interface LinkedInPost {
+  id: string
+  commentary?: string
+  author: string
+  createdAt: number
+  publishedAt?: number
+}
+
+interface LinkedInMention {
+  notifiedAt: number
+  post: LinkedInPost
+}
+
+export const linkedinConnector: PlatformConnector<LinkedInMention> = {
+  name: 'linkedin',
+  // Mention notifications only carry the post's URN, so each post is
+  // fetched on its own. Notifications go back 60 days at most. Paging is by
+  // offset, so a fetch cut short by MAX_PAGES is resumed with the same end of
+  // the time range and the offset it stopped at.
+  fetchSince: async (account, cursor) => {
+    const accessToken = decryptToken(account.access_token)
+    const { newest: start, since, resume } = parsePageCursor(cursor)
+    const [end, offset] = resume ? resume.split(':').map(Number) : [Date.now(), 0]
+    const items: LinkedInMention[] = []
+    let newest = start
+    let next: number | null = null
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const query = [
+        'q=criteria',
+        'actions=List(SHARE_MENTION)',
+        `organizationalEntity=${encodeURIComponent(organizationUrn(account.account_id))}`,
+        ...(since ? [`timeRange=(start:${new Date(since).getTime()},end:${end})`] : []),
+        `start=${offset + page * PAGE_SIZE}`,
+        `count=${PAGE_SIZE}`,
+      ].join('&')
+
+      const result = await fetchLinkedIn<{ elements: MentionNotification[] }>(
+        `organizationalEntityNotifications?${query}`,
+        accessToken
+      )
+
+      for (const notification of result.elements) {
+        const notifiedAt = new Date(notification.lastModifiedAt).toISOString()
+        if (!notification.generatedActivity || (since && notifiedAt <= since)) continue
+
+        const post = await fetchLinkedIn<LinkedInPost>(`posts/${encodeURIComponent(notification.generatedActivity)}`, accessToken)
+        items.push({ notifiedAt: notification.lastModifiedAt, post })
+        if (!newest || notifiedAt > newest) newest = notifiedAt
+      }
+
+      next = result.elements.length < PAGE_SIZE ? null : offset + (page + 1) * PAGE_SIZE
+      if (next === null) break
+    }
+
+    return { items, cursor: formatPageCursor({ newest, since, resume: next === null ? null : `${end}:${next}` }) }
+  },
+  normalize: ({ post }, account) => {
+    if (!post.commentary?.trim()) return null
+
+    return {
+      user_id: account.user_id,
+      social_account_id: account.id,
+      platform: 'linkedin',
+      external_id: post.id,
+      content: post.commentary,
+      // Member names need extra API access; the post link leads to the author
+      author: post.author.startsWith('urn:li:organization:') ? 'LinkedIn page' : 'LinkedIn member',
+      author_handle: null,
+      post_url: `https://www.linkedin.com/feed/update/${post.id}`,
+      posted_at: new Date(post.publishedAt ?? post.createdAt).toISOString(),
+      engagement_count: 0,
+    }
+  },
+}
@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { FakeSupabase, type Row } from '@/test/supabase'
+import { syncAccount, syncDueAccounts } from './sync'
+import { reconnectRequired } from './tokens'
+import type { IngestResult } from './ingest'
+import type { SocialAccount } from './types'
+
+const mocks = vi.hoisted(() => ({
+  ingestAccount: vi.fn(),
+  searchTrackedQueries: vi.fn(),
+  enqueueAnalysisJob: vi.fn(),
+  markNeedsReconnect: vi.fn(),
+}))
+
+vi.mock('./ingest', () => ({ ingestAccount: mocks.ingestAccount }))
+vi.mock('@/lib/queries/search', () => ({ searchTrackedQueries: mocks.searchTrackedQueries }))
+vi.mock('@/lib/sentiment/jobs', () => ({ enqueueAnalysisJob: mocks.enqueueAnalysisJob }))
+vi.mock('@/lib/oauth/refresh', () => ({
+  withFreshToken: async (_supabase: unknown, account: SocialAccount) => account,
+  markNeedsReconnect: mocks.markNeedsReconnect,
+}))
+
+const NOW = new Date('2024-05-01T12:00:00.000Z').getTime()
+const MINUTE = 60 * 1000
+
+const ingested = (insertedIds: string[], cursor: string | null): IngestResult => ({
+  fetched: insertedIds.length,
+  inserted: insertedIds.length,
+  updated: 0,
+  skipped: 0,
+  duplicates: 0,
+  insertedIds,
+  cursor,
+})
+
+function setup(accounts: Row[]) {
+  const db = new FakeSupabase({
+    social_accounts: accounts.map(account => ({
+      user_id: 'u1',
+      platform: 'twitter',
+      is_active: true,
+      needs_reconnect: false,
+      sync_cursor: null,
+      last_synced_at: null,
+      last_sync_error: null,
+      sync_failures: 0,
+      sync_backoff_until: null,
+      ...account,
+    })),
+  })
+  return { db, accounts: db.tables.social_accounts as SocialAccount[] }
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] })
+  vi.setSystemTime(NOW)
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+  mocks.searchTrackedQueries.mockResolvedValue(ingested([], null))
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.resetAllMocks()
+})
+
+describe('syncAccount', () => {
+  it('moves the cursor forward, clears earlier failures and queues new mentions', async () => {
+    const { db, accounts } = setup([{ id: 'a1', sync_cursor: 'c1', sync_failures: 3, last_sync_error: 'Timeout' }])
+    mocks.ingestAccount.mockResolvedValue(ingested(['m1'], 'c2'))
+    mocks.searchTrackedQueries.mockResolvedValue(ingested(['m2'], null))
+
+    const outcome = await syncAccount(db.client, accounts[0])
+
+    expect(outcome).toMatchObject({ success: true, result: { inserted: 2, insertedIds: ['m1', 'm2'], cursor: 'c2' } })
+    expect(mocks.ingestAccount).toHaveBeenCalledWith(expect.anything(), accounts[0], { cursor: 'c1' })
+    expect(accounts[0]).toMatchObject({
+      sync_cursor: 'c2',
+      last_synced_at: new Date(NOW).toISOString(),
+      last_sync_error: null,
+      sync_failures: 0,
+      sync_backoff_until: null,
+    })
+    expect(mocks.enqueueAnalysisJob).toHaveBeenCalledWith(expect.anything(), 'u1', { mentionIds: ['m1', 'm2'] })
+  })
+
+  it('does not queue analysis when nothing new came in', async () => {
+    const { db, accounts } = setup([{ id: 'a1' }])
+    mocks.ingestAccount.mockResolvedValue(ingested([], 'c1'))
+
+    await syncAccount(db.client, accounts[0])
+
+    expect(mocks.enqueueAnalysisJob).not.toHaveBeenCalled()
+  })
+
+  it.each([
+    { failures: 0, minutes: 5 },
+    { failures: 1, minutes: 10 },
+    { failures: 2, minutes: 20 },
+    { failures: 6, minutes: 320 },
+    { failures: 7, minutes: 360 },
+    { failures: 20, minutes: 360 },
+  ])('backs off for $minutes minutes after $failures earlier failures', async ({ failures, minutes }) => {
+    const { db, accounts } = setup([{ id: 'a1', sync_cursor: 'c1', sync_failures: failures }])
+    mocks.ingestAccount.mockRejectedValue(new Error('Rate limited'))
+
+    expect(await syncAccount(db.client, accounts[0])).toEqual({ accountId: 'a1', success: false, error: 'Rate limited' })
+    expect(accounts[0]).toMatchObject({
+      sync_cursor: 'c1',
+      last_sync_error: 'Rate limited',
+      sync_failures: failures + 1,
+      sync_backoff_until: new Date(NOW + minutes * MINUTE).toISOString(),
+    })
+  })
+
+  it('flags the account for reconnecting instead of backing off', async () => {
+    const { db, accounts } = setup([{ id: 'a1' }])
+    mocks.ingestAccount.mockRejectedValue(reconnectRequired('Token revoked'))
+
+    expect(await syncAccount(db.client, accounts[0])).toMatchObject({ success: false, error: 'Token revoked' })
+    expect(mocks.markNeedsReconnect).toHaveBeenCalledWith(expect.anything(), accounts[0], 'Token revoked')
+    expect(accounts[0]).toMatchObject({ sync_failures: 0, sync_backoff_until: null })
+  })
+})
+
+describe('syncDueAccounts', () => {
+  it('syncs due accounts that are not backing off or waiting to be reconnected, oldest first', async () => {
+    const ago = (minutes: number) => new Date(NOW - minutes * MINUTE).toISOString()
+    const { db } = setup([
+      { id: 'recent', last_synced_at: ago(5) },
+      { id: 'old', last_synced_at: ago(60) },
+      { id: 'never' },
+      { id: 'backing-off', last_synced_at: ago(60), sync_backoff_until: new Date(NOW + MINUTE).toISOString() },
+      { id: 'backed-off', last_synced_at: ago(90), sync_backoff_until: ago(1) },
+      { id: 'revoked', needs_reconnect: true },
+      { id: 'inactive', is_active: false },
+    ])
+    mocks.ingestAccount.mockImplementation(async (_supabase: unknown, account: SocialAccount) => {
+      if (account.id === 'old') throw new Error('Timeout')
+      return ingested([], null)
+    })
+
+    expect(await syncDueAccounts(db.client)).toEqual({ due: 3, synced: 2, failed: 1 })
+    expect(mocks.ingestAccount.mock.calls.map(call => call[1].id)).toEqual(['never', 'backed-off', 'old'])
+  })
+})
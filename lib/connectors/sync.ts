@@ -0,0 +1,127 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { enqueueAnalysisJob } from '@/lib/sentiment/jobs'
+import { markNeedsReconnect, withFreshToken } from '@/lib/oauth/refresh'
+import { searchTrackedQueries } from '@/lib/queries/search'
+import { ingestAccount, type IngestResult } from './ingest'
+import { isReconnectRequired } from './tokens'
+import type { SocialAccount } from './types'
+
+// How often each active account is polled by the scheduler
+export const SYNC_INTERVAL_MS = (Number(process.env.SOCIAL_SYNC_INTERVAL_MINUTES) || 15) * 60 * 1000
+// Backoff after a failed sync: 5m, 10m, 20m... capped at 6h
+const SYNC_RETRY_BASE_MS = 5 * 60 * 1000
+const SYNC_RETRY_MAX_MS = 6 * 60 * 60 * 1000
+// Accounts looked at per scheduler run
+const SYNC_BATCH_SIZE = 20
+
+export type SyncOutcome =
+  | { accountId: string; success: true; result: IngestResult }
+  | { accountId: string; success: false; error: string }
+
+// Fetch everything since the account's stored cursor, then move the cursor
+// forward, and run the user's tracked queries through the platform's search.
+// Failures are recorded on the account and push the next attempt back; they
+// are reported, not thrown. New mentions are queued for analysis.
+export async function syncAccount(supabase: SupabaseClient, account: SocialAccount): Promise<SyncOutcome> {
+  try {
+    // Refresh once up front: platforms that rotate refresh tokens would
+    // reject a second refresh made with the stale row
+    const fresh = await withFreshToken(supabase, account)
+    const ingested = await ingestAccount(supabase, fresh, { cursor: account.sync_cursor })
+    const searched = await searchTrackedQueries(supabase, fresh)
+
+    const result: IngestResult = {
+      ...ingested,
+      inserted: ingested.inserted + searched.inserted,
+      duplicates: ingested.duplicates + searched.duplicates,
+      insertedIds: ingested.insertedIds.concat(searched.insertedIds),
+    }
+
+    const { error } = await supabase
+      .from('social_accounts')
+      .update({
+        sync_cursor: ingested.cursor,
+        last_synced_at: new Date().toISOString(),
+        last_sync_error: null,
+        sync_failures: 0,
+        sync_backoff_until: null,
+      })
+      .eq('id', account.id)
+
+    if (error) {
+      throw error
+    }
+
+    if (result.insertedIds.length > 0) {
+      await enqueueAnalysisJob(supabase, account.user_id, { mentionIds: result.insertedIds })
+    }
+
+    return { accountId: account.id, success: true, result }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Sync failed'
+
+    // Retrying won't help until the user reconnects; the scheduler skips
+    // the account from now on
+    if (isReconnectRequired(error)) {
+      await markNeedsReconnect(supabase, account, message)
+      return { accountId: account.id, success: false, error: message }
+    }
+
+    const failures = account.sync_failures + 1
+    const backoff = Math.min(SYNC_RETRY_BASE_MS * 2 ** (failures - 1), SYNC_RETRY_MAX_MS)
+
+    console.error(`Sync of social account ${account.id} failed:`, error)
+
+    await supabase
+      .from('social_accounts')
+      .update({
+        last_sync_error: message,
+        sync_failures: failures,
+        sync_backoff_until: new Date(Date.now() + backoff).toISOString(),
+      })
+      .eq('id', account.id)
+
+    return { accountId: account.id, success: false, error: message }
+  }
+}
+
+// Scheduler loop: sync active accounts that are due (never synced, or last
+// synced more than SYNC_INTERVAL_MS ago), not backing off and not waiting
+// to be reconnected, oldest first,
+// until the time budget runs out. Overlapping runs are harmless since
+// ingestion upserts on the platform post id.
+export async function syncDueAccounts(
+  admin: SupabaseClient,
+  { timeBudgetMs = 50_000 }: { timeBudgetMs?: number } = {}
+) {
+  const deadline = Date.now() + timeBudgetMs
+  const now = new Date().toISOString()
+  const dueBefore = new Date(Date.now() - SYNC_INTERVAL_MS).toISOString()
+
+  const { data: accounts, error } = await admin
+    .from('social_accounts')
+    .select('*')
+    .eq('is_active', true)
+    .eq('needs_reconnect', false)
+    .or(`last_synced_at.is.null,last_synced_at.lt.${dueBefore}`)
+    .or(`sync_backoff_until.is.null,sync_backoff_until.lt.${now}`)
+    .order('last_synced_at', { ascending: true, nullsFirst: true })
+    .limit(SYNC_BATCH_SIZE)
+
+  if (error) {
+    throw error
+  }
+
+  const outcomes: SyncOutcome[] = []
+
+  for (const account of (accounts || []) as SocialAccount[]) {
+    if (Date.now() >= deadline) break
+    outcomes.push(await syncAccount(admin, account))
+  }
+
+  return {
+    due: accounts?.length || 0,
+    synced: outcomes.filter(o => o.success).length,
+    failed: outcomes.filter(o => !o.success).length,
+  }
+}
@@ -0,0 +1,67 @@
+import { randomBytes } from 'crypto'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { EncryptedToken } from '@/supabase'
+import { decryptToken, encryptToken, isReconnectRequired, reconnectRequired } from './tokens'
+
+const KEY = randomBytes(32).toString('base64')
+
+describe('encryptToken / decryptToken', () => {
+  beforeEach(() => {
+    vi.stubEnv('TOKEN_ENCRYPTION_KEY', KEY)
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('round-trips a token', () => {
+    const encrypted = encryptToken('EAAB-secret-token')
+
+    expect(encrypted).toMatch(/^v1:[\w+/=]+:[\w+/=]+:[\w+/=]+$/)
+    expect(encrypted).not.toContain('EAAB-secret-token')
+    expect(decryptToken(encrypted)).toBe('EAAB-secret-token')
+  })
+
+  it('uses a fresh IV every time', () => {
+    const first = encryptToken('same token')
+    const second = encryptToken('same token')
+
+    expect(first).not.toBe(second)
+    expect(decryptToken(first)).toBe(decryptToken(second))
+  })
+
+  it('refuses a token that was tampered with', () => {
+    const [prefix, iv, tag, ciphertext] = encryptToken('EAAB-secret-token').split(':')
+    const flipped = Buffer.from(ciphertext, 'base64')
+    flipped[0] ^= 1
+
+    expect(() => decryptToken([prefix, iv, tag, flipped.toString('base64')].join(':') as EncryptedToken)).toThrow()
+  })
+
+  it('refuses a token encrypted with another key', () => {
+    const encrypted = encryptToken('EAAB-secret-token')
+    vi.stubEnv('TOKEN_ENCRYPTION_KEY', randomBytes(32).toString('base64'))
+
+    expect(() => decryptToken(encrypted)).toThrow()
+  })
+
+  it('passes tokens saved before encryption through unchanged', () => {
+    expect(decryptToken('legacy-plain-token' as EncryptedToken)).toBe('legacy-plain-token')
+  })
+
+  it('requires a 32-byte key', () => {
+    vi.stubEnv('TOKEN_ENCRYPTION_KEY', randomBytes(16).toString('base64'))
+    expect(() => encryptToken('token')).toThrow('TOKEN_ENCRYPTION_KEY must be a base64-encoded 32-byte key')
+
+    vi.stubEnv('TOKEN_ENCRYPTION_KEY', '')
+    expect(() => encryptToken('token')).toThrow('TOKEN_ENCRYPTION_KEY must be a base64-encoded 32-byte key')
+  })
+})
+
+describe('reconnectRequired', () => {
+  it('is told apart from other errors', () => {
+    expect(isReconnectRequired(reconnectRequired('Token revoked'))).toBe(true)
+    expect(isReconnectRequired(new Error('Token revoked'))).toBe(false)
+    expect(isReconnectRequired('Token revoked')).toBe(false)
+  })
+})
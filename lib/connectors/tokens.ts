@@ -0,0 +1,50 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto'
+import type { EncryptedToken } from '@/supabase'
+
+// Platform tokens are stored AES-256-GCM encrypted as
+// `v1:<iv>:<auth tag>:<ciphertext>`, all base64
+const TOKEN_PREFIX = 'v1:'
+
+function encryptionKey() {
+  const key = Buffer.from(process.env.TOKEN_ENCRYPTION_KEY || '', 'base64')
+
+  if (key.length !== 32) {
+    throw new Error('TOKEN_ENCRYPTION_KEY must be a base64-encoded 32-byte key')
+  }
+
+  return key
+}
+
+export function encryptToken(token: string): EncryptedToken {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv('aes-256-gcm', encryptionKey(), iv)
+  const ciphertext = Buffer.concat([cipher.update(token, 'utf8'), cipher.final()])
+
+  return `${TOKEN_PREFIX}${[iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join(':')}` as EncryptedToken
+}
+
+// Tokens saved before encryption was introduced are plain strings; they are
+// returned as-is and get encrypted the next time the account reconnects
+export function decryptToken(stored: EncryptedToken): string {
+  if (!stored.startsWith(TOKEN_PREFIX)) {
+    return stored
+  }
+
+  const [iv, tag, ciphertext] = stored.slice(TOKEN_PREFIX.length).split(':').map(part => Buffer.from(part, 'base64'))
+  const decipher = createDecipheriv('aes-256-gcm', encryptionKey(), iv)
+  decipher.setAuthTag(tag)
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8')
+}
+
+// Thrown when an account's token can't be used or renewed any more; only the
+// user can fix it by connecting the account again
+export function reconnectRequired(message: string) {
+  const error = new Error(message)
+  error.name = 'ReconnectRequiredError'
+  return error
+}
+
+export function isReconnectRequired(error: unknown) {
+  return error instanceof Error && error.name === 'ReconnectRequiredError'
+}
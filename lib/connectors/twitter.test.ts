@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { parseQuery } from '@/lib/queries/expression'
+import { parsePageCursor } from './cursor'
+import { MAX_PAGES } from './graph'
+import { isReconnectRequired } from './tokens'
+import { twitterConnector } from './twitter'
+import type { SocialAccount } from './types'
+
+const NOW = new Date('2024-05-10T12:00:00.000Z').getTime()
+
+// Tokens saved before encryption pass through decryptToken as they are
+const account = { id: 'a1', user_id: 'u1', account_id: '42', access_token: 'token' } as SocialAccount
+
+const tweet = (id: string, createdAt: string) => ({ id, text: `Tweet ${id}`, author_id: '7', created_at: createdAt })
+
+// Answer each request with the next page; every request's query is recorded
+function stubPages(...pages: { data?: ReturnType<typeof tweet>[]; next_token?: string }[]) {
+  const params: Record<string, string>[] = []
+  const fetch = vi.fn(async (url: string) => {
+    const parsed = new URL(url)
+    const query: Record<string, string> = { path: parsed.pathname }
+    parsed.searchParams.forEach((value, key) => {
+      query[key] = value
+    })
+    params.push(query)
+    const page = pages.shift()
+    if (!page) throw new Error('Unexpected Twitter request')
+    return new Response(JSON.stringify({
+      data: page.data,
+      includes: { users: [{ id: '7', name: 'Jane', username: 'jane' }] },
+      meta: { next_token: page.next_token },
+    }), { status: 200 })
+  })
+  vi.stubGlobal('fetch', fetch)
+  return params
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] })
+  vi.setSystemTime(NOW)
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.unstubAllGlobals()
+})
+
+describe('twitterConnector.fetchSince', () => {
+  it('returns mentions newer than the cursor and moves it to the newest one', async () => {
+    const params = stubPages({
+      data: [
+        tweet('3', '2024-05-10T09:00:00.000Z'),
+        tweet('2', '2024-05-10T08:00:00.000Z'),
+        tweet('1', '2024-05-10T07:00:00.000Z'),
+      ],
+    })
+
+    const result = await twitterConnector.fetchSince(account, '2024-05-10T08:00:00.000Z')
+
+    expect(result.items.map(item => item.id)).toEqual(['3'])
+    expect(result.items[0].author).toEqual({ id: '7', name: 'Jane', username: 'jane' })
+    expect(result.cursor).toBe('2024-05-10T09:00:00.000Z')
+    expect(params[0]).toMatchObject({ path: '/2/users/42/mentions', start_time: '2024-05-10T08:00:00Z', max_results: '100' })
+  })
+
+  it('keeps the cursor when nothing new came in', async () => {
+    stubPages({})
+
+    expect(await twitterConnector.fetchSince(account, '2024-05-10T08:00:00.000Z')).toEqual({
+      items: [],
+      cursor: '2024-05-10T08:00:00.000Z',
+    })
+  })
+
+  it('resumes below the oldest tweet read when the page limit cuts a fetch short', async () => {
+    const since = '2024-05-01T00:00:00.000Z'
+    const pages = Array.from({ length: MAX_PAGES }, (_, i) => ({
+      data: [tweet(String(100 - i), new Date(NOW - (i + 1) * 60_000).toISOString())],
+      next_token: `page-${i + 1}`,
+    }))
+    const params = stubPages(...pages)
+
+    const first = await twitterConnector.fetchSince(account, since)
+
+    expect(first.items).toHaveLength(MAX_PAGES)
+    expect(params[1].pagination_token).toBe('page-1')
+    expect(parsePageCursor(first.cursor)).toEqual({
+      newest: new Date(NOW - 60_000).toISOString(),
+      since,
+      resume: String(100 - MAX_PAGES + 1),
+    })
+
+    const rest = stubPages({ data: [tweet('80', '2024-05-02T00:00:00.000Z'), tweet('79', '2024-04-30T00:00:00.000Z')] })
+    const second = await twitterConnector.fetchSince(account, first.cursor)
+
+    expect(rest[0]).toMatchObject({ until_id: String(100 - MAX_PAGES + 1), start_time: '2024-05-01T00:00:00Z' })
+    expect(second.items.map(item => item.id)).toEqual(['80'])
+    expect(second.cursor).toBe(new Date(NOW - 60_000).toISOString())
+  })
+
+  it('asks for a reconnect when the token is rejected', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ title: 'Unauthorized' }), { status: 401 })))
+
+    const error = await twitterConnector.fetchSince(account, null).catch(e => e)
+
+    expect(isReconnectRequired(error)).toBe(true)
+    expect(error.message).toBe('Access token rejected: Unauthorized')
+  })
+})
+
+describe('twitterConnector.search', () => {
+  it('leaves out retweets and stays inside the recent search window', async () => {
+    const params = stubPages({})
+
+    await twitterConnector.search!(account, parseQuery('acme OR "acme corp"'), '2024-04-01T00:00:00.000Z')
+
+    expect(params[0].path).toBe('/2/tweets/search/recent')
+    expect(params[0].query).toMatch(/^\(.*acme.*\) -is:retweet$/)
+    expect(params[0].start_time).toBe('2024-05-03T12:01:00Z')
+  })
+})
+
+describe('twitterConnector.normalize', () => {
+  it('maps a tweet onto a mention', () => {
+    expect(twitterConnector.normalize({
+      ...tweet('3', '2024-05-10T09:00:00.000Z'),
+      author: { id: '7', name: 'Jane', username: 'jane' },
+      public_metrics: { like_count: 5, retweet_count: 2, reply_count: 1, quote_count: 1 },
+      referenced_tweets: [{ type: 'quoted', id: '1' }, { type: 'replied_to', id: '2' }],
+    }, account)).toEqual({
+      user_id: 'u1',
+      social_account_id: 'a1',
+      platform: 'twitter',
+      external_id: '3',
+      content: 'Tweet 3',
+      author: 'Jane',
+      author_handle: '@jane',
+      post_url: 'https://x.com/jane/status/3',
+      posted_at: '2024-05-10T09:00:00.000Z',
+      engagement_count: 9,
+      parent_external_id: '2',
+    })
+  })
+
+  it('copes with a missing author and skips empty tweets', () => {
+    expect(twitterConnector.normalize(tweet('3', '2024-05-10T09:00:00.000Z'), account)).toMatchObject({
+      author: 'X user',
+      author_handle: null,
+      post_url: 'https://x.com/i/status/3',
+      engagement_count: 0,
+      parent_external_id: null,
+    })
+    expect(twitterConnector.normalize({ ...tweet('3', '2024-05-10T09:00:00.000Z'), text: '  ' }, account)).toBeNull()
+  })
+})
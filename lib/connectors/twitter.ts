@@ -0,0 +1,143 @@
+import { toTwitterQuery } from '@/lib/queries/expression'
+import { formatPageCursor, parsePageCursor } from './cursor'
+import { MAX_PAGES } from './graph'
+import { decryptToken, reconnectRequired } from './tokens'
+import type { PlatformConnector } from './types'
+
+const API_BASE = 'https://api.twitter.com/2'
+
+export async function fetchTwitter<T>(path: string, params: Record<string, string>, accessToken: string): Promise<T> {
+  const url = new URL(`${API_BASE}/${path}`)
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value)
+  }
+
+  const response = await fetch(url.toString(), {
+    headers: { Authorization: `Bearer ${accessToken}` }
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    if (response.status === 401) {
+      throw reconnectRequired(`Access token rejected: ${errorData.detail || errorData.title || 'unauthorized'}`)
+    }
+    throw new Error(`Twitter API error: ${response.status} - ${JSON.stringify(errorData)}`)
+  }
+
+  return response.json()
+}
+
+interface TwitterUser {
+  id: string
+  name: string
+  username: string
+}
+
+// Tweets that @mention the account, with the author expanded in
+interface TwitterMention {
+  id: string
+  text: string
+  author_id: string
+  created_at: string
+  public_metrics?: { retweet_count: number; reply_count: number; like_count: number; quote_count: number }
+  referenced_tweets?: { type: 'replied_to' | 'quoted' | 'retweeted'; id: string }[]
+  author?: TwitterUser
+}
+
+interface MentionsPage {
+  data?: Omit<TwitterMention, 'author'>[]
+  includes?: { users?: TwitterUser[] }
+  meta: { next_token?: string }
+}
+
+// Recent search only reaches back this far
+const SEARCH_WINDOW_MS = 7 * 24 * 60 * 60 * 1000
+
+// Page through a tweet timeline newer than `cursor`, newest first. start_time
+// narrows it to the cursor's second and the exact comparison drops what was
+// already seen. A fetch cut short by MAX_PAGES continues below the oldest
+// tweet it read (until_id) next time.
+async function fetchTweetsSince(
+  path: string,
+  params: Record<string, string>,
+  accessToken: string,
+  cursor: string | null,
+  startTime?: string | null
+) {
+  const { newest: start, since, resume: untilId } = parsePageCursor(cursor)
+  const from = startTime === undefined ? since : startTime
+  const items: TwitterMention[] = []
+  let newest = start
+  let oldestId = untilId
+  let nextToken: string | undefined
+
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const result = await fetchTwitter<MentionsPage>(
+      path,
+      {
+        ...params,
+        max_results: '100',
+        'tweet.fields': 'created_at,public_metrics,author_id,referenced_tweets',
+        expansions: 'author_id',
+        'user.fields': 'name,username',
+        ...(from && { start_time: from.replace(/\.\d+Z$/, 'Z') }),
+        ...(untilId && { until_id: untilId }),
+        ...(nextToken && { pagination_token: nextToken }),
+      },
+      accessToken
+    )
+
+    const users = new Map((result.includes?.users || []).map(user => [user.id, user]))
+
+    for (const tweet of result.data || []) {
+      const postedAt = new Date(tweet.created_at).toISOString()
+      oldestId = tweet.id
+      if (since && postedAt <= since) continue
+      items.push({ ...tweet, author: users.get(tweet.author_id) })
+      if (!newest || postedAt > newest) newest = postedAt
+    }
+
+    nextToken = result.meta.next_token
+    if (!nextToken) break
+  }
+
+  return { items, cursor: formatPageCursor({ newest, since, resume: nextToken ? oldestId : null }) }
+}
+
+export const twitterConnector: PlatformConnector<TwitterMention> = {
+  name: 'twitter',
+  fetchSince: (account, cursor) =>
+    fetchTweetsSince(`users/${account.account_id}/mentions`, {}, decryptToken(account.access_token), cursor),
+  // Retweets only repeat the original's text
+  search: (account, query, cursor) => {
+    const windowStart = new Date(Date.now() - SEARCH_WINDOW_MS + 60_000).toISOString()
+    const { since } = parsePageCursor(cursor)
+    return fetchTweetsSince(
+      'tweets/search/recent',
+      { query: `(${toTwitterQuery(query)}) -is:retweet` },
+      decryptToken(account.access_token),
+      cursor,
+      since && since > windowStart ? since : windowStart
+    )
+  },
+  normalize: (tweet, account) => {
+    if (!tweet.text.trim()) return null
+
+    const metrics = tweet.public_metrics
+    return {
+      user_id: account.user_id,
+      social_account_id: account.id,
+      platform: 'twitter',
+      external_id: tweet.id,
+      content: tweet.text,
+      author: tweet.author?.name || 'X user',
+      author_handle: tweet.author ? `@${tweet.author.username}` : null,
+      post_url: `https://x.com/${tweet.author?.username || 'i'}/status/${tweet.id}`,
+      posted_at: new Date(tweet.created_at).toISOString(),
+      engagement_count: metrics
+        ? metrics.like_count + metrics.retweet_count + metrics.reply_count + metrics.quote_count
+        : 0,
+      parent_external_id: tweet.referenced_tweets?.find(ref => ref.type === 'replied_to')?.id ?? null,
+    }
+  },
+}
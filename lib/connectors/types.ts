@@ -0,0 +1,47 @@
+import type { QueryNode } from '@/lib/queries/expression'
+import type { Database } from '@/supabase'
+
+export type SocialAccount = Database['public']['Tables']['social_accounts']['Row']
+export type SocialPlatform = SocialAccount['platform']
+export type MentionInsert = Database['public']['Tables']['mentions']['Insert']
+
+export interface FetchResult<T> {
+  items: T[]
+  // Pass back on the next fetch to only get what is newer; null when nothing was seen yet
+  cursor: string | null
+}
+
+// A platform item referenced by a webhook delivery, addressed to one of the
+// platform's accounts (the `account_id` of matching social_accounts rows)
+export interface WebhookEvent {
+  accountId: string
+  itemId: string
+}
+
+// Real-time delivery for platforms that push events. Payloads usually carry
+// only ids, so items are fetched with the receiving account's token.
+export interface WebhookHandler<T> {
+  // Check the delivery was signed by the platform
+  verifySignature(rawBody: string, headers: Headers): boolean
+  // Subscription handshake: the body to echo back, or null to reject
+  verifyHandshake(params: URLSearchParams): string | null
+  parseEvents(payload: unknown): WebhookEvent[]
+  fetchItem(account: SocialAccount, itemId: string): Promise<T | null>
+}
+
+// Pulls mentions of one connected account from a platform API. Connectors
+// return raw platform items and turn them into `mentions` rows separately,
+// so fetching and storage stay independent of each other.
+export interface PlatformConnector<T = unknown> {
+  name: string
+  // Items posted after `cursor` (or the most recent ones when it is null)
+  fetchSince(account: SocialAccount, cursor: string | null): Promise<FetchResult<T>>
+  // null for items that can't become a mention, e.g. posts without text
+  normalize(item: T, account: SocialAccount): MentionInsert | null
+  webhook?: WebhookHandler<T>
+  // Public posts matching a tracked query, found with the account's token.
+  // May return items the expression doesn't match; callers re-check.
+  search?(account: SocialAccount, query: QueryNode, cursor: string | null): Promise<FetchResult<T>>
+}
+
+export type ConnectorName = SocialPlatform | 'fake'
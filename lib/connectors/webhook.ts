@@ -0,0 +1,87 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { markNeedsReconnect, withFreshToken } from '@/lib/oauth/refresh'
+import { enqueueAnalysisJob } from '@/lib/sentiment/jobs'
+import { storeItems } from './ingest'
+import { isReconnectRequired } from './tokens'
+import type { PlatformConnector, SocialAccount, SocialPlatform } from './types'
+
+export interface WebhookResult {
+  events: number
+  // social_accounts rows the events were delivered to
+  accounts: number
+  inserted: number
+  duplicates: number
+  // Whether any new mentions were queued for analysis
+  queued: boolean
+}
+
+// Store the mentions referenced by a verified webhook payload. The same
+// platform account can be connected by several users, so every active
+// social_accounts row for it gets its own copy, owned by that row's user.
+// New, non-duplicate mentions are queued for analysis. Polling keeps running
+// alongside and simply refreshes whatever arrived here first.
+export async function receiveWebhook<T>(
+  admin: SupabaseClient,
+  platform: SocialPlatform,
+  connector: PlatformConnector<T>,
+  payload: unknown
+): Promise<WebhookResult> {
+  const webhook = connector.webhook
+
+  if (!webhook) {
+    throw new Error(`Connector ${connector.name} does not take webhooks`)
+  }
+
+  const events = webhook.parseEvents(payload)
+  const result: WebhookResult = { events: events.length, accounts: 0, inserted: 0, duplicates: 0, queued: false }
+
+  if (events.length === 0) {
+    return result
+  }
+
+  const { data: accounts, error } = await admin
+    .from('social_accounts')
+    .select('*')
+    .eq('platform', platform)
+    .eq('is_active', true)
+    .eq('needs_reconnect', false)
+    .in('account_id', Array.from(new Set(events.map(event => event.accountId))))
+
+  if (error) {
+    throw error
+  }
+
+  for (const account of (accounts || []) as SocialAccount[]) {
+    const itemIds = Array.from(new Set(
+      events.filter(event => event.accountId === account.account_id).map(event => event.itemId)
+    ))
+
+    const items: T[] = []
+    try {
+      const fresh = await withFreshToken(admin, account)
+      for (const itemId of itemIds) {
+        const item = await webhook.fetchItem(fresh, itemId)
+        if (item) items.push(item)
+      }
+    } catch (error) {
+      // A redelivery wouldn't succeed either; the account is flagged for the
+      // user and the other accounts still get their mentions
+      if (!isReconnectRequired(error)) throw error
+      await markNeedsReconnect(admin, account, (error as Error).message)
+      continue
+    }
+
+    const stored = await storeItems(admin, account, connector, items)
+
+    if (stored.insertedIds.length > 0) {
+      await enqueueAnalysisJob(admin, account.user_id, { mentionIds: stored.insertedIds })
+      result.queued = true
+    }
+
+    result.accounts++
+    result.inserted += stored.inserted
+    result.duplicates += stored.duplicates
+  }
+
+  return result
+}
@@ -0,0 +1,176 @@
+import { createHash } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { contentFingerprint, markNearDuplicates } from '@/lib/connectors/dedupe'
+import type { MentionInsert, SocialAccount } from '@/lib/connectors/types'
+import { matchTrackedQueries } from '@/lib/queries'
+import { enqueueAnalysisJob } from '@/lib/sentiment/jobs'
+import { columnMappingSchema, mapRecord, type ColumnMapping } from './mapping'
+import type { ParsedFile, RecordError } from './parse'
+
+export * from './mapping'
+export * from './parse'
+
+// Upload limits per request; bigger exports can be split into several files
+export const MAX_IMPORT_BYTES = 10 * 1024 * 1024
+export const MAX_IMPORT_RECORDS = 20_000
+// Row errors sent back; the counts still cover every row
+const MAX_REPORTED_ERRORS = 200
+// Rows written, or external ids looked up, per request to the database
+const CHUNK_SIZE = 500
+
+export const importOptionsSchema = z.object({
+  format: z.enum(['csv', 'ndjson']),
+  mapping: columnMappingSchema,
+  analyze: z.boolean().default(false),
+  dryRun: z.boolean().default(false),
+})
+
+export interface ImportResult {
+  // Records read from the file, readable or not
+  total: number
+  imported: number
+  // Rows already stored for the account, or repeated within the file
+  duplicates: number
+  // Imported mentions recognized as reposts of earlier ones
+  nearDuplicates: number
+  invalid: number
+  errors: RecordError[]
+  // Analysis job queued for the imported mentions
+  jobId: string | null
+  dryRun: boolean
+}
+
+// Columns the mapping points at that the file doesn't have
+export function missingColumns(mapping: ColumnMapping, columns: string[]) {
+  return Object.values(mapping).filter((column): column is string => !!column && !columns.includes(column))
+}
+
+// Exports without post ids get a stable one from the post itself, so importing
+// the same file twice doesn't store everything twice
+function importedId(row: { author?: string; posted_at: string; content: string }) {
+  const digest = createHash('sha256').update(`${row.author ?? ''}\n${row.posted_at}\n${row.content}`).digest('hex')
+  return `import:${digest.slice(0, 24)}`
+}
+
+async function findExisting(supabase: SupabaseClient, account: SocialAccount, externalIds: string[]) {
+  const existing = new Set<string>()
+
+  for (let i = 0; i < externalIds.length; i += CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('mentions')
+      .select('external_id')
+      .eq('social_account_id', account.id)
+      .in('external_id', externalIds.slice(i, i + CHUNK_SIZE))
+
+    if (error) {
+      throw error
+    }
+
+    for (const row of (data || []) as { external_id: string }[]) {
+      existing.add(row.external_id)
+    }
+  }
+
+  return existing
+}
+
+// Store the records of a parsed export as mentions of `account`. Rows that
+// fail validation are reported with their line and left out; the rest are
+// inserted unless the account already has them. Existing mentions are never
+// overwritten. With `analyze`, the new mentions are queued for analysis,
+// which also brings them into sentiment_analytics for the days they were posted.
+export async function importMentions(
+  supabase: SupabaseClient,
+  account: SocialAccount,
+  file: ParsedFile,
+  options: z.infer<typeof importOptionsSchema>
+): Promise<ImportResult> {
+  const errors: RecordError[] = [...file.errors]
+  const rows: MentionInsert[] = []
+  const seen = new Set<string>()
+  let duplicates = 0
+
+  for (const record of file.records) {
+    const mapped = mapRecord(record, options.mapping)
+
+    if (mapped.errors) {
+      errors.push({ line: record.line, errors: mapped.errors })
+      continue
+    }
+
+    const { row } = mapped
+    const externalId = row.external_id ?? importedId(row)
+
+    if (seen.has(externalId)) {
+      duplicates++
+      continue
+    }
+    seen.add(externalId)
+
+    rows.push({
+      user_id: account.user_id,
+      social_account_id: account.id,
+      platform: account.platform,
+      external_id: externalId,
+      content: row.content,
+      author: row.author ?? row.author_handle ?? 'Unknown',
+      author_handle: row.author_handle ?? null,
+      post_url: row.post_url ?? null,
+      posted_at: row.posted_at,
+      engagement_count: row.engagement_count ?? 0,
+      language: row.language ?? null,
+      parent_external_id: row.parent_external_id ?? null,
+      content_hash: contentFingerprint(row.content),
+    })
+  }
+
+  const existing = await findExisting(supabase, account, Array.from(seen))
+  const fresh = rows.filter(row => !existing.has(row.external_id!))
+  duplicates += rows.length - fresh.length
+
+  const result: ImportResult = {
+    total: file.records.length + file.errors.length,
+    imported: fresh.length,
+    duplicates,
+    nearDuplicates: 0,
+    invalid: errors.length,
+    errors: errors.sort((a, b) => a.line - b.line).slice(0, MAX_REPORTED_ERRORS),
+    jobId: null,
+    dryRun: options.dryRun,
+  }
+
+  if (options.dryRun || fresh.length === 0) {
+    return result
+  }
+
+  const inserted: { id: string; content: string; content_hash: string | null; posted_at: string; duplicate_of: string | null }[] = []
+
+  for (let i = 0; i < fresh.length; i += CHUNK_SIZE) {
+    // A concurrent import or sync may have stored some of these meanwhile
+    const { data, error } = await supabase
+      .from('mentions')
+      .upsert(fresh.slice(i, i + CHUNK_SIZE), { onConflict: 'social_account_id,external_id', ignoreDuplicates: true })
+      .select('id, content, content_hash, posted_at, duplicate_of')
+
+    if (error) {
+      throw error
+    }
+
+    inserted.push(...(data || []))
+  }
+
+  result.imported = inserted.length
+  result.duplicates += fresh.length - inserted.length
+  result.nearDuplicates = await markNearDuplicates(supabase, account.user_id, inserted)
+  await matchTrackedQueries(supabase, account.user_id, inserted)
+
+  if (options.analyze) {
+    const job = await enqueueAnalysisJob(supabase, account.user_id, {
+      mentionIds: inserted.filter(row => !row.duplicate_of).map(row => row.id)
+    })
+    result.jobId = job?.id ?? null
+  }
+
+  return result
+}
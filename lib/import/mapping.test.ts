@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest'
+import { columnMappingSchema, guessMapping, mapRecord } from './mapping'
+
+describe('guessMapping', () => {
+  it('recognizes column names other tools use', () => {
+    expect(guessMapping(['Full Text', 'Created At', 'User', 'screen-name', 'Tweet ID', 'in_reply_to_status_id', 'Likes', 'lang', 'Sentiment'])).toEqual({
+      content: 'Full Text',
+      posted_at: 'Created At',
+      author: 'User',
+      author_handle: 'screen-name',
+      external_id: 'Tweet ID',
+      parent_external_id: 'in_reply_to_status_id',
+      engagement_count: 'Likes',
+      language: 'lang',
+    })
+  })
+
+  it('prefers the more specific alias', () => {
+    expect(guessMapping(['text', 'content', 'date', 'published_at'])).toEqual({
+      content: 'content',
+      posted_at: 'published_at',
+    })
+  })
+
+  it('uses each column only once', () => {
+    expect(guessMapping(['username'])).toEqual({ author: 'username' })
+    expect(guessMapping(['username', 'handle'])).toEqual({ author: 'username', author_handle: 'handle' })
+  })
+})
+
+describe('columnMappingSchema', () => {
+  it('requires content and posted_at', () => {
+    const result = columnMappingSchema.safeParse({ content: 'text', posted_at: '' })
+
+    expect(result.success).toBe(false)
+    expect(result.error?.issues.map(issue => issue.message)).toEqual(['posted_at must be mapped to a column'])
+  })
+})
+
+describe('mapRecord', () => {
+  const mapping = {
+    content: 'text',
+    posted_at: 'date',
+    post_url: 'url',
+    engagement_count: 'likes',
+    language: 'lang',
+  }
+
+  const record = (fields: Record<string, unknown>) => ({ line: 2, fields })
+
+  it('validates and normalizes the mapped columns', () => {
+    expect(mapRecord(record({ text: '  Love it ', date: '2024-05-01T12:00:00+02:00', likes: 12, lang: 'LV', url: '', extra: 'x' }), mapping)).toEqual({
+      row: {
+        content: 'Love it',
+        posted_at: '2024-05-01T10:00:00.000Z',
+        engagement_count: 12,
+        language: 'lv',
+      },
+    })
+  })
+
+  it('reads Unix timestamps in seconds and milliseconds', () => {
+    expect(mapRecord(record({ text: 'Love it', date: '1714557600' }), mapping).row?.posted_at).toBe('2024-05-01T10:00:00.000Z')
+    expect(mapRecord(record({ text: 'Love it', date: 1714557600000 }), mapping).row?.posted_at).toBe('2024-05-01T10:00:00.000Z')
+  })
+
+  it('reports missing and empty required columns', () => {
+    expect(mapRecord(record({ text: '   ', date: null }), mapping)).toEqual({
+      errors: ['content is missing', 'posted_at is missing'],
+    })
+  })
+
+  it('reports every invalid value', () => {
+    expect(mapRecord(record({ text: 'Love it', date: 'yesterday', url: 'not a url', likes: '1.5', lang: 'latvian' }), mapping)).toEqual({
+      errors: [
+        'posted_at "yesterday" is not a date',
+        'post_url is not a URL',
+        'engagement_count is not a whole number',
+        'language must be a two-letter ISO 639-1 code',
+      ],
+    })
+  })
+
+  it('rejects dates in the future and negative or non-numeric engagement', () => {
+    const future = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString()
+
+    expect(mapRecord(record({ text: 'Love it', date: future }), mapping).errors).toEqual(['posted_at is in the future'])
+    expect(mapRecord(record({ text: 'Love it', date: '2024-05-01', likes: '-1' }), mapping).errors).toEqual(['engagement_count is negative'])
+    expect(mapRecord(record({ text: 'Love it', date: '2024-05-01', likes: 'many' }), mapping).errors).toEqual(['engagement_count is not a number'])
+  })
+
+  it('rejects nested values', () => {
+    expect(mapRecord(record({ text: { en: 'Love it' }, date: '2024-05-01' }), mapping)).toEqual({
+      errors: ['content column "text" holds a nested value'],
+    })
+  })
+})
@@ -0,0 +1,143 @@
+import { z } from 'zod'
+import type { SourceRecord } from './parse'
+
+// `mentions` columns an export can fill in. Sentiment is never taken from the
+// file: imported mentions go through the same analysis as everything else.
+export const IMPORT_FIELDS = [
+  'content',
+  'posted_at',
+  'author',
+  'author_handle',
+  'post_url',
+  'external_id',
+  'parent_external_id',
+  'engagement_count',
+  'language',
+] as const
+
+export type ImportField = typeof IMPORT_FIELDS[number]
+
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = ['content', 'posted_at']
+
+// Target field -> source column
+export type ColumnMapping = Partial<Record<ImportField, string>>
+
+export const columnMappingSchema = z.object({
+  content: z.string().min(1, 'content must be mapped to a column'),
+  posted_at: z.string().min(1, 'posted_at must be mapped to a column'),
+  author: z.string().min(1).optional(),
+  author_handle: z.string().min(1).optional(),
+  post_url: z.string().min(1).optional(),
+  external_id: z.string().min(1).optional(),
+  parent_external_id: z.string().min(1).optional(),
+  engagement_count: z.string().min(1).optional(),
+  language: z.string().min(1).optional(),
+})
+
+// Column names other listening tools commonly use, most specific first
+const COLUMN_ALIASES: Record<ImportField, string[]> = {
+  content: ['content', 'text', 'full_text', 'message', 'body', 'snippet', 'post'],
+  posted_at: ['posted_at', 'published_at', 'created_at', 'date', 'published', 'timestamp', 'time'],
+  author: ['author', 'author_name', 'user_name', 'name', 'user', 'username'],
+  author_handle: ['author_handle', 'handle', 'screen_name', 'username'],
+  post_url: ['post_url', 'url', 'link', 'permalink'],
+  external_id: ['external_id', 'post_id', 'tweet_id', 'id'],
+  parent_external_id: ['parent_external_id', 'in_reply_to_status_id', 'in_reply_to_id', 'in_reply_to', 'parent_id', 'reply_to'],
+  engagement_count: ['engagement_count', 'engagement', 'engagements', 'interactions', 'likes'],
+  language: ['language', 'lang'],
+}
+
+const normalizeColumn = (column: string) => column.trim().toLowerCase().replace(/[\s-]+/g, '_')
+
+// Best guess at a mapping from the file's column names; each column is used once
+export function guessMapping(columns: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {}
+  const used = new Set<string>()
+
+  for (const field of IMPORT_FIELDS) {
+    for (const alias of COLUMN_ALIASES[field]) {
+      const column = columns.find(c => normalizeColumn(c) === alias && !used.has(c))
+      if (column) {
+        mapping[field] = column
+        used.add(column)
+        break
+      }
+    }
+  }
+
+  return mapping
+}
+
+const optionalText = (max: number) => z.string().trim().max(max).optional()
+
+const importRowSchema = z.object({
+  content: z.string().trim().min(1, 'content is empty').max(10000, 'content is longer than 10000 characters'),
+  posted_at: z.string().trim().transform((value, ctx) => {
+    // Bare numbers are Unix timestamps, in seconds or milliseconds
+    const date = /^\d{9,13}$/.test(value)
+      ? new Date(Number(value) * (value.length > 10 ? 1 : 1000))
+      : new Date(value)
+
+    if (isNaN(date.getTime())) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `posted_at "${value}" is not a date` })
+      return z.NEVER
+    }
+    if (date.getTime() > Date.now()) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'posted_at is in the future' })
+      return z.NEVER
+    }
+    return date.toISOString()
+  }),
+  author: optionalText(200),
+  author_handle: optionalText(200),
+  post_url: z.string().trim().url('post_url is not a URL').optional(),
+  external_id: optionalText(200),
+  // Platform id of the post this one replies to
+  parent_external_id: optionalText(200),
+  engagement_count: z.coerce.number({ invalid_type_error: 'engagement_count is not a number' })
+    .int('engagement_count is not a whole number')
+    .min(0, 'engagement_count is negative')
+    .optional(),
+  language: z.string().trim().regex(/^[a-z]{2}$/i, 'language must be a two-letter ISO 639-1 code')
+    .transform(value => value.toLowerCase())
+    .optional(),
+})
+
+export type ImportedRow = z.infer<typeof importRowSchema>
+
+// Pull the mapped columns out of a record and validate them. Empty cells
+// count as missing; numbers and booleans from NDJSON are read as text.
+export function mapRecord(record: SourceRecord, mapping: ColumnMapping):
+  | { row: ImportedRow; errors?: undefined }
+  | { row?: undefined; errors: string[] } {
+  const input: Record<string, string> = {}
+
+  for (const field of IMPORT_FIELDS) {
+    const column = mapping[field]
+    const value = column === undefined ? undefined : record.fields[column]
+
+    if (value === undefined || value === null) continue
+    if (typeof value === 'object') {
+      return { errors: [`${field} column "${column}" holds a nested value`] }
+    }
+
+    const text = String(value)
+    if (text.trim() !== '') {
+      input[field] = text
+    }
+  }
+
+  const result = importRowSchema.safeParse(input)
+
+  if (!result.success) {
+    return {
+      errors: result.error.issues.map(issue =>
+        issue.code === z.ZodIssueCode.invalid_type && issue.received === 'undefined'
+          ? `${issue.path.join('.')} is missing`
+          : issue.message
+      )
+    }
+  }
+
+  return { row: result.data }
+}
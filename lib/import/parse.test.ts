@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest'
+import { detectFormat, parseCsv, parseImportFile, parseNdjson } from './parse'
+
+describe('detectFormat', () => {
+  it('goes by the file extension first', () => {
+    expect(detectFormat('export.CSV', '{"content": "hi"}')).toBe('csv')
+    expect(detectFormat('export.jsonl', 'content,date')).toBe('ndjson')
+    expect(detectFormat('export.json', '')).toBe('ndjson')
+  })
+
+  it('falls back to sniffing the content', () => {
+    expect(detectFormat('export.txt', '  {"content": "hi"}')).toBe('ndjson')
+    expect(detectFormat('export', 'content,date')).toBe('csv')
+  })
+})
+
+describe('parseCsv', () => {
+  it('keys cells by the trimmed header', () => {
+    expect(parseCsv('\uFEFFcontent, date\r\nLove it,2024-05-01\r\n')).toEqual({
+      columns: ['content', 'date'],
+      records: [{ line: 2, fields: { content: 'Love it', date: '2024-05-01' } }],
+      errors: [],
+    })
+  })
+
+  it('reads quoted commas, line breaks and doubled quotes', () => {
+    const { records, errors } = parseCsv('content,date\n"Fast, cheap\nand ""good""",2024-05-01\nNext,2024-05-02')
+
+    expect(errors).toEqual([])
+    expect(records).toEqual([
+      { line: 2, fields: { content: 'Fast, cheap\nand "good"', date: '2024-05-01' } },
+      { line: 4, fields: { content: 'Next', date: '2024-05-02' } },
+    ])
+  })
+
+  it('skips blank lines but keeps line numbers', () => {
+    expect(parseCsv('content,date\n\nLove it,2024-05-01\n\n').records).toEqual([
+      { line: 3, fields: { content: 'Love it', date: '2024-05-01' } },
+    ])
+  })
+
+  it('reports rows with the wrong number of cells', () => {
+    const { records, errors } = parseCsv('content,date\nLove it\nHate it,2024-05-01,extra\nFine,2024-05-02')
+
+    expect(records).toEqual([{ line: 4, fields: { content: 'Fine', date: '2024-05-02' } }])
+    expect(errors).toEqual([
+      { line: 2, errors: ['Expected 2 columns, found 1'] },
+      { line: 3, errors: ['Expected 2 columns, found 3'] },
+    ])
+  })
+
+  it('reports a quote that is never closed', () => {
+    const { records, errors } = parseCsv('content,date\nLove it,2024-05-01\n"Broken,2024-05-02\nLost,2024-05-03')
+
+    expect(records).toEqual([{ line: 2, fields: { content: 'Love it', date: '2024-05-01' } }])
+    expect(errors).toEqual([{ line: 3, errors: ['Quoted field is never closed; the rest of the file was skipped'] }])
+  })
+
+  it('returns nothing for an empty file', () => {
+    expect(parseCsv('\n\n')).toEqual({ columns: [], records: [], errors: [] })
+  })
+})
+
+describe('parseNdjson', () => {
+  it('collects columns in the order they are first seen', () => {
+    const { columns, records, errors } = parseNdjson(
+      '{"text": "Love it", "date": "2024-05-01"}\r\n\n{"text": "Fine", "likes": 3, "date": "2024-05-02"}\n'
+    )
+
+    expect(columns).toEqual(['text', 'date', 'likes'])
+    expect(records).toEqual([
+      { line: 1, fields: { text: 'Love it', date: '2024-05-01' } },
+      { line: 3, fields: { text: 'Fine', likes: 3, date: '2024-05-02' } },
+    ])
+    expect(errors).toEqual([])
+  })
+
+  it('reports lines that are not JSON objects', () => {
+    expect(parseNdjson('{"text": "ok"}\n{"text": \n[1, 2]\nnull\n"text"').errors).toEqual([
+      { line: 2, errors: ['Not valid JSON'] },
+      { line: 3, errors: ['Expected a JSON object'] },
+      { line: 4, errors: ['Expected a JSON object'] },
+      { line: 5, errors: ['Expected a JSON object'] },
+    ])
+  })
+})
+
+describe('parseImportFile', () => {
+  it('parses with the given format', () => {
+    expect(parseImportFile('{"text": "hi"}', 'ndjson').columns).toEqual(['text'])
+    expect(parseImportFile('{"text": "hi"}', 'csv').columns).toEqual(['{"text": "hi"}'])
+  })
+})
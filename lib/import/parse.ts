@@ -0,0 +1,168 @@
+// Reading mention exports from other listening tools. Kept free of server-only
+// imports so the upload form can preview a file's columns before sending it.
+
+export type ImportFormat = 'csv' | 'ndjson'
+
+// One source record keyed by CSV header or NDJSON property, with the
+// (1-based) line it starts on for error reports
+export interface SourceRecord {
+  line: number
+  fields: Record<string, unknown>
+}
+
+export interface RecordError {
+  line: number
+  errors: string[]
+}
+
+export interface ParsedFile {
+  // Column names in the order they were first seen
+  columns: string[]
+  records: SourceRecord[]
+  // Lines that couldn't be read at all
+  errors: RecordError[]
+}
+
+// Go by the file extension, then by whether the content looks like JSON
+export function detectFormat(fileName: string, text: string): ImportFormat {
+  if (/\.csv$/i.test(fileName)) return 'csv'
+  if (/\.(ndjson|jsonl|json)$/i.test(fileName)) return 'ndjson'
+  return text.trimStart().startsWith('{') ? 'ndjson' : 'csv'
+}
+
+// Split RFC 4180 CSV into rows of cells: quoted fields may contain commas,
+// line breaks and doubled quotes. Blank lines are skipped.
+function splitCsv(text: string) {
+  const rows: { line: number; cells: string[] }[] = []
+  let cells: string[] = []
+  let cell = ''
+  let quoted = false
+  let line = 1
+  let rowLine = 1
+  let i = 0
+
+  const endRow = () => {
+    cells.push(cell)
+    if (cells.length > 1 || cells[0].trim() !== '') {
+      rows.push({ line: rowLine, cells })
+    }
+    cells = []
+    cell = ''
+  }
+
+  while (i < text.length) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i += 2
+        continue
+      }
+      if (char === '"') {
+        quoted = false
+      } else {
+        if (char === '\n') line++
+        cell += char
+      }
+      i++
+      continue
+    }
+
+    if (char === '"' && cell === '') {
+      quoted = true
+    } else if (char === ',') {
+      cells.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      endRow()
+      line++
+      rowLine = line
+    } else {
+      cell += char
+    }
+    i++
+  }
+
+  if (quoted) {
+    return { rows, unterminatedAt: rowLine }
+  }
+
+  if (cell !== '' || cells.length > 0) {
+    endRow()
+  }
+
+  return { rows, unterminatedAt: null }
+}
+
+export function parseCsv(text: string): ParsedFile {
+  const { rows, unterminatedAt } = splitCsv(text.replace(/^\uFEFF/, ''))
+  const errors: RecordError[] = []
+
+  if (rows.length === 0) {
+    return { columns: [], records: [], errors }
+  }
+
+  const columns = rows[0].cells.map(cell => cell.trim())
+  const records: SourceRecord[] = []
+
+  for (const row of rows.slice(1)) {
+    if (row.cells.length !== columns.length) {
+      errors.push({ line: row.line, errors: [`Expected ${columns.length} columns, found ${row.cells.length}`] })
+      continue
+    }
+
+    const fields: Record<string, unknown> = {}
+    columns.forEach((column, i) => {
+      fields[column] = row.cells[i]
+    })
+    records.push({ line: row.line, fields })
+  }
+
+  // Everything from the stray quote on was swallowed into one field
+  if (unterminatedAt !== null) {
+    errors.push({ line: unterminatedAt, errors: ['Quoted field is never closed; the rest of the file was skipped'] })
+  }
+
+  return { columns, records, errors }
+}
+
+export function parseNdjson(text: string): ParsedFile {
+  const columns: string[] = []
+  const seen = new Set<string>()
+  const records: SourceRecord[] = []
+  const errors: RecordError[] = []
+
+  text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((raw, i) => {
+    const line = i + 1
+    if (!raw.trim()) return
+
+    let value: unknown
+    try {
+      value = JSON.parse(raw)
+    } catch {
+      errors.push({ line, errors: ['Not valid JSON'] })
+      return
+    }
+
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      errors.push({ line, errors: ['Expected a JSON object'] })
+      return
+    }
+
+    for (const key of Object.keys(value)) {
+      if (!seen.has(key)) {
+        seen.add(key)
+        columns.push(key)
+      }
+    }
+    records.push({ line, fields: value as Record<string, unknown> })
+  })
+
+  return { columns, records, errors }
+}
+
+export function parseImportFile(text: string, format: ImportFormat): ParsedFile {
+  return format === 'csv' ? parseCsv(text) : parseNdjson(text)
+}
@@ -0,0 +1,217 @@
+import { describe, expect, it } from 'vitest'
+import { FakeSupabase, type Row } from '@/test/supabase'
+import {
+  decodeCursor,
+  encodeCursor,
+  filterParams,
+  filterQueryString,
+  listMentions,
+  mentionFilterSchema,
+  mergeMentions
+} from './index'
+
+const uuid = (n: number) => `00000000-0000-4000-8000-${String(n).padStart(12, '0')}`
+
+describe('encodeCursor / decodeCursor', () => {
+  it('round-trips the position of a mention', () => {
+    const cursor = encodeCursor({ posted_at: '2024-05-01T10:00:00.123456+00:00', id: uuid(1) })
+
+    expect(cursor).toMatch(/^[\w-]+$/)
+    expect(decodeCursor(cursor)).toEqual({ postedAt: '2024-05-01T10:00:00.123456+00:00', id: uuid(1) })
+  })
+
+  it('rejects cursors that were not made by encodeCursor', () => {
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url')
+
+    expect(decodeCursor('not a cursor')).toBeNull()
+    expect(decodeCursor('')).toBeNull()
+    expect(decodeCursor(encode(['yesterday', uuid(1)]))).toBeNull()
+    expect(decodeCursor(encode(['2024-05-01T10:00:00Z', 'm1']))).toBeNull()
+    expect(decodeCursor(encode(['2024-05-01T10:00:00Z', `${uuid(1)}),id.gt.(`]))).toBeNull()
+    expect(decodeCursor(encode({ postedAt: '2024-05-01T10:00:00Z', id: uuid(1) }))).toBeNull()
+  })
+})
+
+describe('listMentions', () => {
+  // Three mentions posted at the same time, then one older
+  const posted = ['2024-05-02T10:00:00Z', '2024-05-02T10:00:00Z', '2024-05-02T10:00:00Z', '2024-05-01T10:00:00Z']
+  const mentions: Row[] = posted.map((postedAt, i) => ({ id: uuid(i + 1), user_id: 'u1', posted_at: postedAt, content: `Mention ${i + 1}` }))
+
+  function setup() {
+    const db = new FakeSupabase({ mentions })
+    const calls: unknown[] = []
+    db.rpcs.filter_mentions = args => {
+      calls.push(args)
+      return mentions.map(({ id, posted_at }) => ({ id, posted_at }))
+    }
+    return { db, calls }
+  }
+
+  it('pages newest first, breaking ties by id, without skipping or repeating', async () => {
+    const { db, calls } = setup()
+    const seen: string[] = []
+    let cursor: { postedAt: string; id: string } | null = null
+
+    for (let page = 0; page < 3; page++) {
+      const result = await listMentions(db.client, 'u1', { label: 'negative' }, { cursor, limit: 2 })
+      seen.push(...result.mentions.map(mention => mention.id))
+      if (!result.nextCursor) break
+      cursor = decodeCursor(result.nextCursor)
+    }
+
+    expect(seen).toEqual([uuid(3), uuid(2), uuid(1), uuid(4)])
+    expect(calls).toHaveLength(2)
+    expect(calls[0]).toEqual({ p_user_id: 'u1', p_filter: { label: 'negative' } })
+  })
+
+  it('has no next page when the last one is exactly full', async () => {
+    const { db } = setup()
+
+    expect((await listMentions(db.client, 'u1', {}, { limit: 4 })).nextCursor).toBeNull()
+    expect((await listMentions(db.client, 'u1', {}, { limit: 3 })).nextCursor).toBe(
+      encodeCursor({ posted_at: posted[0], id: uuid(1) })
+    )
+  })
+
+  it('only returns the requested mentions that match', async () => {
+    const { db } = setup()
+
+    const result = await listMentions(db.client, 'u1', {}, { ids: [uuid(4), uuid(9), uuid(2)] })
+
+    expect(result.mentions.map(mention => mention.id)).toEqual([uuid(2), uuid(4)])
+    expect(result.nextCursor).toBeNull()
+  })
+
+  it('skips loading mentions for an empty page', async () => {
+    const { db } = setup()
+    db.rpcs.filter_mentions = () => []
+
+    expect(await listMentions(db.client, 'u1', {})).toEqual({ mentions: [], nextCursor: null })
+    expect(db.log.filter(entry => entry.table === 'mentions')).toEqual([])
+  })
+})
+
+describe('mentionFilterSchema', () => {
+  const issues = (filter: Record<string, string>) => {
+    const result = mentionFilterSchema.safeParse(filter)
+    return result.success ? [] : result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+  }
+
+  it('coerces query string values', () => {
+    expect(mentionFilterSchema.parse({
+      label: 'negative',
+      platform: 'instagram',
+      from: '2024-05-01',
+      to: '2024-05-07',
+      days: '7',
+      minScore: '2.5',
+      maxScore: '6',
+      minEngagement: '50',
+      hasUrl: 'false',
+      author: ' @jane ',
+    })).toEqual({
+      label: 'negative',
+      platform: 'instagram',
+      from: '2024-05-01',
+      to: '2024-05-07',
+      days: 7,
+      minScore: 2.5,
+      maxScore: 6,
+      minEngagement: 50,
+      hasUrl: false,
+      author: '@jane',
+    })
+  })
+
+  it('accepts an empty filter and a single day', () => {
+    expect(mentionFilterSchema.parse({})).toEqual({})
+    expect(issues({ from: '2024-05-01', to: '2024-05-01' })).toEqual([])
+    expect(issues({ minScore: '5', maxScore: '5' })).toEqual([])
+  })
+
+  it('rejects dates that are malformed or do not exist', () => {
+    expect(issues({ from: '05/01/2024' })).toContain('from: from must be a date (YYYY-MM-DD)')
+    expect(issues({ to: '2024-02-30' })).toEqual(['to: to is not a valid date'])
+  })
+
+  it('rejects ranges that end before they start', () => {
+    expect(issues({ from: '2024-05-07', to: '2024-05-01' })).toEqual(['from: from must not be after to'])
+    expect(issues({ minScore: '8', maxScore: '3' })).toEqual(['minScore: minScore must not be above maxScore'])
+  })
+
+  it('rejects numbers out of range or of the wrong kind', () => {
+    expect(issues({ minScore: '11' })).toEqual(['minScore: minScore must be between 0 and 10'])
+    expect(issues({ maxScore: 'high' })).toEqual(['maxScore: maxScore must be a number'])
+    expect(issues({ days: '0' })).toEqual(['days: days must be between 1 and 365'])
+    expect(issues({ days: '1.5' })).toEqual(['days: days must be a whole number'])
+    expect(issues({ minEngagement: '-1' })).toEqual(['minEngagement: minEngagement is negative'])
+  })
+
+  it('rejects unknown labels, languages, flags and ids', () => {
+    expect(issues({ label: 'mixed' })).toHaveLength(1)
+    expect(issues({ language: 'english' })).toEqual(['language: language must be a two-letter ISO 639-1 code'])
+    expect(issues({ hasUrl: 'yes' })).toEqual(['hasUrl: hasUrl must be true or false'])
+    expect(issues({ socialAccountId: 'a1' })).toHaveLength(1)
+  })
+})
+
+describe('filterParams / filterQueryString', () => {
+  it('picks the filter keys out of a query string, leaving empty values out', () => {
+    expect(filterParams(new URLSearchParams('label=negative&q=&cursor=abc&minEngagement=50&view=v1'))).toEqual({
+      label: 'negative',
+      minEngagement: '50',
+    })
+  })
+
+  it('round-trips a validated filter through the query string', () => {
+    const filter = mentionFilterSchema.parse({ label: 'negative', q: '"late delivery" -refund', days: '7', hasUrl: 'true' })
+    const query = filterQueryString(filter)
+
+    expect(query).toBe('label=negative&q=%22late+delivery%22+-refund&days=7&hasUrl=true')
+    expect(mentionFilterSchema.parse(filterParams(new URLSearchParams(query)))).toEqual(filter)
+  })
+})
+
+describe('mergeMentions', () => {
+  const mention = (id: string, postedAt: string, content = `Mention ${id}`) => ({ id, posted_at: postedAt, content })
+
+  // Loaded so far, newest first
+  const loaded = [
+    mention('d', '2024-05-04T10:00:00Z'),
+    mention('c', '2024-05-03T10:00:00Z'),
+    mention('b', '2024-05-02T10:00:00Z'),
+  ]
+
+  it('replaces the loaded copy of a mention that still matches', () => {
+    const updated = mention('c', '2024-05-03T10:00:00Z', 'Analyzed')
+
+    expect(mergeMentions(loaded, [updated], ['c'], true)).toEqual([loaded[0], updated, loaded[2]])
+  })
+
+  it('removes requested mentions that no longer match', () => {
+    expect(mergeMentions(loaded, [], ['c', 'x'], true).map(m => m.id)).toEqual(['d', 'b'])
+  })
+
+  it('inserts new matches in feed order, ties broken by id', () => {
+    const merged = mergeMentions(loaded, [
+      mention('e', '2024-05-05T10:00:00Z'),
+      mention('a', '2024-05-03T10:00:00Z'),
+      mention('z', '2024-05-03T10:00:00Z'),
+    ], ['e', 'a', 'z'], true)
+
+    expect(merged.map(m => m.id)).toEqual(['e', 'd', 'z', 'c', 'a', 'b'])
+  })
+
+  it('leaves matches older than the loaded range to the next page', () => {
+    const older = mention('a', '2024-05-01T10:00:00Z')
+
+    expect(mergeMentions(loaded, [older], ['a'], true)).toEqual(loaded)
+    expect(mergeMentions(loaded, [older], ['a'], false).map(m => m.id)).toEqual(['d', 'c', 'b', 'a'])
+  })
+
+  it('fills an empty feed', () => {
+    const fresh = mention('a', '2024-05-01T10:00:00Z')
+
+    expect(mergeMentions([], [fresh], ['a'], true)).toEqual([fresh])
+  })
+})
@@ -0,0 +1,237 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+
+// Everything the feed shows for a mention
+export const FEED_SELECT =
+  '*, social_accounts!inner(platform, account_name), mention_aspects(aspect, sentiment_label, sentiment_score), sentiment_reviews(action, sentiment_label, sentiment_score), mention_queries(query_id)'
+
+export const DEFAULT_PAGE_SIZE = 25
+export const MAX_PAGE_SIZE = 100
+
+export const FEED_LABELS = ['positive', 'negative', 'neutral', 'unanalyzed'] as const
+export type FeedLabel = typeof FEED_LABELS[number]
+
+const day = (name: string) => z.string().regex(/^\d{4}-\d{2}-\d{2}$/, `${name} must be a date (YYYY-MM-DD)`)
+  .refine(value => {
+    const date = new Date(value)
+    return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value
+  }, `${name} is not a valid date`)
+
+const score = (name: string) => z.coerce.number({ invalid_type_error: `${name} must be a number` })
+  .min(0, `${name} must be between 0 and 10`)
+  .max(10, `${name} must be between 0 and 10`)
+
+// Mirrors the keys filter_mentions understands. Values arrive as query string
+// text, so numbers and booleans are coerced.
+const mentionFilterFields = z.object({
+  label: z.enum(FEED_LABELS).optional(),
+  platform: z.string().trim().min(1).max(50).optional(),
+  socialAccountId: z.string().uuid().optional(),
+  queryId: z.string().uuid().optional(),
+  topic: z.string().trim().min(1).max(100).optional(),
+  language: z.string().regex(/^[a-z]{2}$/, 'language must be a two-letter ISO 639-1 code').optional(),
+  q: z.string().trim().min(1).max(200).optional(),
+  // Posting days, both inclusive (UTC)
+  from: day('from').optional(),
+  to: day('to').optional(),
+  // Posted within the last N days, counted back from now; saved views stay current
+  days: z.coerce.number({ invalid_type_error: 'days must be a number' })
+    .int('days must be a whole number')
+    .min(1, 'days must be between 1 and 365')
+    .max(365, 'days must be between 1 and 365')
+    .optional(),
+  // Effective score, so unanalyzed mentions drop out
+  minScore: score('minScore').optional(),
+  maxScore: score('maxScore').optional(),
+  minEngagement: z.coerce.number({ invalid_type_error: 'minEngagement must be a number' })
+    .int('minEngagement must be a whole number')
+    .min(0, 'minEngagement is negative')
+    .optional(),
+  hasUrl: z.enum(['true', 'false'], { errorMap: () => ({ message: 'hasUrl must be true or false' }) }).transform(value => value === 'true').optional(),
+  // Author name or handle, case-insensitive; a leading @ is ignored
+  author: z.string().trim().min(1).max(200).optional(),
+})
+
+export const MENTION_FILTER_KEYS = Object.keys(mentionFilterFields.shape) as (keyof typeof mentionFilterFields.shape)[]
+export type MentionFilterKey = typeof MENTION_FILTER_KEYS[number]
+
+export const mentionFilterSchema = mentionFilterFields
+  .refine(filter => filter.from === undefined || filter.to === undefined || filter.from <= filter.to, {
+    message: 'from must not be after to',
+    path: ['from'],
+  })
+  .refine(filter => filter.minScore === undefined || filter.maxScore === undefined || filter.minScore <= filter.maxScore, {
+    message: 'minScore must not be above maxScore',
+    path: ['minScore'],
+  })
+
+export type MentionFilter = z.infer<typeof mentionFilterSchema>
+
+// Specific mentions to re-check against a filter, e.g. ones realtime reported changed
+export const mentionIdsSchema = z.array(z.string().uuid('ids must be mention ids'))
+  .min(1)
+  .max(MAX_PAGE_SIZE, `at most ${MAX_PAGE_SIZE} ids at a time`)
+
+export interface MentionFacets {
+  // Mentions matching every filter, and their average effective score
+  total: number
+  averageScore: number | null
+  labels: Partial<Record<FeedLabel, number>>
+  platforms: Record<string, number>
+  // Keyed by social account id
+  accounts: Record<string, number>
+  languages: Record<string, number>
+  topics: Record<string, number>
+}
+
+// Filter keys present in a query string, empty values left out, for
+// mentionFilterSchema to validate
+export function filterParams(params: URLSearchParams) {
+  const filter: Partial<Record<MentionFilterKey, string>> = {}
+
+  for (const key of MENTION_FILTER_KEYS) {
+    const value = params.get(key)
+    if (value) {
+      filter[key] = value
+    }
+  }
+
+  return filter
+}
+
+// The query string form of a validated filter, e.g. for a shareable link
+export function filterQueryString(filter: MentionFilter) {
+  const params = new URLSearchParams()
+
+  for (const key of MENTION_FILTER_KEYS) {
+    const value = filter[key]
+    if (value !== undefined) {
+      params.set(key, String(value))
+    }
+  }
+
+  return params.toString()
+}
+
+// Pages continue after the last mention shown, by posted_at then id, so
+// mentions arriving in the meantime don't shift what comes next
+export function encodeCursor(mention: { posted_at: string; id: string }) {
+  return Buffer.from(JSON.stringify([mention.posted_at, mention.id])).toString('base64url')
+}
+
+export function decodeCursor(cursor: string): { postedAt: string; id: string } | null {
+  try {
+    const [postedAt, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString())
+    if (typeof postedAt !== 'string' || isNaN(new Date(postedAt).getTime())) return null
+    if (typeof id !== 'string' || !z.string().uuid().safeParse(id).success) return null
+    // Kept as sent: Postgres timestamps carry microseconds a Date would drop
+    return { postedAt, id }
+  } catch {
+    return null
+  }
+}
+
+interface FeedPosition {
+  id: string
+  posted_at: string
+}
+
+// Feed order: newest first, ties broken by id as the server does
+export function compareFeedOrder(a: FeedPosition, b: FeedPosition) {
+  const diff = new Date(b.posted_at).getTime() - new Date(a.posted_at).getTime()
+  return diff !== 0 ? diff : a.id < b.id ? 1 : a.id > b.id ? -1 : 0
+}
+
+// Fold re-fetched mentions into the loaded list. Matches replace their old copy,
+// or are inserted if they sort into the loaded range (later ones arrive with
+// the next page); requested mentions that no longer match are removed.
+export function mergeMentions<T extends FeedPosition>(current: T[], matches: T[], requestedIds: string[], hasMore: boolean) {
+  const matched = new Map(matches.map(mention => [mention.id, mention] as [string, T]))
+  const requested = new Set(requestedIds)
+
+  const kept = current
+    .filter(mention => !requested.has(mention.id) || matched.has(mention.id))
+    .map(mention => matched.get(mention.id) ?? mention)
+  const loaded = new Set(kept.map(mention => mention.id))
+  const oldest = kept[kept.length - 1]
+  const added = matches.filter(mention =>
+    !loaded.has(mention.id) && (!hasMore || !oldest || compareFeedOrder(mention, oldest) <= 0)
+  )
+
+  return added.length > 0 ? kept.concat(added).sort(compareFeedOrder) : kept
+}
+
+// One page of the user's feed, newest first. `nextCursor` is null on the last page.
+// With `ids`, only those mentions are considered: the ones still matching the
+// filter come back, the rest are left out.
+export async function listMentions(
+  supabase: SupabaseClient,
+  userId: string,
+  filter: MentionFilter,
+  {
+    cursor = null,
+    limit = DEFAULT_PAGE_SIZE,
+    ids
+  }: { cursor?: { postedAt: string; id: string } | null; limit?: number; ids?: string[] } = {}
+) {
+  let query = supabase
+    .rpc('filter_mentions', { p_user_id: userId, p_filter: filter })
+    .select('id, posted_at')
+
+  if (cursor) {
+    query = query.or(`posted_at.lt."${cursor.postedAt}",and(posted_at.eq."${cursor.postedAt}",id.lt.${cursor.id})`)
+  }
+
+  if (ids) {
+    query = query.in('id', ids)
+    limit = ids.length
+  }
+
+  // One extra row tells whether there is another page
+  const { data: page, error } = await query
+    .order('posted_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1)
+
+  if (error) {
+    throw error
+  }
+
+  const matches = (page || []) as { id: string; posted_at: string }[]
+  const shown = matches.slice(0, limit)
+
+  if (shown.length === 0) {
+    return { mentions: [], nextCursor: null }
+  }
+
+  const { data: rows, error: rowsError } = await supabase
+    .from('mentions')
+    .select(FEED_SELECT)
+    .eq('user_id', userId)
+    .in('id', shown.map(row => row.id))
+
+  if (rowsError) {
+    throw rowsError
+  }
+
+  const byId = new Map((rows || []).map((row: { id: string }) => [row.id, row]))
+
+  return {
+    mentions: shown.map(row => byId.get(row.id)).filter(row => row !== undefined),
+    nextCursor: matches.length > limit ? encodeCursor(shown[shown.length - 1]) : null,
+  }
+}
+
+export async function getMentionFacets(
+  supabase: SupabaseClient,
+  userId: string,
+  filter: MentionFilter
+): Promise<MentionFacets> {
+  const { data, error } = await supabase.rpc('mention_facets', { p_user_id: userId, p_filter: filter })
+
+  if (error) {
+    throw error
+  }
+
+  return data as MentionFacets
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+import { FakeSupabase, type Row } from '@/test/supabase'
+import { getMentionDetail, PROMPT_THREAD_SIBLINGS, threadContextFor, type MentionDetail, type ThreadPost } from './thread'
+
+const post = (id: string, fields: Row = {}) => ({
+  id,
+  user_id: 'u1',
+  platform: 'twitter',
+  author: `Author ${id}`,
+  author_handle: `@${id}`,
+  content: `Post ${id}`,
+  post_url: null,
+  posted_at: '2024-05-01T10:00:00Z',
+  sentiment_label: null,
+  sentiment_score: null,
+  parent_id: null,
+  parent_external_id: null,
+  duplicate_of: null,
+  ...fields,
+})
+
+describe('getMentionDetail', () => {
+  function setup() {
+    return new FakeSupabase({
+      mentions: [
+        post('parent', { external_id: 'p1' }),
+        post('mention', { parent_id: 'parent', parent_external_id: 'p1', posted_at: '2024-05-01T12:00:00Z' }),
+        post('later', { parent_external_id: 'p1', posted_at: '2024-05-01T13:00:00Z' }),
+        post('earlier', { parent_external_id: 'p1', posted_at: '2024-05-01T11:00:00Z' }),
+        post('repost', { parent_external_id: 'p1', duplicate_of: 'earlier' }),
+        post('elsewhere', { parent_external_id: 'p1', platform: 'linkedin' }),
+        post('theirs', { parent_external_id: 'p1', user_id: 'u2' }),
+        post('reply', { parent_id: 'mention' }),
+      ],
+      sentiment_history: [
+        { id: 'h2', user_id: 'u1', mention_id: 'mention', analyzed_at: '2024-05-02T10:00:00Z' },
+        { id: 'h1', user_id: 'u1', mention_id: 'mention', analyzed_at: '2024-05-01T12:00:00Z' },
+      ],
+    })
+  }
+
+  it('returns the post the mention answers, the other replies and its own replies', async () => {
+    const detail = await getMentionDetail(setup().client, 'u1', 'mention')
+
+    expect(detail?.thread.parent?.id).toBe('parent')
+    expect(detail?.thread.siblings.map(sibling => sibling.id)).toEqual(['earlier', 'later'])
+    expect(detail?.thread.replies.map(reply => reply.id)).toEqual(['reply'])
+    expect(detail?.history.map(entry => entry.id)).toEqual(['h1', 'h2'])
+  })
+
+  it('has no thread for a mention that is not a reply', async () => {
+    const detail = await getMentionDetail(setup().client, 'u1', 'later')
+
+    expect(detail?.thread).toEqual({ parent: null, siblings: expect.any(Array), replies: [] })
+    expect((await getMentionDetail(setup().client, 'u1', 'reply'))?.thread.siblings).toEqual([])
+  })
+
+  it("returns null for another user's mention", async () => {
+    expect(await getMentionDetail(setup().client, 'u1', 'theirs')).toBeNull()
+  })
+})
+
+describe('threadContextFor', () => {
+  const threadPost = (id: string, handle: string | null = `@${id}`) =>
+    ({ id, author: `Author ${id}`, author_handle: handle, content: `Post ${id}` }) as ThreadPost
+
+  const detail = (parent: ThreadPost | null, siblings: ThreadPost[]) =>
+    ({ thread: { parent, siblings, replies: [threadPost('reply')] } }) as unknown as MentionDetail
+
+  it('shows the model the parent and the first replies, by handle when there is one', () => {
+    const siblings = Array.from({ length: PROMPT_THREAD_SIBLINGS + 2 }, (_, i) => threadPost(`s${i}`, i === 0 ? null : `@s${i}`))
+
+    const context = threadContextFor(detail(threadPost('parent'), siblings))
+
+    expect(context?.parent).toEqual({ author: '@parent', content: 'Post parent' })
+    expect(context?.siblings).toHaveLength(PROMPT_THREAD_SIBLINGS)
+    expect(context?.siblings[0]).toEqual({ author: 'Author s0', content: 'Post s0' })
+  })
+
+  it('works with only one side of the thread', () => {
+    expect(threadContextFor(detail(null, [threadPost('s1')]))).toEqual({
+      parent: null,
+      siblings: [{ author: '@s1', content: 'Post s1' }],
+    })
+    expect(threadContextFor(detail(threadPost('parent'), []))?.siblings).toEqual([])
+  })
+
+  it('has no context without a stored conversation, whatever the replies', () => {
+    expect(threadContextFor(detail(null, []))).toBeNull()
+  })
+})
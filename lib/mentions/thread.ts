@@ -0,0 +1,179 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/supabase'
+import type { ThreadContext } from '@/lib/sentiment/types'
+
+type Tables = Database['public']['Tables']
+
+// Replies shown in the detail drawer, and how many siblings go into a prompt
+export const MAX_THREAD_SIBLINGS = 20
+export const PROMPT_THREAD_SIBLINGS = 5
+
+const THREAD_POST_SELECT = 'id, author, author_handle, content, post_url, posted_at, sentiment_label, sentiment_score'
+
+const DETAIL_SELECT =
+  '*, social_accounts!inner(platform, account_name), mention_aspects(aspect, sentiment_label, sentiment_score), sentiment_reviews(*)'
+
+export type ThreadPost = Pick<
+  Tables['mentions']['Row'],
+  'id' | 'author' | 'author_handle' | 'content' | 'post_url' | 'posted_at' | 'sentiment_label' | 'sentiment_score'
+>
+
+export type HistoryEntry = Pick<
+  Tables['sentiment_history']['Row'],
+  | 'id'
+  | 'sentiment_score'
+  | 'sentiment_label'
+  | 'sentiment_reasoning'
+  | 'sentiment_confidence'
+  | 'sentiment_model'
+  | 'sentiment_prompt_version'
+  | 'thread_context'
+  | 'analyzed_at'
+>
+
+export type DetailedMention = Tables['mentions']['Row'] & {
+  social_accounts: { platform: string; account_name: string }
+  mention_aspects: { aspect: string; sentiment_label: string; sentiment_score: number }[]
+  // One review per mention, so PostgREST embeds it as an object
+  sentiment_reviews: Tables['sentiment_reviews']['Row'] | null
+}
+
+export interface MentionDetail {
+  mention: DetailedMention
+  thread: {
+    // null when the mention isn't a reply, or the post it answers isn't stored
+    parent: ThreadPost | null
+    // Other stored replies to the same post, oldest first
+    siblings: ThreadPost[]
+    // Stored replies to this mention, oldest first
+    replies: ThreadPost[]
+  }
+  // Every analysis of the mention, oldest first
+  history: HistoryEntry[]
+}
+
+// A mention with the conversation around it and its analysis history, or
+// null when the user has no such mention
+export async function getMentionDetail(
+  supabase: SupabaseClient,
+  userId: string,
+  mentionId: string
+): Promise<MentionDetail | null> {
+  const { data, error } = await supabase
+    .from('mentions')
+    .select(DETAIL_SELECT)
+    .eq('id', mentionId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  if (!data) {
+    return null
+  }
+
+  const mention = data as DetailedMention
+
+  const [parent, siblings, replies, history] = await Promise.all([
+    mention.parent_id ? getThreadPost(supabase, userId, mention.parent_id) : Promise.resolve(null),
+    getSiblings(supabase, userId, mention),
+    listThreadPosts(supabase, userId, 'parent_id', mention.id),
+    getHistory(supabase, userId, mention.id),
+  ])
+
+  return { mention, thread: { parent, siblings, replies }, history }
+}
+
+// What the model is shown alongside the mention, or null when there is no
+// stored conversation to show
+export function threadContextFor(detail: MentionDetail): ThreadContext | null {
+  const { parent, siblings } = detail.thread
+
+  if (!parent && siblings.length === 0) {
+    return null
+  }
+
+  const post = (p: ThreadPost) => ({ author: p.author_handle || p.author, content: p.content })
+
+  return {
+    parent: parent && post(parent),
+    siblings: siblings.slice(0, PROMPT_THREAD_SIBLINGS).map(post),
+  }
+}
+
+async function getThreadPost(supabase: SupabaseClient, userId: string, id: string) {
+  const { data, error } = await supabase
+    .from('mentions')
+    .select(THREAD_POST_SELECT)
+    .eq('id', id)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  return data as ThreadPost | null
+}
+
+// Matched on the parent's platform id rather than parent_id, so replies to a
+// post that was never stored still find each other
+async function getSiblings(supabase: SupabaseClient, userId: string, mention: DetailedMention) {
+  if (!mention.parent_external_id) {
+    return []
+  }
+
+  // One extra so the mention itself can be dropped
+  const siblings = await listThreadPosts(supabase, userId, 'parent_external_id', mention.parent_external_id, {
+    platform: mention.platform,
+    limit: MAX_THREAD_SIBLINGS + 1,
+  })
+
+  return siblings.filter(sibling => sibling.id !== mention.id).slice(0, MAX_THREAD_SIBLINGS)
+}
+
+async function listThreadPosts(
+  supabase: SupabaseClient,
+  userId: string,
+  column: 'parent_id' | 'parent_external_id',
+  value: string,
+  { platform, limit = MAX_THREAD_SIBLINGS }: { platform?: string; limit?: number } = {}
+) {
+  let query = supabase
+    .from('mentions')
+    .select(THREAD_POST_SELECT)
+    .eq('user_id', userId)
+    .eq(column, value)
+    .is('duplicate_of', null)
+
+  if (platform) {
+    query = query.eq('platform', platform)
+  }
+
+  const { data, error } = await query
+    .order('posted_at', { ascending: true })
+    .limit(limit)
+
+  if (error) {
+    throw error
+  }
+
+  return (data || []) as ThreadPost[]
+}
+
+async function getHistory(supabase: SupabaseClient, userId: string, mentionId: string) {
+  const { data, error } = await supabase
+    .from('sentiment_history')
+    .select('id, sentiment_score, sentiment_label, sentiment_reasoning, sentiment_confidence, sentiment_model, sentiment_prompt_version, thread_context, analyzed_at')
+    .eq('user_id', userId)
+    .eq('mention_id', mentionId)
+    .order('analyzed_at', { ascending: true })
+
+  if (error) {
+    throw error
+  }
+
+  return (data || []) as HistoryEntry[]
+}
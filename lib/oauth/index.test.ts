@@ -0,0 +1,101 @@
+import { createHash, randomBytes } from 'crypto'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { decryptToken } from '@/lib/connectors/tokens'
+import { FakeSupabase } from '@/test/supabase'
+import { completeAuthorization, redirectUriFor, startAuthorization, type OAuthProvider, type OAuthTokens } from './index'
+
+const tokens: OAuthTokens = { accessToken: 'access-1', refreshToken: 'refresh-1', expiresAt: '2024-05-01T12:00:00.000Z' }
+
+function stubProvider(accounts: { accountId: string; accountName: string }[] = []) {
+  return {
+    authorizeUrl: vi.fn(({ state, codeChallenge, redirectUri }) =>
+      `https://platform.test/authorize?state=${state}&code_challenge=${codeChallenge}&redirect_uri=${redirectUri}`
+    ),
+    exchangeCode: vi.fn(async () => tokens),
+    listAccounts: vi.fn(async () => accounts.map(account => ({ ...account, tokens }))),
+  } satisfies OAuthProvider
+}
+
+beforeEach(() => {
+  vi.stubEnv('NEXT_PUBLIC_APP_URL', 'https://app.test')
+  vi.stubEnv('TOKEN_ENCRYPTION_KEY', randomBytes(32).toString('base64'))
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe('redirectUriFor', () => {
+  it('points at the callback route unless a platform override is set', () => {
+    expect(redirectUriFor('twitter')).toBe('https://app.test/api/auth/callback/twitter')
+
+    vi.stubEnv('TWITTER_REDIRECT_URI', 'https://tunnel.test/callback')
+    expect(redirectUriFor('twitter')).toBe('https://tunnel.test/callback')
+  })
+})
+
+describe('startAuthorization', () => {
+  it('sends the S256 challenge of a verifier that stays with the caller', () => {
+    const provider = stubProvider()
+
+    const { authUrl, pending } = startAuthorization(provider, 'twitter', 'u1')
+    const { state, codeChallenge, redirectUri } = provider.authorizeUrl.mock.calls[0][0]
+
+    expect(pending).toMatchObject({ platform: 'twitter', userId: 'u1', state })
+    expect(codeChallenge).toBe(createHash('sha256').update(pending.codeVerifier).digest('base64url'))
+    expect(redirectUri).toBe('https://app.test/api/auth/callback/twitter')
+    expect(authUrl).toContain(`state=${state}`)
+    expect(authUrl).not.toContain(pending.codeVerifier)
+  })
+
+  it('uses URL-safe values within the PKCE verifier limits', () => {
+    const { pending } = startAuthorization(stubProvider(), 'twitter', 'u1')
+
+    expect(pending.state).toMatch(/^[\w-]{32}$/)
+    expect(pending.codeVerifier).toMatch(/^[\w-]{64}$/)
+  })
+
+  it('makes a new state and verifier for every attempt', () => {
+    const provider = stubProvider()
+    const first = startAuthorization(provider, 'twitter', 'u1').pending
+    const second = startAuthorization(provider, 'twitter', 'u1').pending
+
+    expect(second.state).not.toBe(first.state)
+    expect(second.codeVerifier).not.toBe(first.codeVerifier)
+  })
+})
+
+describe('completeAuthorization', () => {
+  const pending = { platform: 'facebook' as const, userId: 'u1', state: 'state-1', codeVerifier: 'verifier-1' }
+
+  it('exchanges the code with the stored verifier and saves every granted account encrypted', async () => {
+    const provider = stubProvider([
+      { accountId: 'page-1', accountName: 'Acme' },
+      { accountId: 'page-2', accountName: 'Acme Support' },
+    ])
+    const db = new FakeSupabase({
+      social_accounts: [{ id: 'a1', user_id: 'u1', platform: 'facebook', account_id: 'page-1', is_active: false, needs_reconnect: true }],
+    })
+
+    expect(await completeAuthorization(db.client, provider, pending, 'code-1')).toBe(2)
+
+    expect(provider.exchangeCode).toHaveBeenCalledWith({
+      code: 'code-1',
+      codeVerifier: 'verifier-1',
+      redirectUri: 'https://app.test/api/auth/callback/facebook',
+    })
+    const [reconnected, added] = db.tables.social_accounts
+    expect(reconnected).toMatchObject({ id: 'a1', account_name: 'Acme', is_active: true, needs_reconnect: false })
+    expect(added).toMatchObject({ user_id: 'u1', platform: 'facebook', account_id: 'page-2', token_expires_at: tokens.expiresAt })
+    expect(reconnected.access_token).not.toBe('access-1')
+    expect(decryptToken(reconnected.access_token)).toBe('access-1')
+    expect(decryptToken(reconnected.refresh_token)).toBe('refresh-1')
+  })
+
+  it('saves nothing when no account was granted', async () => {
+    const db = new FakeSupabase()
+
+    expect(await completeAuthorization(db.client, stubProvider(), pending, 'code-1')).toBe(0)
+    expect(db.log).toEqual([])
+  })
+})
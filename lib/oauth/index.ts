@@ -0,0 +1,106 @@
+import { createHash, randomBytes } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { SocialPlatform } from '@/lib/connectors'
+import { encryptToken } from '@/lib/connectors/tokens'
+import { linkedinOAuth } from './linkedin'
+import { facebookOAuth, instagramOAuth } from './meta'
+import { twitterOAuth } from './twitter'
+import type { OAuthProvider, PendingAuthorization } from './types'
+
+export * from './types'
+
+// Holds the PendingAuthorization between the redirect and the callback
+export const OAUTH_COOKIE = 'social_oauth'
+export const OAUTH_COOKIE_MAX_AGE = 10 * 60
+
+export function getOAuthProvider(platform: SocialPlatform): OAuthProvider | null {
+  switch (platform) {
+    case 'instagram':
+      return instagramOAuth
+    case 'facebook':
+      return facebookOAuth
+    case 'twitter':
+      return twitterOAuth
+    case 'linkedin':
+      return linkedinOAuth
+    default:
+      return null
+  }
+}
+
+// Must match the redirect URI registered with the platform exactly
+export function redirectUriFor(platform: SocialPlatform) {
+  return process.env[`${platform.toUpperCase()}_REDIRECT_URI`] ||
+    `${process.env.NEXT_PUBLIC_APP_URL}/api/auth/callback/${platform}`
+}
+
+function base64url(buffer: Buffer) {
+  return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+// Build the platform's consent URL with a fresh state (CSRF) and PKCE pair.
+// The caller keeps `pending` somewhere only this browser can send back.
+export function startAuthorization(provider: OAuthProvider, platform: SocialPlatform, userId: string) {
+  const pending: PendingAuthorization = {
+    platform,
+    userId,
+    state: base64url(randomBytes(24)),
+    codeVerifier: base64url(randomBytes(48)),
+  }
+
+  const authUrl = provider.authorizeUrl({
+    state: pending.state,
+    codeChallenge: base64url(createHash('sha256').update(pending.codeVerifier).digest()),
+    redirectUri: redirectUriFor(platform),
+  })
+
+  return { authUrl, pending }
+}
+
+// Exchange the callback's code and save every account it grants, with
+// tokens encrypted. Reconnecting an account refreshes its tokens in place
+// and reactivates it. Returns the number of accounts saved.
+export async function completeAuthorization(
+  supabase: SupabaseClient,
+  provider: OAuthProvider,
+  pending: PendingAuthorization,
+  code: string
+) {
+  const tokens = await provider.exchangeCode({
+    code,
+    codeVerifier: pending.codeVerifier,
+    redirectUri: redirectUriFor(pending.platform),
+  })
+  const accounts = await provider.listAccounts(tokens)
+
+  if (accounts.length === 0) {
+    return 0
+  }
+
+  const { error } = await supabase
+    .from('social_accounts')
+    .upsert(
+      accounts.map(account => ({
+        user_id: pending.userId,
+        platform: pending.platform,
+        account_id: account.accountId,
+        account_name: account.accountName,
+        access_token: encryptToken(account.tokens.accessToken),
+        refresh_token: account.tokens.refreshToken ? encryptToken(account.tokens.refreshToken) : null,
+        token_expires_at: account.tokens.expiresAt,
+        is_active: true,
+        needs_reconnect: false,
+        last_sync_error: null,
+        sync_failures: 0,
+        sync_backoff_until: null,
+        updated_at: new Date().toISOString(),
+      })),
+      { onConflict: 'user_id,platform,account_id' }
+    )
+
+  if (error) {
+    throw error
+  }
+
+  return accounts.length
+}
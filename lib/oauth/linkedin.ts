@@ -0,0 +1,68 @@
+import { fetchLinkedIn, organizationUrn } from '@/lib/connectors/linkedin'
+import { reconnectRequired } from '@/lib/connectors/tokens'
+import { requestTokens, requireCredentials } from './oauth2'
+import type { OAuthProvider } from './types'
+
+const TOKEN_URL = 'https://www.linkedin.com/oauth/v2/accessToken'
+
+// Community Management API scopes for reading an organization's mentions
+const SCOPES = ['r_organization_social', 'rw_organization_admin']
+
+const credentials = () =>
+  requireCredentials(process.env.LINKEDIN_CLIENT_ID, process.env.LINKEDIN_CLIENT_SECRET, 'LinkedIn')
+
+interface OrganizationAcl {
+  organization: string
+}
+
+// LinkedIn's 3-legged flow for web apps has no PKCE; the state check still
+// applies. Access tokens last 60 days and only approved apps get refresh
+// tokens, so most accounts are reconnected when the token runs out.
+export const linkedinOAuth: OAuthProvider = {
+  authorizeUrl: ({ state, redirectUri }) => {
+    const url = new URL('https://www.linkedin.com/oauth/v2/authorization')
+    url.searchParams.set('response_type', 'code')
+    url.searchParams.set('client_id', credentials().clientId)
+    url.searchParams.set('redirect_uri', redirectUri)
+    url.searchParams.set('scope', SCOPES.join(' '))
+    url.searchParams.set('state', state)
+    return url.toString()
+  },
+  exchangeCode: ({ code, redirectUri }) => {
+    const { clientId, clientSecret } = credentials()
+    return requestTokens(TOKEN_URL, {
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri,
+      client_id: clientId,
+      client_secret: clientSecret,
+    })
+  },
+  refreshTokens: tokens => {
+    if (!tokens.refreshToken) {
+      throw reconnectRequired('No refresh token stored')
+    }
+    const { clientId, clientSecret } = credentials()
+    return requestTokens(TOKEN_URL, {
+      grant_type: 'refresh_token',
+      refresh_token: tokens.refreshToken,
+      client_id: clientId,
+      client_secret: clientSecret,
+    })
+  },
+  // Every organization page the user administers becomes an account
+  listAccounts: async tokens => {
+    const acls = await fetchLinkedIn<{ elements: OrganizationAcl[] }>(
+      'organizationAcls?q=roleAssignee&role=ADMINISTRATOR&state=APPROVED',
+      tokens.accessToken
+    )
+
+    const accounts = []
+    for (const acl of acls.elements) {
+      const id = acl.organization.replace('urn:li:organization:', '')
+      const organization = await fetchLinkedIn<{ localizedName?: string }>(`organizations/${id}`, tokens.accessToken)
+      accounts.push({ accountId: id, accountName: organization.localizedName || organizationUrn(id), tokens })
+    }
+    return accounts
+  },
+}
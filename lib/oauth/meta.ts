@@ -0,0 +1,114 @@
+import { fetchGraphNode, fetchGraphPage, GRAPH_API_VERSION, graphUrl } from '@/lib/connectors/graph'
+import type { GrantedAccount, OAuthProvider, OAuthTokens } from './types'
+
+// Instagram business accounts and Facebook pages both sign in through
+// Facebook Login; they differ in app credentials, scopes and which of the
+// user's pages become accounts
+interface MetaAppConfig {
+  clientId: string | undefined
+  clientSecret: string | undefined
+  scopes: string[]
+  accountsOf(pages: MetaPage[]): GrantedAccount[]
+}
+
+interface MetaPage {
+  id: string
+  name: string
+  access_token: string
+  instagram_business_account?: { id: string; username?: string }
+}
+
+interface MetaTokenResponse {
+  access_token: string
+  expires_in?: number
+}
+
+function toTokens(response: MetaTokenResponse): OAuthTokens {
+  return {
+    accessToken: response.access_token,
+    refreshToken: null,
+    expiresAt: response.expires_in ? new Date(Date.now() + response.expires_in * 1000).toISOString() : null,
+  }
+}
+
+// Page tokens obtained with a long-lived user token don't expire
+function pageTokens(page: MetaPage): OAuthTokens {
+  return { accessToken: page.access_token, refreshToken: null, expiresAt: null }
+}
+
+function createMetaProvider(config: MetaAppConfig): OAuthProvider {
+  const credentials = () => {
+    if (!config.clientId || !config.clientSecret) {
+      throw new Error('Meta app credentials are not configured')
+    }
+    return { client_id: config.clientId, client_secret: config.clientSecret }
+  }
+
+  const exchangeForLongLived = async (accessToken: string) =>
+    toTokens(await fetchGraphNode<MetaTokenResponse>(
+      graphUrl('oauth/access_token', {
+        ...credentials(),
+        grant_type: 'fb_exchange_token',
+        fb_exchange_token: accessToken,
+      })
+    ))
+
+  return {
+    authorizeUrl: ({ state, codeChallenge, redirectUri }) => {
+      const url = new URL(`https://www.facebook.com/${GRAPH_API_VERSION}/dialog/oauth`)
+      url.searchParams.set('client_id', credentials().client_id)
+      url.searchParams.set('redirect_uri', redirectUri)
+      url.searchParams.set('response_type', 'code')
+      url.searchParams.set('scope', config.scopes.join(','))
+      url.searchParams.set('state', state)
+      url.searchParams.set('code_challenge', codeChallenge)
+      url.searchParams.set('code_challenge_method', 'S256')
+      return url.toString()
+    },
+    exchangeCode: async ({ code, codeVerifier, redirectUri }) => {
+      const shortLived = await fetchGraphNode<MetaTokenResponse>(
+        graphUrl('oauth/access_token', { ...credentials(), redirect_uri: redirectUri, code, code_verifier: codeVerifier })
+      )
+      // Swap the ~1h token for a ~60 day one, which also makes page tokens permanent
+      return exchangeForLongLived(shortLived.access_token)
+    },
+    // Meta has no refresh tokens; a still-valid token is exchanged for a new long-lived one
+    refreshTokens: tokens => exchangeForLongLived(tokens.accessToken),
+    listAccounts: async tokens => {
+      const pages = await fetchGraphPage<MetaPage>(
+        graphUrl('me/accounts', {
+          fields: 'id,name,access_token,instagram_business_account{id,username}',
+          limit: '100',
+          access_token: tokens.accessToken,
+        })
+      )
+      return config.accountsOf(pages.data)
+    },
+  }
+}
+
+export const instagramOAuth = createMetaProvider({
+  clientId: process.env.INSTAGRAM_APP_ID,
+  clientSecret: process.env.INSTAGRAM_APP_SECRET,
+  scopes: ['instagram_basic', 'instagram_manage_comments', 'pages_show_list', 'pages_read_engagement'],
+  accountsOf: pages =>
+    pages
+      .filter(page => page.instagram_business_account)
+      .map(page => ({
+        accountId: page.instagram_business_account!.id,
+        accountName: page.instagram_business_account!.username || page.name,
+        tokens: pageTokens(page),
+      })),
+})
+
+export const facebookOAuth = createMetaProvider({
+  clientId: process.env.FACEBOOK_APP_ID,
+  clientSecret: process.env.FACEBOOK_APP_SECRET,
+  scopes: ['pages_show_list', 'pages_read_engagement', 'pages_manage_metadata'],
+  accountsOf: pages =>
+    pages.map(page => ({
+      accountId: page.id,
+      accountName: page.name,
+      tokens: pageTokens(page),
+    })),
+})
@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { isReconnectRequired } from '@/lib/connectors/tokens'
+import { basicAuth, requestTokens } from './oauth2'
+
+const NOW = new Date('2024-05-01T12:00:00.000Z').getTime()
+const TOKEN_URL = 'https://platform.test/oauth/token'
+
+function stubTokenEndpoint(status: number, body: unknown) {
+  const fetch = vi.fn(async (_url: string, _init: RequestInit) => new Response(JSON.stringify(body), { status }))
+  vi.stubGlobal('fetch', fetch)
+  return fetch
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] })
+  vi.setSystemTime(NOW)
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.unstubAllGlobals()
+})
+
+describe('requestTokens', () => {
+  it('posts the grant as a form and reads the tokens', async () => {
+    const fetch = stubTokenEndpoint(200, { access_token: 'access-1', refresh_token: 'refresh-1', expires_in: 7200 })
+
+    expect(await requestTokens(TOKEN_URL, { grant_type: 'refresh_token', refresh_token: 'old' }, basicAuth('id', 'secret'))).toEqual({
+      accessToken: 'access-1',
+      refreshToken: 'refresh-1',
+      expiresAt: new Date(NOW + 7200 * 1000).toISOString(),
+    })
+
+    const [url, init] = fetch.mock.calls[0]
+    expect(url).toBe(TOKEN_URL)
+    expect(init.body).toBe('grant_type=refresh_token&refresh_token=old')
+    expect(init.headers).toEqual({
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Authorization: `Basic ${Buffer.from('id:secret').toString('base64')}`,
+    })
+  })
+
+  it('leaves out what the platform did not send', async () => {
+    stubTokenEndpoint(200, { access_token: 'access-1' })
+
+    expect(await requestTokens(TOKEN_URL, {})).toEqual({ accessToken: 'access-1', refreshToken: null, expiresAt: null })
+  })
+
+  it.each([
+    ['an invalid grant', 400, { error: 'invalid_grant' }],
+    ['a rejected client', 401, { error: 'invalid_client' }],
+  ])('asks for a reconnect after %s', async (_case, status, body) => {
+    stubTokenEndpoint(status, body)
+
+    const error = await requestTokens(TOKEN_URL, {}).catch(e => e)
+
+    expect(isReconnectRequired(error)).toBe(true)
+    expect(error.message).toBe(`Token request rejected: ${status} - ${JSON.stringify(body)}`)
+  })
+
+  it.each([
+    ['a server error', 503, {}],
+    ['a rate limit', 429, { error: 'rate_limited' }],
+    ['another client error', 400, { error: 'invalid_request' }],
+  ])('leaves %s to a retry', async (_case, status, body) => {
+    stubTokenEndpoint(status, body)
+
+    const error = await requestTokens(TOKEN_URL, {}).catch(e => e)
+
+    expect(isReconnectRequired(error)).toBe(false)
+    expect(error.message).toBe(`Token request failed: ${status} - ${JSON.stringify(body)}`)
+  })
+
+  it('copes with an error body that is not JSON', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('Bad Gateway', { status: 502 })))
+
+    await expect(requestTokens(TOKEN_URL, {})).rejects.toThrow('Token request failed: 502 - {}')
+  })
+})
@@ -0,0 +1,51 @@
+import { reconnectRequired } from '@/lib/connectors/tokens'
+import type { OAuthTokens } from './types'
+
+// Standard OAuth 2.0 token endpoint response (RFC 6749 section 5.1)
+interface TokenResponse {
+  access_token: string
+  refresh_token?: string
+  expires_in?: number
+}
+
+// POST a form-encoded grant to a token endpoint. A rejected grant or client
+// (invalid_grant, or a 401) throws a reconnect-required error; anything else
+// may go away on a retry.
+export async function requestTokens(
+  url: string,
+  params: Record<string, string>,
+  headers: Record<string, string> = {}
+): Promise<OAuthTokens> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', ...headers },
+    body: new URLSearchParams(params).toString(),
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    if (response.status === 401 || errorData.error === 'invalid_grant') {
+      throw reconnectRequired(`Token request rejected: ${response.status} - ${JSON.stringify(errorData)}`)
+    }
+    throw new Error(`Token request failed: ${response.status} - ${JSON.stringify(errorData)}`)
+  }
+
+  const data: TokenResponse = await response.json()
+
+  return {
+    accessToken: data.access_token,
+    refreshToken: data.refresh_token || null,
+    expiresAt: data.expires_in ? new Date(Date.now() + data.expires_in * 1000).toISOString() : null,
+  }
+}
+
+export function basicAuth(clientId: string, clientSecret: string) {
+  return { Authorization: `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}` }
+}
+
+export function requireCredentials(clientId: string | undefined, clientSecret: string | undefined, platform: string) {
+  if (!clientId || !clientSecret) {
+    throw new Error(`${platform} app credentials are not configured`)
+  }
+  return { clientId, clientSecret }
+}
@@ -0,0 +1,136 @@
+import { randomBytes } from 'crypto'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { SocialAccount } from '@/lib/connectors'
+import { decryptToken, encryptToken, isReconnectRequired, reconnectRequired } from '@/lib/connectors/tokens'
+import { FakeSupabase } from '@/test/supabase'
+import { withFreshToken } from './refresh'
+import type { OAuthProvider } from './types'
+
+const providers = vi.hoisted(() => ({ current: null as OAuthProvider | null }))
+
+vi.mock('./index', () => ({ getOAuthProvider: () => providers.current }))
+
+const NOW = new Date('2024-05-01T12:00:00.000Z').getTime()
+const MINUTE = 60 * 1000
+
+const refreshTokens = vi.fn()
+
+function setup(expiresInMinutes: number | null, fields: Partial<SocialAccount> = {}) {
+  const db = new FakeSupabase({
+    social_accounts: [{
+      id: 'a1',
+      user_id: 'u1',
+      platform: 'twitter',
+      access_token: encryptToken('old-access'),
+      refresh_token: encryptToken('old-refresh'),
+      token_expires_at: expiresInMinutes === null ? null : new Date(NOW + expiresInMinutes * MINUTE).toISOString(),
+      needs_reconnect: false,
+      last_sync_error: null,
+      ...fields,
+    }],
+  })
+  const account = { ...db.tables.social_accounts[0] } as SocialAccount
+  return { db, account, stored: db.tables.social_accounts[0] }
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] })
+  vi.setSystemTime(NOW)
+  vi.stubEnv('TOKEN_ENCRYPTION_KEY', randomBytes(32).toString('base64'))
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+  refreshTokens.mockReset()
+  providers.current = { authorizeUrl: vi.fn(), exchangeCode: vi.fn(), listAccounts: vi.fn(), refreshTokens }
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.unstubAllEnvs()
+})
+
+describe('withFreshToken', () => {
+  it('uses tokens that are good for a while or never expire as they are', async () => {
+    for (const expiresIn of [11, null]) {
+      const { db, account } = setup(expiresIn)
+      expect(await withFreshToken(db.client, account)).toBe(account)
+    }
+    expect(refreshTokens).not.toHaveBeenCalled()
+  })
+
+  it('refreshes a token about to expire and saves the new one encrypted', async () => {
+    const { db, account, stored } = setup(9)
+    refreshTokens.mockResolvedValue({ accessToken: 'new-access', refreshToken: 'new-refresh', expiresAt: '2024-05-01T14:00:00.000Z' })
+
+    const fresh = await withFreshToken(db.client, account)
+
+    expect(refreshTokens).toHaveBeenCalledWith({
+      accessToken: 'old-access',
+      refreshToken: 'old-refresh',
+      expiresAt: account.token_expires_at,
+    })
+    expect(fresh).toEqual(stored)
+    expect(decryptToken(stored.access_token)).toBe('new-access')
+    expect(decryptToken(stored.refresh_token)).toBe('new-refresh')
+    expect(stored.token_expires_at).toBe('2024-05-01T14:00:00.000Z')
+  })
+
+  it('keeps the refresh token when the platform does not rotate it', async () => {
+    const { db, account, stored } = setup(-5)
+    refreshTokens.mockResolvedValue({ accessToken: 'new-access', refreshToken: null, expiresAt: null })
+
+    await withFreshToken(db.client, account)
+
+    expect(decryptToken(stored.refresh_token)).toBe('old-refresh')
+  })
+
+  it('shares one refresh between concurrent callers', async () => {
+    const { db, account } = setup(1)
+    refreshTokens.mockResolvedValue({ accessToken: 'new-access', refreshToken: 'new-refresh', expiresAt: null })
+
+    const [first, second] = await Promise.all([withFreshToken(db.client, account), withFreshToken(db.client, account)])
+
+    expect(refreshTokens).toHaveBeenCalledTimes(1)
+    expect(second).toBe(first)
+  })
+
+  it('flags the account when the platform rejects the refresh', async () => {
+    const { db, account, stored } = setup(1)
+    refreshTokens.mockRejectedValue(reconnectRequired('Token request rejected: 400 - {"error":"invalid_grant"}'))
+
+    const error = await withFreshToken(db.client, account).catch(e => e)
+
+    expect(isReconnectRequired(error)).toBe(true)
+    expect(stored).toMatchObject({
+      needs_reconnect: true,
+      last_sync_error: 'Token request rejected: 400 - {"error":"invalid_grant"}',
+    })
+  })
+
+  it('leaves the account connected when the refresh may succeed on a retry', async () => {
+    const { db, account, stored } = setup(1)
+    refreshTokens.mockRejectedValue(new Error('Token request failed: 503 - {}'))
+
+    const error = await withFreshToken(db.client, account).catch(e => e)
+
+    expect(error.message).toBe('Token request failed: 503 - {}')
+    expect(isReconnectRequired(error)).toBe(false)
+    expect(stored).toMatchObject({ needs_reconnect: false, last_sync_error: null })
+    expect(decryptToken(stored.access_token)).toBe('old-access')
+  })
+
+  it('asks for a reconnect on platforms without refresh', async () => {
+    const { db, account, stored } = setup(1)
+    providers.current = { ...providers.current!, refreshTokens: undefined }
+
+    await expect(withFreshToken(db.client, account)).rejects.toThrow("twitter tokens can't be refreshed")
+    expect(stored.needs_reconnect).toBe(true)
+  })
+
+  it('refuses an account already waiting to be reconnected', async () => {
+    const { db, account } = setup(60, { needs_reconnect: true })
+
+    const error = await withFreshToken(db.client, account).catch(e => e)
+
+    expect(isReconnectRequired(error)).toBe(true)
+    expect(refreshTokens).not.toHaveBeenCalled()
+  })
+})
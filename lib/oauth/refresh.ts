@@ -0,0 +1,98 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { SocialAccount } from '@/lib/connectors'
+import { decryptToken, encryptToken, isReconnectRequired, reconnectRequired } from '@/lib/connectors/tokens'
+import { getOAuthProvider } from './index'
+
+// Tokens closer than this to expiring are renewed before use
+const REFRESH_MARGIN_MS = 10 * 60 * 1000
+
+// Refreshes in flight per account, so concurrent callers share one request.
+// Some platforms rotate refresh tokens, and a second refresh with the old one
+// would fail and disconnect the account.
+const inFlight = new Map<string, Promise<SocialAccount>>()
+
+// Flag an account so the dashboard asks the user to reconnect it and the
+// scheduler stops polling it
+export async function markNeedsReconnect(supabase: SupabaseClient, account: SocialAccount, reason: string) {
+  const { error } = await supabase
+    .from('social_accounts')
+    .update({ needs_reconnect: true, last_sync_error: reason })
+    .eq('id', account.id)
+
+  if (error) {
+    throw error
+  }
+}
+
+async function refreshAccount(supabase: SupabaseClient, account: SocialAccount): Promise<SocialAccount> {
+  const provider = getOAuthProvider(account.platform)
+
+  try {
+    if (!provider?.refreshTokens) {
+      throw reconnectRequired(`${account.platform} tokens can't be refreshed`)
+    }
+
+    const tokens = await provider.refreshTokens({
+      accessToken: decryptToken(account.access_token),
+      refreshToken: account.refresh_token ? decryptToken(account.refresh_token) : null,
+      expiresAt: account.token_expires_at,
+    })
+
+    const { data, error } = await supabase
+      .from('social_accounts')
+      .update({
+        access_token: encryptToken(tokens.accessToken),
+        // Platforms that don't rotate refresh tokens keep the old one
+        ...(tokens.refreshToken && { refresh_token: encryptToken(tokens.refreshToken) }),
+        token_expires_at: tokens.expiresAt,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', account.id)
+      .select('*')
+      .single()
+
+    if (error) {
+      throw error
+    }
+
+    return data as SocialAccount
+  } catch (error) {
+    console.error(`Token refresh for social account ${account.id} failed:`, error)
+
+    // Network errors, 5xx and rate limits are left to the caller's retry;
+    // only a refresh the platform rejected needs the user to reconnect
+    if (isReconnectRequired(error)) {
+      await markNeedsReconnect(supabase, account, (error as Error).message)
+    }
+    throw error
+  }
+}
+
+// The account with a token that is good for at least REFRESH_MARGIN_MS,
+// refreshing and saving it first when needed. Call before handing an account
+// to a connector. Throws a reconnect-required error (see isReconnectRequired)
+// when the account is flagged or the platform rejects the refresh, and the
+// underlying error when the refresh could be retried.
+export async function withFreshToken(supabase: SupabaseClient, account: SocialAccount): Promise<SocialAccount> {
+  if (account.needs_reconnect) {
+    throw reconnectRequired('Account needs to be reconnected')
+  }
+
+  if (!account.token_expires_at || new Date(account.token_expires_at).getTime() - Date.now() > REFRESH_MARGIN_MS) {
+    return account
+  }
+
+  let refresh = inFlight.get(account.id)
+  if (!refresh) {
+    refresh = (async () => {
+      try {
+        return await refreshAccount(supabase, account)
+      } finally {
+        inFlight.delete(account.id)
+      }
+    })()
+    inFlight.set(account.id, refresh)
+  }
+
+  return refresh
+}
@@ -0,0 +1,52 @@
+import { fetchTwitter } from '@/lib/connectors/twitter'
+import { reconnectRequired } from '@/lib/connectors/tokens'
+import { basicAuth, requestTokens, requireCredentials } from './oauth2'
+import type { OAuthProvider } from './types'
+
+const TOKEN_URL = 'https://api.twitter.com/2/oauth2/token'
+
+// offline.access is what makes X issue a refresh token
+const SCOPES = ['tweet.read', 'users.read', 'offline.access']
+
+const credentials = () =>
+  requireCredentials(process.env.TWITTER_CLIENT_ID, process.env.TWITTER_CLIENT_SECRET, 'Twitter')
+
+// X OAuth 2.0 with PKCE. Access tokens last two hours and every refresh
+// rotates the refresh token.
+export const twitterOAuth: OAuthProvider = {
+  authorizeUrl: ({ state, codeChallenge, redirectUri }) => {
+    const url = new URL('https://twitter.com/i/oauth2/authorize')
+    url.searchParams.set('response_type', 'code')
+    url.searchParams.set('client_id', credentials().clientId)
+    url.searchParams.set('redirect_uri', redirectUri)
+    url.searchParams.set('scope', SCOPES.join(' '))
+    url.searchParams.set('state', state)
+    url.searchParams.set('code_challenge', codeChallenge)
+    url.searchParams.set('code_challenge_method', 'S256')
+    return url.toString()
+  },
+  exchangeCode: ({ code, codeVerifier, redirectUri }) => {
+    const { clientId, clientSecret } = credentials()
+    return requestTokens(
+      TOKEN_URL,
+      { grant_type: 'authorization_code', code, redirect_uri: redirectUri, code_verifier: codeVerifier, client_id: clientId },
+      basicAuth(clientId, clientSecret)
+    )
+  },
+  refreshTokens: tokens => {
+    if (!tokens.refreshToken) {
+      throw reconnectRequired('No refresh token stored')
+    }
+    const { clientId, clientSecret } = credentials()
+    return requestTokens(
+      TOKEN_URL,
+      { grant_type: 'refresh_token', refresh_token: tokens.refreshToken, client_id: clientId },
+      basicAuth(clientId, clientSecret)
+    )
+  },
+  // The signed-in user is the one account tracked
+  listAccounts: async tokens => {
+    const { data: me } = await fetchTwitter<{ data: { id: string; username: string } }>('users/me', {}, tokens.accessToken)
+    return [{ accountId: me.id, accountName: `@${me.username}`, tokens }]
+  },
+}
@@ -0,0 +1,32 @@
+import type { SocialPlatform } from '@/lib/connectors'
+
+export interface OAuthTokens {
+  accessToken: string
+  refreshToken: string | null
+  // ISO timestamp; null for tokens that don't expire
+  expiresAt: string | null
+}
+
+// One account the user can track, found with the tokens from the code exchange.
+// A single login can grant several, e.g. every Facebook page the user manages.
+export interface GrantedAccount {
+  accountId: string
+  accountName: string
+  tokens: OAuthTokens
+}
+
+export interface OAuthProvider {
+  authorizeUrl(params: { state: string; codeChallenge: string; redirectUri: string }): string
+  exchangeCode(params: { code: string; codeVerifier: string; redirectUri: string }): Promise<OAuthTokens>
+  listAccounts(tokens: OAuthTokens): Promise<GrantedAccount[]>
+  // Renew tokens before they expire; platforms without it need a reconnect
+  refreshTokens?(tokens: OAuthTokens): Promise<OAuthTokens>
+}
+
+// Kept in a short-lived cookie between the redirect and the callback
+export interface PendingAuthorization {
+  platform: SocialPlatform
+  userId: string
+  state: string
+  codeVerifier: string
+}
@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { SocialAccount } from '@/lib/connectors'
+import { FakeSupabase } from '@/test/supabase'
+import { assertPlatformAllowed, canUsePlatform, getSubscriptionTier } from './plans'
+
+const admin = vi.hoisted(() => ({ db: null as unknown as FakeSupabase }))
+
+vi.mock('@/lib/supabase', () => ({ createSupabaseAdmin: () => admin.db.client }))
+
+beforeEach(() => {
+  admin.db = new FakeSupabase({
+    profiles: [
+      { id: 'pro', subscription_tier: 'professional' },
+      { id: 'starter', subscription_tier: 'starter' },
+      { id: 'free', subscription_tier: null },
+    ],
+  })
+})
+
+describe('canUsePlatform', () => {
+  it('keeps Twitter/X and LinkedIn to the Professional plan', () => {
+    expect(canUsePlatform('professional', 'twitter')).toBe(true)
+    expect(canUsePlatform('professional', 'linkedin')).toBe(true)
+    expect(canUsePlatform('starter', 'twitter')).toBe(false)
+    expect(canUsePlatform(null, 'linkedin')).toBe(false)
+  })
+
+  it('lets every plan use Instagram and Facebook', () => {
+    expect(canUsePlatform(null, 'instagram')).toBe(true)
+    expect(canUsePlatform('starter', 'facebook')).toBe(true)
+  })
+})
+
+describe('getSubscriptionTier', () => {
+  it('reads the tier from the profile', async () => {
+    expect(await getSubscriptionTier('pro')).toBe('professional')
+    expect(await getSubscriptionTier('free')).toBeNull()
+    expect(await getSubscriptionTier('missing')).toBeNull()
+  })
+})
+
+describe('assertPlatformAllowed', () => {
+  const account = (userId: string, platform: SocialAccount['platform']) => ({ user_id: userId, platform }) as SocialAccount
+
+  it('stops syncing Professional-only accounts after a downgrade', async () => {
+    await expect(assertPlatformAllowed(account('starter', 'linkedin'))).rejects.toThrow('LinkedIn requires the Professional plan')
+    await expect(assertPlatformAllowed(account('pro', 'linkedin'))).resolves.toBeUndefined()
+  })
+
+  it('does not look up the plan for other platforms', async () => {
+    admin.db.failures['profiles.select'] = 'should not be read'
+
+    await expect(assertPlatformAllowed(account('starter', 'instagram'))).resolves.toBeUndefined()
+  })
+})
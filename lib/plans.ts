@@ -0,0 +1,47 @@
+import type { Database } from '@/supabase'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import type { SocialAccount, SocialPlatform } from '@/lib/connectors'
+
+export type SubscriptionTier = NonNullable<Database['public']['Tables']['profiles']['Row']['subscription_tier']>
+
+// Platforms only the Professional plan can connect and sync
+export const PROFESSIONAL_PLATFORMS: SocialPlatform[] = ['twitter', 'linkedin']
+
+export const PLATFORM_NAMES: Record<SocialPlatform, string> = {
+  instagram: 'Instagram',
+  facebook: 'Facebook',
+  twitter: 'Twitter/X',
+  linkedin: 'LinkedIn',
+}
+
+export function canUsePlatform(tier: SubscriptionTier | null, platform: SocialPlatform) {
+  return !PROFESSIONAL_PLATFORMS.includes(platform) || tier === 'professional'
+}
+
+// Read with the service role: the tier gates paid platforms, so it must come
+// from where only the billing webhook writes, whatever client the caller holds
+export async function getSubscriptionTier(userId: string): Promise<SubscriptionTier | null> {
+  const { data, error } = await createSupabaseAdmin()
+    .from('profiles')
+    .select('subscription_tier')
+    .eq('id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  return data?.subscription_tier ?? null
+}
+
+// Stops syncing Professional-only accounts once the owner downgrades; the
+// error shows up on the account's card like any other sync failure
+export async function assertPlatformAllowed(account: SocialAccount) {
+  if (!PROFESSIONAL_PLATFORMS.includes(account.platform)) {
+    return
+  }
+
+  if (!canUsePlatform(await getSubscriptionTier(account.user_id), account.platform)) {
+    throw new Error(`${PLATFORM_NAMES[account.platform]} requires the Professional plan`)
+  }
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest'
+import { buildBenchmark, type BenchmarkRow } from './benchmark'
+
+const row = (
+  competitorId: string | null,
+  date: string,
+  totalMentions: number,
+  analyzedMentions: number,
+  averageScore: number | null,
+  positiveCount = 0,
+  negativeCount = 0
+): BenchmarkRow => ({
+  competitor_id: competitorId,
+  date,
+  total_mentions: totalMentions,
+  analyzed_mentions: analyzedMentions,
+  positive_count: positiveCount,
+  negative_count: negativeCount,
+  average_score: averageScore,
+})
+
+const competitors = [
+  { id: 'q1', name: 'Rival' },
+  { id: 'q2', name: 'Upstart' },
+]
+
+describe('buildBenchmark', () => {
+  it('splits share of voice across us and each competitor', () => {
+    const benchmark = buildBenchmark([
+      row(null, '2024-05-01', 6, 6, 7, 4, 1),
+      row('q1', '2024-05-01', 3, 3, 4, 0, 2),
+      row('q2', '2024-05-02', 1, 1, 9, 1, 0),
+    ], competitors)
+
+    expect(benchmark.entities).toEqual([
+      { id: null, name: 'You', mentions: 6, shareOfVoice: 0.6, averageScore: 7, positiveCount: 4, negativeCount: 1 },
+      { id: 'q1', name: 'Rival', mentions: 3, shareOfVoice: 0.3, averageScore: 4, positiveCount: 0, negativeCount: 2 },
+      { id: 'q2', name: 'Upstart', mentions: 1, shareOfVoice: 0.1, averageScore: 9, positiveCount: 1, negativeCount: 0 },
+    ])
+  })
+
+  it('weights scores by analyzed mentions instead of averaging daily averages', () => {
+    const benchmark = buildBenchmark([
+      row(null, '2024-05-01', 5, 1, 2),
+      row(null, '2024-05-02', 5, 3, 6),
+    ], competitors)
+
+    // (2 * 1 + 6 * 3) / 4, not (2 + 6) / 2
+    expect(benchmark.entities[0]).toMatchObject({ mentions: 10, averageScore: 5 })
+  })
+
+  it('leaves the average empty without analyzed mentions', () => {
+    const benchmark = buildBenchmark([row('q1', '2024-05-01', 4, 0, null)], competitors)
+
+    expect(benchmark.entities.map(entity => [entity.mentions, entity.shareOfVoice, entity.averageScore])).toEqual([
+      [0, 0, null],
+      [4, 1, null],
+      [0, 0, null],
+    ])
+  })
+
+  it('computes share of voice per day, in date order', () => {
+    const benchmark = buildBenchmark([
+      row('q1', '2024-05-02', 2, 2, 5),
+      row(null, '2024-05-01', 4, 4, 8),
+      row(null, '2024-05-02', 6, 6, 6),
+    ], competitors.slice(0, 1))
+
+    expect(benchmark.days).toEqual([
+      {
+        date: '2024-05-01',
+        entities: [
+          { id: null, mentions: 4, shareOfVoice: 1, averageScore: 8 },
+          { id: 'q1', mentions: 0, shareOfVoice: 0, averageScore: null },
+        ],
+      },
+      {
+        date: '2024-05-02',
+        entities: [
+          { id: null, mentions: 6, shareOfVoice: 0.75, averageScore: 6 },
+          { id: 'q1', mentions: 2, shareOfVoice: 0.25, averageScore: 5 },
+        ],
+      },
+    ])
+  })
+
+  it('ignores rows of queries that are no longer competitors', () => {
+    const benchmark = buildBenchmark([
+      row(null, '2024-05-01', 3, 3, 7),
+      row('deleted', '2024-05-01', 9, 9, 1),
+    ], competitors.slice(0, 1), 'Acme')
+
+    expect(benchmark.entities[0]).toMatchObject({ name: 'Acme', mentions: 3, shareOfVoice: 1 })
+    expect(benchmark.days[0].entities).toHaveLength(2)
+  })
+
+  it('returns zero shares without any mentions', () => {
+    expect(buildBenchmark([], competitors)).toEqual({
+      entities: [
+        { id: null, name: 'You', mentions: 0, shareOfVoice: 0, averageScore: null, positiveCount: 0, negativeCount: 0 },
+        { id: 'q1', name: 'Rival', mentions: 0, shareOfVoice: 0, averageScore: null, positiveCount: 0, negativeCount: 0 },
+        { id: 'q2', name: 'Upstart', mentions: 0, shareOfVoice: 0, averageScore: null, positiveCount: 0, negativeCount: 0 },
+      ],
+      days: [],
+    })
+  })
+})
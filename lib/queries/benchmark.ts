@@ -0,0 +1,157 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// One day of daily_benchmark_sentiment: our mentions when competitor_id is
+// null, otherwise the mentions one competitor query matched
+export interface BenchmarkRow {
+  competitor_id: string | null
+  date: string
+  total_mentions: number
+  analyzed_mentions: number
+  positive_count: number
+  negative_count: number
+  average_score: number | null
+}
+
+export interface BenchmarkEntity {
+  // null for the user's own brand
+  id: string | null
+  name: string
+  mentions: number
+  // Fraction (0-1) of all mentions in the window across us and the competitors
+  shareOfVoice: number
+  // Mean over analyzed mentions, null when none were analyzed
+  averageScore: number | null
+  positiveCount: number
+  negativeCount: number
+}
+
+export interface BenchmarkDay {
+  date: string
+  entities: {
+    id: string | null
+    mentions: number
+    shareOfVoice: number
+    averageScore: number | null
+  }[]
+}
+
+export interface Benchmark {
+  entities: BenchmarkEntity[]
+  days: BenchmarkDay[]
+}
+
+interface Tally {
+  mentions: number
+  analyzed: number
+  scoreSum: number
+  positive: number
+  negative: number
+}
+
+function emptyTally(): Tally {
+  return { mentions: 0, analyzed: 0, scoreSum: 0, positive: 0, negative: 0 }
+}
+
+function addRow(tally: Tally, row: BenchmarkRow) {
+  tally.mentions += row.total_mentions
+  tally.analyzed += row.analyzed_mentions
+  tally.scoreSum += (row.average_score ?? 0) * row.analyzed_mentions
+  tally.positive += row.positive_count
+  tally.negative += row.negative_count
+}
+
+function averageOf(tally: Tally) {
+  return tally.analyzed > 0 ? tally.scoreSum / tally.analyzed : null
+}
+
+const keyOf = (id: string | null) => id ?? ''
+
+// Roll daily rows up into share of voice and average score for us and each
+// competitor, over the whole window and per day. Scores are weighted by the
+// number of analyzed mentions rather than averaging the daily averages.
+export function buildBenchmark(
+  rows: BenchmarkRow[],
+  competitors: { id: string; name: string }[],
+  ownName = 'You'
+): Benchmark {
+  const entities = [{ id: null as string | null, name: ownName }].concat(competitors)
+  const known = new Set(entities.map(entity => keyOf(entity.id)))
+
+  const totals = new Map<string, Tally>()
+  const daily = new Map<string, Map<string, Tally>>()
+
+  for (const row of rows) {
+    const key = keyOf(row.competitor_id)
+    // Rows of queries that were deleted or are no longer competitors
+    if (!known.has(key)) continue
+
+    const total = totals.get(key) || emptyTally()
+    addRow(total, row)
+    totals.set(key, total)
+
+    const day = daily.get(row.date) || new Map<string, Tally>()
+    const dayTally = day.get(key) || emptyTally()
+    addRow(dayTally, row)
+    day.set(key, dayTally)
+    daily.set(row.date, day)
+  }
+
+  const allMentions = Array.from(totals.values()).reduce((sum, tally) => sum + tally.mentions, 0)
+
+  return {
+    entities: entities.map(entity => {
+      const tally = totals.get(keyOf(entity.id)) || emptyTally()
+      return {
+        id: entity.id,
+        name: entity.name,
+        mentions: tally.mentions,
+        shareOfVoice: allMentions > 0 ? tally.mentions / allMentions : 0,
+        averageScore: averageOf(tally),
+        positiveCount: tally.positive,
+        negativeCount: tally.negative,
+      }
+    }),
+    days: Array.from(daily.keys()).sort().map(date => {
+      const day = daily.get(date)!
+      const dayMentions = Array.from(day.values()).reduce((sum, tally) => sum + tally.mentions, 0)
+      return {
+        date,
+        entities: entities.map(entity => {
+          const tally = day.get(keyOf(entity.id)) || emptyTally()
+          return {
+            id: entity.id,
+            mentions: tally.mentions,
+            shareOfVoice: dayMentions > 0 ? tally.mentions / dayMentions : 0,
+            averageScore: averageOf(tally),
+          }
+        }),
+      }
+    }),
+  }
+}
+
+// Benchmark the user against every competitor query from `since` (a date) on
+export async function loadBenchmark(supabase: SupabaseClient, userId: string, since: string) {
+  const { data: competitors, error: competitorsError } = await supabase
+    .from('tracked_queries')
+    .select('id, name')
+    .eq('user_id', userId)
+    .eq('kind', 'competitor')
+    .order('created_at', { ascending: true })
+
+  if (competitorsError) {
+    throw competitorsError
+  }
+
+  const { data: rows, error } = await supabase
+    .from('daily_benchmark_sentiment')
+    .select('competitor_id, date, total_mentions, analyzed_mentions, positive_count, negative_count, average_score')
+    .eq('user_id', userId)
+    .gte('date', since)
+
+  if (error) {
+    throw error
+  }
+
+  return buildBenchmark((rows || []) as BenchmarkRow[], competitors || [])
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest'
+import { matchesQuery, parseQuery, positiveTerms, toTwitterQuery } from './expression'
+
+const matches = (expression: string, text: string) => matchesQuery(parseQuery(expression), text)
+
+describe('parseQuery', () => {
+  it('binds AND tighter than OR and ANDs adjacent terms', () => {
+    expect(parseQuery('acme OR delivery shipping')).toEqual({
+      type: 'or',
+      children: [
+        { type: 'term', value: 'acme', prefix: false },
+        {
+          type: 'and',
+          children: [
+            { type: 'term', value: 'delivery', prefix: false },
+            { type: 'term', value: 'shipping', prefix: false },
+          ],
+        },
+      ],
+    })
+  })
+
+  it('reads phrases, prefixes, negation and grouping', () => {
+    expect(parseQuery('("Acme  Corp" OR Refund*) -jobs')).toEqual({
+      type: 'and',
+      children: [
+        {
+          type: 'or',
+          children: [
+            { type: 'term', value: 'acme corp', prefix: false },
+            { type: 'term', value: 'refund', prefix: true },
+          ],
+        },
+        { type: 'not', child: { type: 'term', value: 'jobs', prefix: false } },
+      ],
+    })
+  })
+
+  it('treats a quoted star and a lone star as literal terms', () => {
+    expect(parseQuery('"refund*"')).toEqual({ type: 'term', value: 'refund*', prefix: false })
+    expect(parseQuery('*')).toEqual({ type: 'term', value: '*', prefix: false })
+  })
+
+  it.each([
+    ['', 'Expression is empty'],
+    ['"acme', 'Unclosed quote'],
+    ['(acme OR shipping', 'Missing closing parenthesis'],
+    ['acme)', 'Unexpected closing parenthesis'],
+    ['acme OR', 'Expression ends too early'],
+    ['OR acme', 'Unexpected OR'],
+    ['-jobs NOT refund', 'Expression needs at least one term to look for'],
+  ])('rejects %j', (expression, message) => {
+    expect(() => parseQuery(expression)).toThrow(message)
+  })
+})
+
+describe('matchesQuery', () => {
+  it('matches whole words regardless of case', () => {
+    expect(matches('acme', 'Loving my new ACME blender')).toBe(true)
+    expect(matches('acme', 'Acme, again!')).toBe(true)
+    expect(matches('acme', 'acmeco is a different brand')).toBe(false)
+    expect(matches('acme', 'megaacme')).toBe(false)
+  })
+
+  it('matches any ending of a prefix term', () => {
+    expect(matches('refund*', 'Still waiting for my refunds')).toBe(true)
+    expect(matches('refund*', 'No prerefund here')).toBe(false)
+  })
+
+  it('matches phrases across any whitespace', () => {
+    expect(matches('"acme corp"', 'Thanks Acme\nCorp for the help')).toBe(true)
+    expect(matches('"acme corp"', 'Acme is not a corp')).toBe(false)
+  })
+
+  it('matches hashtags and handles as terms', () => {
+    expect(matches('#acmelove', 'Best day ever #AcmeLove')).toBe(true)
+    expect(matches('@acme', 'Hey @acme, where is my order?')).toBe(true)
+    expect(matches('@acme', 'Hey @acme_support')).toBe(false)
+  })
+
+  it('treats Cyrillic letters as part of words', () => {
+    expect(matches('доставка', 'Доставка была быстрой')).toBe(true)
+    expect(matches('доставка', 'Доставками довольны')).toBe(false)
+    expect(matches('доставк*', 'Доставками довольны')).toBe(true)
+  })
+
+  it('applies AND, OR and NOT', () => {
+    const query = '(delivery OR shipping) AND @acme NOT refund*'
+
+    expect(matches(query, '@acme shipping took a week')).toBe(true)
+    expect(matches(query, '@acme delivery was late, asked for a refund')).toBe(false)
+    expect(matches(query, 'shipping took a week')).toBe(false)
+  })
+})
+
+describe('positiveTerms', () => {
+  it('leaves out negated terms, and double negation counts again', () => {
+    expect(positiveTerms(parseQuery('(acme OR "acme corp") -jobs NOT (careers -acme)'))).toEqual([
+      'acme',
+      'acme corp',
+      'acme',
+    ])
+  })
+})
+
+describe('toTwitterQuery', () => {
+  it('keeps grouping, phrases and negation', () => {
+    expect(toTwitterQuery(parseQuery('(acme OR "acme corp" OR #acmelove) -jobs'))).toBe(
+      '(acme OR "acme corp" OR #acmelove) -jobs'
+    )
+    expect(toTwitterQuery(parseQuery('delivery late OR shipping -(refund OR return)'))).toBe(
+      '(delivery late) OR (shipping -(refund OR return))'
+    )
+  })
+
+  it('searches for the stem of a prefix term', () => {
+    expect(toTwitterQuery(parseQuery('acme refund*'))).toBe('acme refund')
+  })
+})
@@ -0,0 +1,191 @@
+// Boolean keyword expressions for tracked queries, e.g.
+//   (acme OR "acme corp" OR #acmelove) -jobs
+//   (delivery OR shipping) AND @acme NOT refund*
+// Terms are case-insensitive whole words; `*` at the end of a term matches
+// any ending, quotes make a phrase, adjacent terms are ANDed and `-` is NOT.
+// AND binds tighter than OR, as in most search engines.
+
+export type QueryNode =
+  | { type: 'term'; value: string; prefix: boolean }
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+
+type Token =
+  | { type: 'open' | 'close' | 'and' | 'or' | 'not' }
+  | { type: 'term'; value: string; quoted: boolean }
+
+// Letters (Latin and Cyrillic scripts included), digits and underscore
+const WORD_CHARS = 'a-z0-9_\\u00c0-\\u024f\\u0400-\\u04ff'
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < expression.length) {
+    const char = expression[i]
+
+    if (/\s/.test(char)) {
+      i++
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'open' : 'close' })
+      i++
+    } else if (char === '-' && i + 1 < expression.length && !/\s/.test(expression[i + 1])) {
+      tokens.push({ type: 'not' })
+      i++
+    } else if (char === '"') {
+      const end = expression.indexOf('"', i + 1)
+      if (end === -1) {
+        throw new Error('Unclosed quote')
+      }
+      const phrase = expression.slice(i + 1, end).trim().replace(/\s+/g, ' ')
+      if (phrase) tokens.push({ type: 'term', value: phrase, quoted: true })
+      i = end + 1
+    } else {
+      let end = i
+      while (end < expression.length && !/[\s()"]/.test(expression[end])) end++
+      const word = expression.slice(i, end)
+      if (word === 'AND' || word === 'OR' || word === 'NOT') {
+        tokens.push({ type: word.toLowerCase() as 'and' | 'or' | 'not' })
+      } else {
+        tokens.push({ type: 'term', value: word, quoted: false })
+      }
+      i = end
+    }
+  }
+
+  return tokens
+}
+
+// Throws with a readable message when the expression doesn't parse
+export function parseQuery(expression: string): QueryNode {
+  const tokens = tokenize(expression)
+  let position = 0
+
+  const peek = () => tokens[position]
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()]
+    while (peek()?.type === 'or') {
+      position++
+      children.push(parseAnd())
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children }
+  }
+
+  const parseAnd = (): QueryNode => {
+    const children = [parseUnary()]
+    for (let next = peek(); next && next.type !== 'or' && next.type !== 'close'; next = peek()) {
+      if (next.type === 'and') position++
+      children.push(parseUnary())
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children }
+  }
+
+  const parseUnary = (): QueryNode => {
+    const token = peek()
+    if (!token) {
+      throw new Error('Expression ends too early')
+    }
+    position++
+
+    switch (token.type) {
+      case 'not':
+        return { type: 'not', child: parseUnary() }
+      case 'open': {
+        const inner = parseOr()
+        if (peek()?.type !== 'close') {
+          throw new Error('Missing closing parenthesis')
+        }
+        position++
+        return inner
+      }
+      case 'term': {
+        const prefix = !token.quoted && token.value.length > 1 && token.value.endsWith('*')
+        return { type: 'term', value: (prefix ? token.value.slice(0, -1) : token.value).toLowerCase(), prefix }
+      }
+      default:
+        throw new Error(`Unexpected ${token.type.toUpperCase()}`)
+    }
+  }
+
+  if (tokens.length === 0) {
+    throw new Error('Expression is empty')
+  }
+
+  const root = parseOr()
+  if (position < tokens.length) {
+    throw new Error('Unexpected closing parenthesis')
+  }
+
+  // A query made only of exclusions would match nearly everything
+  if (positiveTerms(root).length === 0) {
+    throw new Error('Expression needs at least one term to look for')
+  }
+
+  return root
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+const termPatterns = new Map<string, RegExp>()
+
+function termPattern(term: Extract<QueryNode, { type: 'term' }>) {
+  const key = `${term.value}|${term.prefix}`
+  let pattern = termPatterns.get(key)
+
+  if (!pattern) {
+    // Phrase words may be separated by any whitespace
+    const body = term.value.split(/\s+/).map(escapeRegExp).join('\\s+')
+    const end = term.prefix ? '' : `(?![${WORD_CHARS}])`
+    pattern = new RegExp(`(?:^|[^${WORD_CHARS}])${body}${end}`, 'i')
+    termPatterns.set(key, pattern)
+  }
+
+  return pattern
+}
+
+export function matchesQuery(node: QueryNode, text: string): boolean {
+  switch (node.type) {
+    case 'term':
+      return termPattern(node).test(text)
+    case 'and':
+      return node.children.every(child => matchesQuery(child, text))
+    case 'or':
+      return node.children.some(child => matchesQuery(child, text))
+    case 'not':
+      return !matchesQuery(node.child, text)
+  }
+}
+
+// Terms that have to be present for a match, i.e. not under a NOT
+export function positiveTerms(node: QueryNode, negated = false): string[] {
+  switch (node.type) {
+    case 'term':
+      return negated ? [] : [node.value]
+    case 'and':
+    case 'or':
+      return node.children.reduce<string[]>((terms, child) => terms.concat(positiveTerms(child, negated)), [])
+    case 'not':
+      return positiveTerms(node.child, !negated)
+  }
+}
+
+// Twitter/X search syntax is close enough to ours: space is AND, OR and
+// parentheses work the same, `-` negates and quotes make phrases. It has no
+// prefix wildcards, so `refund*` searches for the stem and the local match
+// afterwards decides.
+export function toTwitterQuery(node: QueryNode): string {
+  switch (node.type) {
+    case 'term':
+      return /\s/.test(node.value) ? `"${node.value}"` : node.value
+    case 'and':
+      return node.children.map(child => (child.type === 'or' ? `(${toTwitterQuery(child)})` : toTwitterQuery(child))).join(' ')
+    case 'or':
+      return node.children.map(child => (child.type === 'and' ? `(${toTwitterQuery(child)})` : toTwitterQuery(child))).join(' OR ')
+    case 'not':
+      return node.child.type === 'term' ? `-${toTwitterQuery(node.child)}` : `-(${toTwitterQuery(node.child)})`
+  }
+}
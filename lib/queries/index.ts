@@ -0,0 +1,210 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import type { Database } from '@/supabase'
+import { matchesQuery, parseQuery, type QueryNode } from './expression'
+
+export * from './expression'
+
+export type TrackedQuery = Database['public']['Tables']['tracked_queries']['Row']
+export type QueryKind = TrackedQuery['kind']
+
+export const QUERY_KINDS: QueryKind[] = ['brand', 'hashtag', 'competitor', 'keyword']
+
+// Mentions re-checked when a query is created or its expression changes
+const BACKFILL_LIMIT = 5000
+const BACKFILL_PAGE_SIZE = 500
+
+const expressionSchema = z.string().trim().min(1).max(500).superRefine((expression, ctx) => {
+  try {
+    parseQuery(expression)
+  } catch (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid expression: ${(error as Error).message}` })
+  }
+})
+
+export const queryInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  kind: z.enum(['brand', 'hashtag', 'competitor', 'keyword']),
+  expression: expressionSchema,
+  isActive: z.boolean().optional(),
+})
+
+export const queryUpdateSchema = queryInputSchema.partial()
+
+export type QueryInput = z.infer<typeof queryInputSchema>
+export type QueryUpdate = z.infer<typeof queryUpdateSchema>
+
+export async function listQueries(supabase: SupabaseClient, userId: string): Promise<TrackedQuery[]> {
+  const { data, error } = await supabase
+    .from('tracked_queries')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw error
+  }
+
+  return (data || []) as TrackedQuery[]
+}
+
+async function getActiveQueries(supabase: SupabaseClient, userId: string) {
+  const { data, error } = await supabase
+    .from('tracked_queries')
+    .select('id, expression')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+
+  if (error) {
+    throw error
+  }
+
+  return (data || []).map((query: { id: string; expression: string }) => ({ id: query.id, node: parseQuery(query.expression) }))
+}
+
+async function attachMatches(
+  supabase: SupabaseClient,
+  userId: string,
+  queries: { id: string; node: QueryNode }[],
+  mentions: { id: string; content: string }[]
+) {
+  const links = mentions.reduce<Database['public']['Tables']['mention_queries']['Insert'][]>((rows, mention) => {
+    for (const query of queries) {
+      if (matchesQuery(query.node, mention.content)) {
+        rows.push({ mention_id: mention.id, query_id: query.id, user_id: userId })
+      }
+    }
+    return rows
+  }, [])
+
+  if (links.length === 0) {
+    return 0
+  }
+
+  const { error } = await supabase
+    .from('mention_queries')
+    .upsert(links, { onConflict: 'mention_id,query_id', ignoreDuplicates: true })
+
+  if (error) {
+    throw error
+  }
+
+  return links.length
+}
+
+// Link freshly stored mentions to every active query of the user they match.
+// Links are only ever added here; a mention edited so it no longer matches
+// keeps its link, like a search result that was already seen.
+export async function matchTrackedQueries(
+  supabase: SupabaseClient,
+  userId: string,
+  mentions: { id: string; content: string }[]
+) {
+  if (mentions.length === 0) {
+    return 0
+  }
+
+  const queries = await getActiveQueries(supabase, userId)
+  return queries.length > 0 ? attachMatches(supabase, userId, queries, mentions) : 0
+}
+
+// Re-check the user's most recent mentions against one query, replacing
+// whatever it matched before. Run when a query is created or edited.
+async function backfillQuery(supabase: SupabaseClient, query: TrackedQuery) {
+  const { error: clearError } = await supabase
+    .from('mention_queries')
+    .delete()
+    .eq('query_id', query.id)
+
+  if (clearError) {
+    throw clearError
+  }
+
+  const node = parseQuery(query.expression)
+  let matched = 0
+
+  for (let offset = 0; offset < BACKFILL_LIMIT; offset += BACKFILL_PAGE_SIZE) {
+    const { data: mentions, error } = await supabase
+      .from('mentions')
+      .select('id, content')
+      .eq('user_id', query.user_id)
+      .order('posted_at', { ascending: false })
+      .range(offset, offset + BACKFILL_PAGE_SIZE - 1)
+
+    if (error) {
+      throw error
+    }
+
+    matched += await attachMatches(supabase, query.user_id, [{ id: query.id, node }], mentions || [])
+    if (!mentions || mentions.length < BACKFILL_PAGE_SIZE) break
+  }
+
+  return matched
+}
+
+export async function createQuery(supabase: SupabaseClient, userId: string, input: QueryInput) {
+  const { data, error } = await supabase
+    .from('tracked_queries')
+    .insert({
+      user_id: userId,
+      name: input.name,
+      kind: input.kind,
+      expression: input.expression,
+      is_active: input.isActive ?? true,
+    })
+    .select('*')
+    .single()
+
+  if (error) {
+    throw error
+  }
+
+  const query = data as TrackedQuery
+  return { query, matched: await backfillQuery(supabase, query) }
+}
+
+// null when the query doesn't exist or belongs to someone else
+export async function updateQuery(supabase: SupabaseClient, userId: string, queryId: string, input: QueryUpdate) {
+  const { data, error } = await supabase
+    .from('tracked_queries')
+    .update({
+      ...(input.name !== undefined && { name: input.name }),
+      ...(input.kind !== undefined && { kind: input.kind }),
+      // A new expression searches from scratch
+      ...(input.expression !== undefined && { expression: input.expression, search_cursors: {}, last_search_error: null }),
+      ...(input.isActive !== undefined && { is_active: input.isActive }),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', queryId)
+    .eq('user_id', userId)
+    .select('*')
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  if (!data) {
+    return null
+  }
+
+  const query = data as TrackedQuery
+  const matched = input.expression !== undefined ? await backfillQuery(supabase, query) : undefined
+  return { query, matched }
+}
+
+// Matched mentions stay; only their link to the query goes
+export async function deleteQuery(supabase: SupabaseClient, userId: string, queryId: string) {
+  const { data, error } = await supabase
+    .from('tracked_queries')
+    .delete()
+    .eq('id', queryId)
+    .eq('user_id', userId)
+    .select('id')
+
+  if (error) {
+    throw error
+  }
+
+  return (data?.length || 0) > 0
+}
@@ -0,0 +1,70 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getConnector, type MentionInsert, type SocialAccount } from '@/lib/connectors'
+import { storeItems } from '@/lib/connectors/ingest'
+import { isReconnectRequired } from '@/lib/connectors/tokens'
+import { matchesQuery, parseQuery } from './expression'
+import type { TrackedQuery } from './index'
+
+export interface SearchResult {
+  queries: number
+  inserted: number
+  duplicates: number
+  insertedIds: string[]
+}
+
+// Run the user's active tracked queries through the account's platform
+// search, so mentions show up beyond the account's own posts. Each query
+// keeps a cursor per account in `search_cursors`. Only results whose text
+// matches the expression are stored; storing links them to the query.
+// A failing query is recorded on it and doesn't stop the others, except
+// for token problems, which the caller handles for the whole account.
+export async function searchTrackedQueries(supabase: SupabaseClient, account: SocialAccount): Promise<SearchResult> {
+  const result: SearchResult = { queries: 0, inserted: 0, duplicates: 0, insertedIds: [] }
+  const connector = getConnector(account.platform)
+
+  if (!connector.search) {
+    return result
+  }
+
+  const { data: queries, error } = await supabase
+    .from('tracked_queries')
+    .select('*')
+    .eq('user_id', account.user_id)
+    .eq('is_active', true)
+
+  if (error) {
+    throw error
+  }
+
+  for (const query of (queries || []) as TrackedQuery[]) {
+    try {
+      const node = parseQuery(query.expression)
+      const { items, cursor } = await connector.search(account, node, query.search_cursors[account.id] ?? null)
+
+      const matching = items.filter(item => {
+        const row: MentionInsert | null = connector.normalize(item, account)
+        return row !== null && matchesQuery(node, row.content)
+      })
+      const stored = await storeItems(supabase, account, connector, matching)
+
+      result.queries++
+      result.inserted += stored.inserted
+      result.duplicates += stored.duplicates
+      result.insertedIds.push(...stored.insertedIds)
+
+      // Other accounts may be searching the same query right now, so only
+      // this account's key is written
+      await supabase.rpc('record_search_cursor', { p_query_id: query.id, p_account_id: account.id, p_cursor: cursor })
+    } catch (error) {
+      if (isReconnectRequired(error)) throw error
+
+      console.error(`Search for tracked query ${query.id} on account ${account.id} failed:`, error)
+      await supabase
+        .from('tracked_queries')
+        .update({ last_search_error: error instanceof Error ? error.message : 'Search failed' })
+        .eq('id', query.id)
+    }
+  }
+
+  return result
+}
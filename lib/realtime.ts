@@ -0,0 +1,40 @@
+import { createBrowserClient } from '@supabase/ssr'
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js'
+import type { Database } from '@/supabase'
+
+type Tables = Database['public']['Tables']
+
+// Tables published to supabase_realtime (see the README setup SQL)
+export type RealtimeTable = 'mentions' | 'sentiment_analytics'
+
+// Call `onChange` with every row of the user's that is inserted into or updated
+// in `table`. Realtime only delivers rows the signed-in user's RLS policies let
+// them select; the user_id filter spares the server from checking anyone
+// else's. Returns a function that unsubscribes.
+export function subscribeToRows<T extends RealtimeTable>(
+  table: T,
+  userId: string,
+  onChange: (row: Tables[T]['Row']) => void
+) {
+  // A browser client: lib/supabase reads cookies through next/headers, which
+  // client components can't import. createBrowserClient reuses one instance.
+  const supabase = createBrowserClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!)
+
+  // Topics are unique per subscription so a remount never reuses a closing channel
+  const channel = supabase
+    .channel(`${table}:${userId}:${Math.random().toString(36).slice(2)}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table, filter: `user_id=eq.${userId}` },
+      (payload: RealtimePostgresChangesPayload<Tables[T]['Row']>) => {
+        if (payload.eventType === 'INSERT' || payload.eventType === 'UPDATE') {
+          onChange(payload.new)
+        }
+      }
+    )
+    .subscribe()
+
+  return () => {
+    supabase.removeChannel(channel)
+  }
+}
@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { analyzeSentimentBatch } from './batch'
+import type { SentimentProvider, SentimentResult } from './types'
+
+const result = (score: number, label: SentimentResult['label']): SentimentResult => ({
+  score,
+  label,
+  reasoning: `Scored ${score}`,
+  confidence: 0.9,
+  aspects: [],
+  emotions: [],
+  language: null,
+  translation: null,
+  sarcastic: false,
+})
+
+const items = [
+  { id: 'a', content: 'Love it' },
+  { id: 'b', content: 'Hate it' },
+  { id: 'c', content: 'It exists' },
+]
+
+// Batch entries come from `entries`; single calls score 5 unless the content is in `failing`
+function stubProvider(entries: () => Promise<Record<string, unknown>>, failing: string[] = []) {
+  const provider = {
+    name: 'stub',
+    model: 'stub',
+    promptVersion: 'stub',
+    analyze: vi.fn(async (content: string) => {
+      if (failing.includes(content)) throw new Error(`Could not analyze "${content}"`)
+      return result(5, 'neutral')
+    }),
+    analyzeBatch: vi.fn(entries),
+  }
+  return provider satisfies SentimentProvider
+}
+
+describe('analyzeSentimentBatch', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  it('uses one batch call when every entry checks out', async () => {
+    const provider = stubProvider(async () => ({ a: result(9, 'positive'), b: result(1, 'negative'), c: result(5, 'neutral') }))
+
+    expect(await analyzeSentimentBatch(provider, items)).toEqual([
+      { id: 'a', sentiment: expect.objectContaining({ score: 9 }), fallback: false },
+      { id: 'b', sentiment: expect.objectContaining({ score: 1 }), fallback: false },
+      { id: 'c', sentiment: expect.objectContaining({ score: 5 }), fallback: false },
+    ])
+    expect(provider.analyzeBatch).toHaveBeenCalledTimes(1)
+    expect(provider.analyze).not.toHaveBeenCalled()
+  })
+
+  it('re-analyzes a missing entry on its own', async () => {
+    const provider = stubProvider(async () => ({ a: result(9, 'positive'), c: result(5, 'neutral') }))
+
+    const outcomes = await analyzeSentimentBatch(provider, items)
+
+    expect(outcomes[1]).toEqual({ id: 'b', sentiment: expect.objectContaining({ score: 5 }), fallback: true })
+    expect(provider.analyze).toHaveBeenCalledTimes(1)
+    expect(provider.analyze).toHaveBeenCalledWith('Hate it')
+  })
+
+  it('re-analyzes an entry that fails validation on its own', async () => {
+    const provider = stubProvider(async () => ({
+      a: result(9, 'positive'),
+      b: { ...result(1, 'negative'), label: 'positive' },
+      c: { score: 'five' },
+    }))
+
+    const outcomes = await analyzeSentimentBatch(provider, items)
+
+    expect(outcomes.map(outcome => [outcome.id, outcome.fallback])).toEqual([['a', false], ['b', true], ['c', true]])
+    expect(provider.analyze.mock.calls).toEqual([['Hate it'], ['It exists']])
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Batch entry for b rejected (label: label "positive" is inconsistent with score 1)'))
+  })
+
+  it('reports a fallback that fails too', async () => {
+    const provider = stubProvider(async () => ({ a: result(9, 'positive'), c: result(5, 'neutral') }), ['Hate it'])
+
+    expect((await analyzeSentimentBatch(provider, items))[1]).toEqual({
+      id: 'b',
+      error: 'Could not analyze "Hate it"',
+      fallback: true,
+    })
+  })
+
+  it('fails every item when the batch call throws, without single calls', async () => {
+    const provider = stubProvider(async () => {
+      throw new Error('overloaded')
+    })
+
+    expect(await analyzeSentimentBatch(provider, items)).toEqual(
+      items.map(item => ({ id: item.id, error: 'overloaded', fallback: false }))
+    )
+    expect(provider.analyze).not.toHaveBeenCalled()
+  })
+
+  it('analyzes one at a time without batch support or for a single item', async () => {
+    const provider = stubProvider(async () => ({}))
+
+    expect(await analyzeSentimentBatch(provider, items.slice(0, 1))).toEqual([
+      { id: 'a', sentiment: expect.objectContaining({ score: 5 }), fallback: false },
+    ])
+    expect(provider.analyzeBatch).not.toHaveBeenCalled()
+
+    const { analyzeBatch, ...single } = provider
+    expect(await analyzeSentimentBatch(single, items)).toHaveLength(3)
+    expect(analyzeBatch).not.toHaveBeenCalled()
+    expect(await analyzeSentimentBatch(single, [])).toEqual([])
+  })
+})
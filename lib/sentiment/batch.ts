@@ -0,0 +1,64 @@
+import type { SentimentBatchItem, SentimentBatchOutcome, SentimentProvider } from './types'
+import { validateSentimentResult } from './validate'
+
+async function analyzeSingle(
+  provider: SentimentProvider,
+  item: SentimentBatchItem,
+  fallback: boolean
+): Promise<SentimentBatchOutcome> {
+  try {
+    const sentiment = await provider.analyze(item.content)
+    return { id: item.id, sentiment, fallback }
+  } catch (error) {
+    return {
+      id: item.id,
+      error: error instanceof Error ? error.message : 'Analysis failed',
+      fallback,
+    }
+  }
+}
+
+// Analyze a batch of mentions with as few provider calls as possible.
+// Every entry of a batch response is validated on its own; only entries that
+// are missing or invalid are sent back through provider.analyze().
+export async function analyzeSentimentBatch(
+  provider: SentimentProvider,
+  items: SentimentBatchItem[]
+): Promise<SentimentBatchOutcome[]> {
+  if (items.length === 0) {
+    return []
+  }
+
+  if (!provider.analyzeBatch || items.length === 1) {
+    const outcomes: SentimentBatchOutcome[] = []
+    for (const item of items) {
+      outcomes.push(await analyzeSingle(provider, item, false))
+    }
+    return outcomes
+  }
+
+  let entries: Record<string, unknown>
+  try {
+    entries = await provider.analyzeBatch(items)
+  } catch (error) {
+    // A failed batch call leaves every item unanalyzed for the next run
+    // rather than multiplying the failing request by the batch size.
+    const message = error instanceof Error ? error.message : 'Batch analysis failed'
+    return items.map(item => ({ id: item.id, error: message, fallback: false }))
+  }
+
+  const outcomes: SentimentBatchOutcome[] = []
+  for (const item of items) {
+    const validation = validateSentimentResult(entries[item.id])
+
+    if (validation.ok) {
+      outcomes.push({ id: item.id, sentiment: validation.value, fallback: false })
+      continue
+    }
+
+    console.warn(`Batch entry for ${item.id} rejected (${validation.error}), retrying individually`)
+    outcomes.push(await analyzeSingle(provider, item, true))
+  }
+
+  return outcomes
+}
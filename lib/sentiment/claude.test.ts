@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+// Read when the module loads
+vi.hoisted(() => {
+  process.env.ANTHROPIC_API_KEY = 'test-key'
+})
+
+import { claudeProvider } from './claude'
+
+const entry = (id: string, score: number, label: string) => ({ id, score, label, reasoning: 'Because', confidence: 0.8 })
+
+// Answer each Claude request with the next of `texts`
+function stubClaude(...texts: string[]) {
+  const fetch = vi.fn(async (_url: string, _init: RequestInit) => {
+    const text = texts.shift()
+    if (text === undefined) throw new Error('Unexpected Claude request')
+    return new Response(JSON.stringify({ content: [{ type: 'text', text }] }), { status: 200 })
+  })
+  vi.stubGlobal('fetch', fetch)
+  return fetch
+}
+
+const requestBody = (fetch: ReturnType<typeof stubClaude>, call: number) => JSON.parse(fetch.mock.calls[call][1].body as string)
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('claudeProvider.analyzeBatch', () => {
+  const items = [
+    { id: 'mention-a', content: 'Love it' },
+    { id: 'mention-b', content: 'Hate it' },
+  ]
+
+  it('sends every mention in one request under a short key', async () => {
+    const fetch = stubClaude(JSON.stringify([entry('m1', 9, 'positive'), entry('m2', 1, 'negative')]))
+
+    expect(await claudeProvider.analyzeBatch!(items)).toEqual({
+      'mention-a': entry('m1', 9, 'positive'),
+      'mention-b': entry('m2', 1, 'negative'),
+    })
+    expect(fetch).toHaveBeenCalledTimes(1)
+    expect(requestBody(fetch, 0).messages[0].content).toContain('[m1]\n"""\nLove it\n"""\n\n[m2]\n"""\nHate it\n"""')
+  })
+
+  it('leaves out unknown and repeated keys', async () => {
+    stubClaude(JSON.stringify([entry('m2', 1, 'negative'), entry('m2', 9, 'positive'), entry('m7', 5, 'neutral'), { score: 5 }]))
+
+    expect(await claudeProvider.analyzeBatch!(items)).toEqual({ 'mention-b': entry('m2', 1, 'negative') })
+  })
+
+  it('throws when the response is not an array', async () => {
+    stubClaude('{"id": "m1"}')
+
+    await expect(claudeProvider.analyzeBatch!(items)).rejects.toThrow('Claude batch response is not a JSON array')
+  })
+})
+
+describe('claudeProvider.analyze', () => {
+  const valid = { score: 8, label: 'positive', reasoning: 'Praise', confidence: 0.9 }
+
+  it('accepts a valid answer wrapped in prose', async () => {
+    const fetch = stubClaude(`Sure! Here you go:\n\`\`\`json\n${JSON.stringify(valid)}\n\`\`\``)
+
+    expect(await claudeProvider.analyze('Love it')).toMatchObject(valid)
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('retries once, showing Claude its answer and what was wrong with it', async () => {
+    const invalid = JSON.stringify({ ...valid, label: 'negative' })
+    const fetch = stubClaude(invalid, JSON.stringify(valid))
+
+    expect(await claudeProvider.analyze('Love it')).toMatchObject(valid)
+
+    const retry = requestBody(fetch, 1).messages
+    expect(retry).toHaveLength(3)
+    expect(retry[0]).toEqual(requestBody(fetch, 0).messages[0])
+    expect(retry[1]).toEqual({ role: 'assistant', content: invalid })
+    expect(retry[2].role).toBe('user')
+    expect(retry[2].content).toContain('Your previous response could not be used: label: label "negative" is inconsistent with score 8')
+  })
+
+  it('retries an answer without JSON', async () => {
+    const fetch = stubClaude('   ', JSON.stringify(valid))
+
+    expect(await claudeProvider.analyze('Love it')).toMatchObject(valid)
+    expect(requestBody(fetch, 1).messages[1]).toEqual({ role: 'assistant', content: '(empty response)' })
+    expect(requestBody(fetch, 1).messages[2].content).toContain('response did not contain a JSON object')
+  })
+
+  it('gives up after one retry', async () => {
+    const fetch = stubClaude('no idea', JSON.stringify({ ...valid, confidence: 2 }))
+
+    await expect(claudeProvider.analyze('Love it')).rejects.toThrow(
+      'Invalid sentiment analysis result from Claude: confidence: Number must be less than or equal to 1'
+    )
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('does not retry API errors', async () => {
+    const fetch = vi.fn(async () => new Response(JSON.stringify({ error: { type: 'overloaded_error' } }), { status: 529 }))
+    vi.stubGlobal('fetch', fetch)
+
+    await expect(claudeProvider.analyze('Love it')).rejects.toThrow('Claude API error: 529')
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('claudeProvider.analyze with thread context', () => {
+  const valid = JSON.stringify({ score: 8, label: 'positive', reasoning: 'Agrees', confidence: 0.9 })
+  const prompt = (fetch: ReturnType<typeof stubClaude>) => requestBody(fetch, 0).messages[0].content as string
+
+  it('quotes the post the mention answers and the other replies', async () => {
+    const fetch = stubClaude(valid)
+
+    await claudeProvider.analyze('Same here!', {
+      parent: { author: '@acme', content: 'Our new app is out' },
+      siblings: [
+        { author: '@jane', content: 'Love the new look' },
+        { author: 'Bob', content: 'Crashes on start' },
+      ],
+    })
+
+    expect(prompt(fetch)).toContain('Social Media Content:\n"""\nSame here!\n"""\n\nConversation context')
+    expect(prompt(fetch)).toContain('assess ONLY the sentiment of the mention itself')
+    expect(prompt(fetch)).toContain(
+      'The mention is a reply to this post by @acme:\n"""\nOur new app is out\n"""\n\n' +
+      'Other replies to the same post:\n@jane:\n"""\nLove the new look\n"""\n\nBob:\n"""\nCrashes on start\n"""'
+    )
+  })
+
+  it('leaves out what is not known', async () => {
+    const fetch = stubClaude(valid)
+
+    await claudeProvider.analyze('Same here!', { parent: null, siblings: [{ author: '@jane', content: 'Love it' }] })
+
+    expect(prompt(fetch)).not.toContain('The mention is a reply to this post')
+    expect(prompt(fetch)).toContain('Other replies to the same post:\n@jane:')
+  })
+
+  it('has no conversation section without context', async () => {
+    const fetch = stubClaude(valid)
+
+    await claudeProvider.analyze('Same here!')
+
+    expect(prompt(fetch)).not.toContain('Conversation context')
+  })
+})
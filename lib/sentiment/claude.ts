@@ -0,0 +1,239 @@
+import {
+  EMOTIONS,
+  type SentimentBatchItem,
+  type SentimentProvider,
+  type SentimentResult,
+  type ThreadContext,
+  type ThreadPost
+} from './types'
+import { extractJson } from './extract'
+import { hashPromptVersion } from './version'
+import { validateSentimentResult, type ValidationOutcome } from './validate'
+
+const ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY!
+const CLAUDE_MODEL = process.env.CLAUDE_SENTIMENT_MODEL || 'claude-sonnet-4-20250514'
+
+// The fields of one analysis object, shared by the single and batch prompts
+function resultFields(indent: string) {
+  return [
+    '"score": <number between 0-10, where 0 is very negative, 5 is neutral, 10 is very positive>,',
+    '"label": "<positive|negative|neutral>",',
+    '"reasoning": "<brief explanation of why you chose this sentiment>",',
+    '"confidence": <number between 0-1 indicating how confident you are>,',
+    '"aspects": [{ "aspect": "<topic>", "label": "<positive|negative|neutral>", "score": <number between 0-10> }],',
+    `"emotions": [<zero or more of ${EMOTIONS.map(e => `"${e}"`).join(', ')}>],`,
+    '"language": "<ISO 639-1 code of the language the mention is written in, e.g. en, lv, ru, de, es>",',
+    '"translation": "<English translation of the mention, or null if it is already in English>",',
+    '"sarcastic": <true if the author is being sarcastic or ironic, otherwise false>',
+  ].map(line => indent + line).join('\n')
+}
+
+const ANALYSIS_GUIDELINES = `Consider:
+- Emotional tone and word choice
+- Context and subtext
+- Sarcasm or irony
+- Emoji usage and meaning
+- Overall intent of the message
+
+For "aspects", list the specific things the author comments on (at most 5), each with its own sentiment.
+Use short lowercase topic names and prefer these where they fit: price, delivery, staff, product quality, customer service, packaging, website.
+Use an empty array if the mention is not about anything specific.
+
+If the mention is sarcastic, score what the author actually means rather than the literal words and set "sarcastic" to true.
+When you cannot tell whether it is sarcastic, say so in the reasoning and lower your confidence.
+
+For "emotions", list every emotion clearly expressed by the author (it can be several, or none).
+
+Mentions can be written in any language. Judge the sentiment in the original language, including
+its idioms and slang, rather than from your translation. Always write "reasoning" and aspect names in English.
+For a mention that mixes languages, report the dominant one.`
+
+const quotePost = (post: ThreadPost) => `${post.author}:\n"""\n${post.content}\n"""`
+
+function buildThreadSection(context: ThreadContext) {
+  const parts = []
+
+  if (context.parent) {
+    parts.push(`The mention is a reply to this post by ${quotePost(context.parent)}`)
+  }
+  if (context.siblings.length > 0) {
+    parts.push(`Other replies to the same post:\n${context.siblings.map(quotePost).join('\n\n')}`)
+  }
+
+  return `
+Conversation context (use it to understand what the mention refers to, e.g. a bare "same here" or
+"finally!", but assess ONLY the sentiment of the mention itself, not of the other posts):
+
+${parts.join('\n\n')}
+`
+}
+
+function buildPrompt(content: string, context?: ThreadContext) {
+  return `Analyze the sentiment of this social media mention and provide a detailed assessment.
+
+Social Media Content:
+"""
+${content}
+"""
+${context ? buildThreadSection(context) : ''}
+Provide your analysis in the following JSON format (respond ONLY with valid JSON, no other text):
+{
+${resultFields('  ')}
+}
+
+${ANALYSIS_GUIDELINES}
+
+Respond with ONLY the JSON object, no markdown formatting or additional text.`
+}
+
+function buildBatchPrompt(items: SentimentBatchItem[]) {
+  const mentions = items
+    .map((item, i) => `[m${i + 1}]\n"""\n${item.content}\n"""`)
+    .join('\n\n')
+
+  return `Analyze the sentiment of each of the following social media mentions independently.
+
+${mentions}
+
+Provide your analysis as a JSON array with exactly one object per mention, in this format (respond ONLY with valid JSON, no other text):
+[
+  {
+    "id": "<the mention key, e.g. m1>",
+${resultFields('    ')}
+  }
+]
+
+${ANALYSIS_GUIDELINES}
+
+Do not let one mention influence the assessment of another.
+Respond with ONLY the JSON array, no markdown formatting or additional text.`
+}
+
+function buildCorrectionPrompt(error: string) {
+  return `Your previous response could not be used: ${error}
+
+Respond again with ONLY a corrected JSON object in the requested format. Remember:
+- "score" is a number from 0 to 10
+- "confidence" is a number from 0 to 1
+- "label" must agree with the score (positive above 5, negative below 5, neutral around 5)`
+}
+
+interface ClaudeMessage {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+async function callClaude(messages: ClaudeMessage[], maxTokens: number): Promise<string> {
+  if (!ANTHROPIC_API_KEY) {
+    throw new Error('ANTHROPIC_API_KEY is not configured')
+  }
+
+  const response = await fetch('https://api.anthropic.com/v1/messages', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': ANTHROPIC_API_KEY,
+      'anthropic-version': '2023-06-01',
+    },
+    body: JSON.stringify({
+      model: CLAUDE_MODEL,
+      max_tokens: maxTokens,
+      messages,
+    }),
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(`Claude API error: ${response.status} - ${JSON.stringify(errorData)}`)
+  }
+
+  const data = await response.json()
+  return data.content.find((c: any) => c.type === 'text')?.text || ''
+}
+
+// Room for the analysis fields plus a translation roughly as long as the
+// original (non-Latin scripts take more tokens per character)
+function outputTokenBudget(contents: string[]) {
+  const perItem = contents.reduce((sum, content) => sum + 300 + Math.ceil(content.length / 2), 0)
+  return Math.min(8192, 256 + perItem)
+}
+
+function parseSentimentResponse(text: string): ValidationOutcome {
+  const json = extractJson(text)
+
+  if (json === undefined) {
+    return { ok: false, error: 'response did not contain a JSON object' }
+  }
+
+  return validateSentimentResult(json)
+}
+
+async function analyzeSentimentWithClaude(content: string, context?: ThreadContext): Promise<SentimentResult> {
+  try {
+    const messages: ClaudeMessage[] = [{ role: 'user', content: buildPrompt(content, context) }]
+    const maxTokens = outputTokenBudget([content])
+    const textContent = await callClaude(messages, maxTokens)
+    const validation = parseSentimentResponse(textContent)
+
+    if (validation.ok) {
+      return validation.value
+    }
+
+    // One corrective retry: show Claude its own answer and what was wrong with it
+    console.warn(`Claude sentiment response rejected (${validation.error}), retrying with correction`)
+    const retryText = await callClaude([
+      ...messages,
+      { role: 'assistant', content: textContent.trim() || '(empty response)' },
+      { role: 'user', content: buildCorrectionPrompt(validation.error) },
+    ], maxTokens)
+    const retry = parseSentimentResponse(retryText)
+
+    if (!retry.ok) {
+      throw new Error(`Invalid sentiment analysis result from Claude: ${retry.error}`)
+    }
+
+    return retry.value
+  } catch (error) {
+    console.error('Error calling Claude API:', error)
+    throw error
+  }
+}
+
+// One request for the whole batch. Entries come back unvalidated and keyed by
+// mention id; the caller decides what to do with the ones that don't check out.
+async function analyzeBatchWithClaude(items: SentimentBatchItem[]): Promise<Record<string, unknown>> {
+  const textContent = await callClaude(
+    [{ role: 'user', content: buildBatchPrompt(items) }],
+    outputTokenBudget(items.map(item => item.content))
+  )
+  const parsed = extractJson(textContent)
+
+  if (!Array.isArray(parsed)) {
+    throw new Error('Claude batch response is not a JSON array')
+  }
+
+  const entries: Record<string, unknown> = {}
+  for (const entry of parsed) {
+    const key = typeof entry?.id === 'string' ? entry.id : null
+    const index = key && /^m\d+$/.test(key) ? Number(key.slice(1)) - 1 : -1
+    const item = items[index]
+    if (item && !(item.id in entries)) {
+      entries[item.id] = entry
+    }
+  }
+
+  return entries
+}
+
+export const claudeProvider: SentimentProvider = {
+  name: 'claude',
+  model: CLAUDE_MODEL,
+  promptVersion: hashPromptVersion(
+    buildPrompt('{{content}}'),
+    buildPrompt('{{content}}', { parent: { author: '{{author}}', content: '{{parent}}' }, siblings: [{ author: '{{author}}', content: '{{sibling}}' }] }),
+    buildBatchPrompt([{ id: '{{id}}', content: '{{content}}' }]),
+    buildCorrectionPrompt('{{error}}')
+  ),
+  analyze: analyzeSentimentWithClaude,
+  analyzeBatch: analyzeBatchWithClaude,
+}
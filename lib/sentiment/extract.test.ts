@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { extractJson } from './extract'
+
+describe('extractJson', () => {
+  it('parses a bare JSON value', () => {
+    expect(extractJson('  {"score": 7}\n')).toEqual({ score: 7 })
+    expect(extractJson('[1, 2]')).toEqual([1, 2])
+  })
+
+  it('finds JSON inside a markdown fence', () => {
+    expect(extractJson('```json\n{"score": 7, "label": "positive"}\n```')).toEqual({ score: 7, label: 'positive' })
+  })
+
+  it('skips prose before and after the JSON', () => {
+    expect(extractJson('Here is my analysis:\n{"score": 3}\nLet me know if you need more.')).toEqual({ score: 3 })
+  })
+
+  it('keeps nested objects and arrays together', () => {
+    expect(extractJson('Result: {"aspects": [{"aspect": "price", "score": 2}], "emotions": []} done')).toEqual({
+      aspects: [{ aspect: 'price', score: 2 }],
+      emotions: [],
+    })
+  })
+
+  it('ignores brackets and escaped quotes inside strings', () => {
+    expect(extractJson('{"reasoning": "says \\"meh }]\\" about {price}", "score": 5} trailing }')).toEqual({
+      reasoning: 'says "meh }]" about {price}',
+      score: 5,
+    })
+  })
+
+  it('keeps scanning past brackets in prose that are not JSON', () => {
+    expect(extractJson('The {curly} [note] aside, {"score": 6}')).toEqual({ score: 6 })
+  })
+
+  it('skips mismatched brackets', () => {
+    expect(extractJson('{"a": [1}, then {"score": 4}')).toEqual({ score: 4 })
+  })
+
+  it('returns undefined without a parseable value', () => {
+    expect(extractJson('I cannot analyze this mention.')).toBeUndefined()
+    expect(extractJson('{"score": 7')).toBeUndefined()
+    expect(extractJson('')).toBeUndefined()
+  })
+})
@@ -0,0 +1,57 @@
+// Pull the first JSON object or array out of a model response, tolerating
+// markdown fences and prose before or after it. Returns undefined when no
+// parseable JSON value is found.
+export function extractJson(text: string): unknown {
+  const trimmed = text.trim()
+
+  try {
+    return JSON.parse(trimmed)
+  } catch {
+    // Fall through to scanning
+  }
+
+  for (let start = 0; start < trimmed.length; start++) {
+    const open = trimmed[start]
+    if (open !== '{' && open !== '[') continue
+
+    const end = findClosingIndex(trimmed, start)
+    if (end === -1) continue
+
+    try {
+      return JSON.parse(trimmed.slice(start, end + 1))
+    } catch {
+      // Not valid JSON after all (e.g. "{curly}" in prose), keep scanning
+    }
+  }
+
+  return undefined
+}
+
+// Index of the bracket that balances the one at `start`, skipping over
+// brackets that appear inside JSON strings.
+function findClosingIndex(text: string, start: number) {
+  const stack: string[] = []
+  let inString = false
+  let escaped = false
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i]
+
+    if (inString) {
+      if (escaped) escaped = false
+      else if (char === '\\') escaped = true
+      else if (char === '"') inString = false
+      continue
+    }
+
+    if (char === '"') inString = true
+    else if (char === '{') stack.push('}')
+    else if (char === '[') stack.push(']')
+    else if (char === '}' || char === ']') {
+      if (stack.pop() !== char) return -1
+      if (stack.length === 0) return i
+    }
+  }
+
+  return -1
+}
@@ -0,0 +1,151 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { collectMentionIds } from './jobs'
+import type { SentimentLabel, SentimentProvider } from './types'
+
+// PostgREST caps responses at 1000 rows by default
+const PAGE_SIZE = 1000
+
+const LABELS: SentimentLabel[] = ['positive', 'neutral', 'negative']
+
+export interface ReanalyzeFilter {
+  from?: string
+  to?: string
+  platform?: string
+  // Only mentions last analyzed with this prompt version
+  promptVersion?: string
+  // Only mentions whose analysis doesn't match the current model/prompt
+  staleOnly?: boolean
+  limit?: number
+}
+
+// Ids of already-analyzed mentions matching the filter, for a forced re-run
+export function findMentionsToReanalyze(
+  supabase: SupabaseClient,
+  userId: string,
+  filter: ReanalyzeFilter,
+  provider: SentimentProvider
+) {
+  return collectMentionIds(supabase, userId, query => {
+    let narrowed = query.not('sentiment_score', 'is', null)
+
+    if (filter.from) narrowed = narrowed.gte('posted_at', filter.from)
+    if (filter.to) narrowed = narrowed.lte('posted_at', filter.to)
+    if (filter.platform) narrowed = narrowed.eq('platform', filter.platform)
+    if (filter.promptVersion) narrowed = narrowed.eq('sentiment_prompt_version', filter.promptVersion)
+    if (filter.staleOnly) {
+      narrowed = narrowed.or(
+        `sentiment_prompt_version.is.null,sentiment_prompt_version.neq.${provider.promptVersion},sentiment_model.neq.${provider.model}`
+      )
+    }
+
+    return narrowed
+  }, filter.limit)
+}
+
+interface HistoryEntry {
+  mention_id: string
+  sentiment_score: number
+  sentiment_label: SentimentLabel
+  sentiment_prompt_version: string | null
+  analyzed_at: string
+}
+
+export interface LabelShift {
+  mentionId: string
+  from: { label: SentimentLabel; score: number }
+  to: { label: SentimentLabel; score: number }
+}
+
+export interface VersionDiffReport {
+  base: string
+  compare: string
+  // Mentions that have a result under both versions
+  compared: number
+  changed: number
+  // transitions[fromLabel][toLabel] = number of mentions
+  transitions: Record<SentimentLabel, Record<SentimentLabel, number>>
+  averageScoreDelta: number
+  shifts: LabelShift[]
+}
+
+async function loadHistory(supabase: SupabaseClient, userId: string, versions: string[]) {
+  const rows: HistoryEntry[] = []
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('sentiment_history')
+      .select('mention_id, sentiment_score, sentiment_label, sentiment_prompt_version, analyzed_at')
+      .eq('user_id', userId)
+      .in('sentiment_prompt_version', versions)
+      .order('analyzed_at', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1)
+
+    if (error) {
+      throw error
+    }
+
+    rows.push(...((data || []) as HistoryEntry[]))
+
+    if (!data || data.length < PAGE_SIZE) {
+      return rows
+    }
+  }
+}
+
+// Compare the latest result per mention under two prompt versions and report
+// how labels moved between them.
+export async function diffPromptVersions(
+  supabase: SupabaseClient,
+  userId: string,
+  base: string,
+  compare: string,
+  { maxShifts = 100 }: { maxShifts?: number } = {}
+): Promise<VersionDiffReport> {
+  const rows = await loadHistory(supabase, userId, [base, compare])
+
+  // Rows are in analysis order, so later entries overwrite earlier ones
+  const byMention = new Map<string, { base?: HistoryEntry; compare?: HistoryEntry }>()
+  for (const row of rows) {
+    const entry = byMention.get(row.mention_id) || {}
+    if (row.sentiment_prompt_version === base) entry.base = row
+    if (row.sentiment_prompt_version === compare) entry.compare = row
+    byMention.set(row.mention_id, entry)
+  }
+
+  const transitions = Object.fromEntries(
+    LABELS.map(from => [from, Object.fromEntries(LABELS.map(to => [to, 0]))])
+  ) as VersionDiffReport['transitions']
+  const shifts: LabelShift[] = []
+  let compared = 0
+  let changed = 0
+  let scoreDeltaSum = 0
+
+  byMention.forEach((entry, mentionId) => {
+    if (!entry.base || !entry.compare) return
+
+    compared++
+    transitions[entry.base.sentiment_label][entry.compare.sentiment_label]++
+    scoreDeltaSum += Number(entry.compare.sentiment_score) - Number(entry.base.sentiment_score)
+
+    if (entry.base.sentiment_label !== entry.compare.sentiment_label) {
+      changed++
+      if (shifts.length < maxShifts) {
+        shifts.push({
+          mentionId,
+          from: { label: entry.base.sentiment_label, score: Number(entry.base.sentiment_score) },
+          to: { label: entry.compare.sentiment_label, score: Number(entry.compare.sentiment_score) },
+        })
+      }
+    }
+  })
+
+  return {
+    base,
+    compare,
+    compared,
+    changed,
+    transitions,
+    averageScoreDelta: compared > 0 ? scoreDeltaSum / compared : 0,
+    shifts,
+  }
+}
@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { claudeProvider } from './claude'
+import { createMockProvider, getSentimentProvider } from './index'
+import { lexiconProvider } from './lexicon'
+
+describe('getSentimentProvider', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('defaults to Claude', () => {
+    vi.stubEnv('SENTIMENT_PROVIDER', '')
+
+    expect(getSentimentProvider()).toBe(claudeProvider)
+  })
+
+  it('picks the provider named in SENTIMENT_PROVIDER', () => {
+    vi.stubEnv('SENTIMENT_PROVIDER', 'local')
+    expect(getSentimentProvider()).toBe(lexiconProvider)
+
+    vi.stubEnv('SENTIMENT_PROVIDER', 'mock')
+    expect(getSentimentProvider().name).toBe('mock')
+  })
+
+  it('rejects unknown providers', () => {
+    expect(() => getSentimentProvider('gpt')).toThrow('Unknown SENTIMENT_PROVIDER: gpt')
+  })
+
+  it('scripts the mock provider from SENTIMENT_MOCK_SCRIPT', async () => {
+    vi.stubEnv('SENTIMENT_MOCK_SCRIPT', JSON.stringify([
+      { score: 8, label: 'positive', reasoning: 'Praise', confidence: 0.9 },
+      { error: 'rate limited' },
+    ]))
+    const provider = getSentimentProvider('mock')
+
+    expect(await provider.analyze('first')).toMatchObject({ score: 8, label: 'positive', aspects: [], sarcastic: false })
+    await expect(provider.analyze('second')).rejects.toThrow('rate limited')
+  })
+
+  it('rejects an unusable SENTIMENT_MOCK_SCRIPT', () => {
+    vi.stubEnv('SENTIMENT_MOCK_SCRIPT', '[]')
+    expect(() => getSentimentProvider('mock')).toThrow('Invalid SENTIMENT_MOCK_SCRIPT: expected a non-empty array')
+
+    vi.stubEnv('SENTIMENT_MOCK_SCRIPT', '{oops')
+    expect(() => getSentimentProvider('mock')).toThrow('Invalid SENTIMENT_MOCK_SCRIPT')
+  })
+})
+
+describe('createMockProvider', () => {
+  it('returns a neutral default result', async () => {
+    expect(await createMockProvider().analyze('anything')).toMatchObject({ score: 5, label: 'neutral', confidence: 1 })
+  })
+
+  it('replays the script in order and then repeats the last step', async () => {
+    const provider = createMockProvider([
+      { score: 2, label: 'negative', reasoning: 'Complaint', confidence: 0.8 },
+      { score: 9, label: 'positive', reasoning: 'Praise', confidence: 0.7, emotions: ['joy'] },
+    ])
+
+    const scores = []
+    for (let i = 0; i < 3; i++) {
+      scores.push((await provider.analyze('text')).score)
+    }
+
+    expect(scores).toEqual([2, 9, 9])
+    expect((await provider.analyze('text')).emotions).toEqual(['joy'])
+  })
+})
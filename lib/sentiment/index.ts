@@ -0,0 +1,27 @@
+import { claudeProvider } from './claude'
+import { lexiconProvider } from './lexicon'
+import { createMockProviderFromEnv } from './mock'
+import type { SentimentProvider, SentimentProviderName } from './types'
+
+export * from './types'
+export { createMockProvider } from './mock'
+export { analyzeSentimentBatch } from './batch'
+export { sentimentResultSchema, validateSentimentResult } from './validate'
+export { extractJson } from './extract'
+
+// Pick the sentiment engine from SENTIMENT_PROVIDER (claude | local | mock).
+// Defaults to Claude so existing deployments keep their behaviour.
+export function getSentimentProvider(
+  name: string | undefined = process.env.SENTIMENT_PROVIDER
+): SentimentProvider {
+  switch ((name || 'claude') as SentimentProviderName) {
+    case 'claude':
+      return claudeProvider
+    case 'local':
+      return lexiconProvider
+    case 'mock':
+      return createMockProviderFromEnv()
+    default:
+      throw new Error(`Unknown SENTIMENT_PROVIDER: ${name}`)
+  }
+}
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { FakeSupabase, type Row } from '@/test/supabase'
+import { processAnalysisJobs } from './jobs'
+import type { SentimentProvider } from './types'
+
+// Called with the content of every mention the worker analyzes
+const hooks = vi.hoisted(() => ({ onAnalyze: (_content: string) => {} }))
+
+vi.mock('./index', () => ({
+  getSentimentProvider: (): SentimentProvider => ({
+    name: 'stub',
+    model: 'stub',
+    promptVersion: 'stub',
+    analyze: async content => {
+      hooks.onAnalyze(content)
+      return {
+        score: 5,
+        label: 'neutral',
+        reasoning: 'Stub',
+        confidence: 1,
+        aspects: [],
+        emotions: [],
+        language: 'en',
+        translation: null,
+        sarcastic: false,
+      }
+    },
+  }),
+}))
+
+const START = new Date('2024-05-01T10:00:00.000Z').getTime()
+const HOUR = 60 * 60 * 1000
+
+function setup(mentionCount: number, job: Row = {}) {
+  const mentions = Array.from({ length: mentionCount }, (_, i) => ({
+    id: `m${i}`,
+    user_id: 'u1',
+    content: `m${i}`,
+    sentiment_score: null,
+  }))
+
+  const db = new FakeSupabase({
+    mentions,
+    analysis_jobs: [{
+      id: 'job1',
+      user_id: 'u1',
+      status: 'queued',
+      mention_ids: mentions.map(m => m.id),
+      total_count: mentions.length,
+      processed_count: 0,
+      failed_count: 0,
+      attempts: 0,
+      max_attempts: 5,
+      last_error: null,
+      force: false,
+      run_after: new Date(START - 1000).toISOString(),
+      locked_at: null,
+      started_at: null,
+      completed_at: null,
+      created_at: new Date(START - 1000).toISOString(),
+      updated_at: new Date(START - 1000).toISOString(),
+      ...job,
+    }],
+  })
+
+  return { db, job: db.tables.analysis_jobs[0] }
+}
+
+describe('processAnalysisJobs', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(START)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    hooks.onAnalyze = () => {}
+  })
+
+  it('runs a job to completion, renewing its lock on every step', async () => {
+    const { db, job } = setup(60)
+    const locks: string[] = []
+    let calls = 0
+    hooks.onAnalyze = content => {
+      if (content === 'm0' || content === 'm50') locks.push(job.locked_at)
+      vi.setSystemTime(START + ++calls * 1000)
+    }
+
+    expect(await processAnalysisJobs(db.client, { timeBudgetMs: HOUR })).toEqual({ jobs: 1, steps: 2 })
+
+    expect(job).toMatchObject({ status: 'completed', processed_count: 60, failed_count: 0, locked_at: null })
+    expect(locks).toEqual([new Date(START).toISOString(), new Date(START + 50_000).toISOString()])
+  })
+
+  it('stops without writing progress once another worker has reclaimed the job', async () => {
+    const { db, job } = setup(10)
+    const reclaimedAt = new Date(START + 6 * 60 * 1000).toISOString()
+    hooks.onAnalyze = content => {
+      if (content === 'm0') {
+        // A second worker took over after the lock went stale
+        vi.setSystemTime(START + 6 * 60 * 1000)
+        Object.assign(job, { locked_at: reclaimedAt, updated_at: reclaimedAt })
+      }
+    }
+
+    expect(await processAnalysisJobs(db.client, { timeBudgetMs: HOUR })).toEqual({ jobs: 1, steps: 1 })
+
+    expect(job).toMatchObject({ status: 'running', processed_count: 0, locked_at: reclaimedAt })
+  })
+
+  it('stops at the next step once the job is cancelled', async () => {
+    const { db, job } = setup(60)
+    hooks.onAnalyze = content => {
+      if (content === 'm0') job.status = 'cancelled'
+    }
+
+    await processAnalysisJobs(db.client, { timeBudgetMs: HOUR })
+
+    expect(job).toMatchObject({ status: 'cancelled', processed_count: 0 })
+  })
+
+  it('reclaims a running job whose lock went stale', async () => {
+    const staleLock = new Date(START - 10 * 60 * 1000).toISOString()
+    const { db, job } = setup(5, { status: 'running', locked_at: staleLock, processed_count: 0 })
+
+    expect(await processAnalysisJobs(db.client, { timeBudgetMs: HOUR })).toEqual({ jobs: 1, steps: 1 })
+    expect(job).toMatchObject({ status: 'completed', processed_count: 5 })
+  })
+
+  it('leaves a running job with a fresh lock alone', async () => {
+    const freshLock = new Date(START - 60 * 1000).toISOString()
+    const { db, job } = setup(5, { status: 'running', locked_at: freshLock })
+
+    expect(await processAnalysisJobs(db.client, { timeBudgetMs: HOUR })).toEqual({ jobs: 0, steps: 0 })
+    expect(job).toMatchObject({ status: 'running', processed_count: 0, locked_at: freshLock })
+  })
+})
@@ -0,0 +1,326 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/supabase'
+import { getSentimentProvider } from './index'
+import { analyzeMentions, BATCH_CHUNK_SIZE } from './persist'
+import type { SentimentProvider } from './types'
+
+export type AnalysisJob = Database['public']['Tables']['analysis_jobs']['Row']
+export type AnalysisJobStatus = AnalysisJob['status']
+
+// Mentions processed per worker step (one progress update per step)
+const JOB_STEP_SIZE = BATCH_CHUNK_SIZE * 2
+// A running job whose lock is older than this is assumed to belong to a dead worker
+const LOCK_TIMEOUT_MS = 5 * 60 * 1000
+// Backoff before retrying a failed step: 30s, 1m, 2m, 4m...
+const RETRY_BASE_MS = 30 * 1000
+// PostgREST caps responses at 1000 rows by default
+const PAGE_SIZE = 1000
+
+const ACTIVE_STATUSES: AnalysisJobStatus[] = ['queued', 'running']
+
+interface EnqueueOptions {
+  mentionIds?: string[]
+  limit?: number
+  // Re-analyze mentions even if they already have a sentiment result
+  force?: boolean
+}
+
+function mentionIdQuery(supabase: SupabaseClient, userId: string) {
+  return supabase
+    .from('mentions')
+    .select('id')
+    .eq('user_id', userId)
+}
+
+export type MentionIdQuery = ReturnType<typeof mentionIdQuery>
+
+// Page through the user's mentions matching `narrow` and collect their ids,
+// newest first, up to `limit` (or all of them).
+export async function collectMentionIds(
+  supabase: SupabaseClient,
+  userId: string,
+  narrow: (query: MentionIdQuery) => MentionIdQuery,
+  limit?: number
+) {
+  const ids: string[] = []
+
+  while (limit === undefined || ids.length < limit) {
+    const pageSize = limit === undefined ? PAGE_SIZE : Math.min(PAGE_SIZE, limit - ids.length)
+    const { data, error } = await narrow(mentionIdQuery(supabase, userId))
+      .order('posted_at', { ascending: false })
+      .range(ids.length, ids.length + pageSize - 1)
+
+    if (error) {
+      throw error
+    }
+
+    ids.push(...(data || []).map((row: { id: string }) => row.id))
+
+    if (!data || data.length < pageSize) {
+      break
+    }
+  }
+
+  return ids
+}
+
+// Queue a background analysis job. Without explicit mentionIds the job covers
+// the user's unanalyzed backlog, and an already active backlog job with the
+// same `force` is reused instead of queueing a duplicate; jobs for given
+// mentions (ingest, webhooks, imports, re-analysis) never stand in for one.
+// Forced jobs re-score mentions that already have a result. Returns null when
+// there is nothing to do.
+export async function enqueueAnalysisJob(
+  supabase: SupabaseClient,
+  userId: string,
+  options: EnqueueOptions = {}
+): Promise<AnalysisJob | null> {
+  if (!options.mentionIds) {
+    const { data: activeJob } = await supabase
+      .from('analysis_jobs')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('backlog', true)
+      .eq('force', options.force ?? false)
+      .in('status', ACTIVE_STATUSES)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (activeJob) {
+      return activeJob as AnalysisJob
+    }
+  }
+
+  const mentionIds = options.mentionIds ?? await collectMentionIds(
+    supabase,
+    userId,
+    query => query.is('sentiment_score', null).is('duplicate_of', null),
+    options.limit
+  )
+
+  if (mentionIds.length === 0) {
+    return null
+  }
+
+  const { data: job, error } = await supabase
+    .from('analysis_jobs')
+    .insert({
+      user_id: userId,
+      mention_ids: mentionIds,
+      total_count: mentionIds.length,
+      force: options.force ?? false,
+      backlog: !options.mentionIds,
+    })
+    .select('*')
+    .single()
+
+  if (error) {
+    throw error
+  }
+
+  return job as AnalysisJob
+}
+
+export async function getAnalysisJob(supabase: SupabaseClient, userId: string, jobId: string) {
+  const { data, error } = await supabase
+    .from('analysis_jobs')
+    .select('id, status, total_count, processed_count, failed_count, attempts, last_error, run_after, started_at, completed_at, created_at, updated_at')
+    .eq('id', jobId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  return data as Omit<AnalysisJob, 'mention_ids' | 'user_id' | 'max_attempts' | 'locked_at'> | null
+}
+
+// Cancelled jobs stop at the next step boundary; mentions already analyzed keep their results
+export async function cancelAnalysisJob(supabase: SupabaseClient, userId: string, jobId: string) {
+  const { data, error } = await supabase
+    .from('analysis_jobs')
+    .update({
+      status: 'cancelled',
+      completed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', jobId)
+    .eq('user_id', userId)
+    .in('status', ACTIVE_STATUSES)
+    .select('id')
+
+  if (error) {
+    throw error
+  }
+
+  return (data?.length || 0) > 0
+}
+
+async function claimNextJob(admin: SupabaseClient): Promise<AnalysisJob | null> {
+  const now = new Date()
+  const staleLock = new Date(now.getTime() - LOCK_TIMEOUT_MS).toISOString()
+
+  const { data: candidates, error } = await admin
+    .from('analysis_jobs')
+    .select('*')
+    .or(`and(status.eq.queued,run_after.lte.${now.toISOString()}),and(status.eq.running,locked_at.lt.${staleLock})`)
+    .order('created_at', { ascending: true })
+    .limit(5)
+
+  if (error) {
+    throw error
+  }
+
+  for (const candidate of (candidates || []) as AnalysisJob[]) {
+    // Optimistic lock: only one worker can move the row off this updated_at
+    const { data: claimed } = await admin
+      .from('analysis_jobs')
+      .update({
+        status: 'running',
+        locked_at: now.toISOString(),
+        started_at: candidate.started_at || now.toISOString(),
+        updated_at: now.toISOString(),
+      })
+      .eq('id', candidate.id)
+      .eq('updated_at', candidate.updated_at)
+      .select('*')
+      .maybeSingle()
+
+    if (claimed) {
+      return claimed as AnalysisJob
+    }
+  }
+
+  return null
+}
+
+// Write job state, but only while we still own it: the job is still running
+// under the lock this worker last wrote. Every write renews the lock (unless
+// the update releases it), so a job that is making progress never looks
+// abandoned. Returns null when the job was cancelled, or reclaimed by another
+// worker after a stale lock, underneath this one.
+async function updateRunningJob(
+  admin: SupabaseClient,
+  job: AnalysisJob,
+  update: Database['public']['Tables']['analysis_jobs']['Update']
+): Promise<AnalysisJob | null> {
+  const now = new Date().toISOString()
+  const { data, error } = await admin
+    .from('analysis_jobs')
+    .update({ locked_at: now, ...update, updated_at: now })
+    .eq('id', job.id)
+    .eq('status', 'running')
+    .eq('locked_at', job.locked_at!)
+    .select('*')
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  return data as AnalysisJob | null
+}
+
+async function runJobStep(admin: SupabaseClient, job: AnalysisJob, provider: SentimentProvider) {
+  const stepIds = job.mention_ids.slice(job.processed_count, job.processed_count + JOB_STEP_SIZE)
+
+  const { data: mentions, error } = await admin
+    .from('mentions')
+    .select('id, content, sentiment_score')
+    .eq('user_id', job.user_id)
+    .in('id', stepIds)
+
+  if (error) {
+    throw error
+  }
+
+  // Mentions deleted (or, unless forced, analyzed) since the job was queued are skipped
+  const pending = (mentions || [])
+    .filter((m: { sentiment_score: number | null }) => job.force || m.sentiment_score === null)
+    .map((m: { id: string; content: string }) => ({ id: m.id, content: m.content }))
+
+  const results = await analyzeMentions(admin, job.user_id, provider, pending)
+  const failures = results.filter(r => !r.success)
+
+  // Nothing succeeded: treat it as an outage and retry the whole step later
+  if (pending.length > 0 && failures.length === pending.length) {
+    const first = failures[0]
+    throw new Error(!first.success ? first.error : 'Analysis failed')
+  }
+
+  const processedCount = job.processed_count + stepIds.length
+  const done = processedCount >= job.total_count
+
+  return updateRunningJob(admin, job, {
+    processed_count: processedCount,
+    failed_count: job.failed_count + failures.length,
+    attempts: 0,
+    last_error: failures.length > 0 && !failures[0].success ? failures[0].error : job.last_error,
+    ...(done && {
+      status: 'completed',
+      locked_at: null,
+      completed_at: new Date().toISOString(),
+    }),
+  })
+}
+
+async function failJobStep(admin: SupabaseClient, job: AnalysisJob, error: unknown) {
+  const attempts = job.attempts + 1
+  const message = error instanceof Error ? error.message : 'Analysis job step failed'
+
+  if (attempts >= job.max_attempts) {
+    return updateRunningJob(admin, job, {
+      status: 'failed',
+      attempts,
+      last_error: message,
+      locked_at: null,
+      completed_at: new Date().toISOString(),
+    })
+  }
+
+  return updateRunningJob(admin, job, {
+    status: 'queued',
+    attempts,
+    last_error: message,
+    locked_at: null,
+    run_after: new Date(Date.now() + RETRY_BASE_MS * 2 ** (attempts - 1)).toISOString(),
+  })
+}
+
+// Worker loop: claim queued jobs and run them step by step until the time
+// budget is spent. Unfinished jobs are handed back to the queue so the next
+// invocation (cron or after() hook) picks them up where this one stopped.
+export async function processAnalysisJobs(
+  admin: SupabaseClient,
+  { timeBudgetMs = 50_000 }: { timeBudgetMs?: number } = {}
+) {
+  const deadline = Date.now() + timeBudgetMs
+  const provider = getSentimentProvider()
+  let steps = 0
+  const jobIds = new Set<string>()
+
+  while (Date.now() < deadline) {
+    let job = await claimNextJob(admin)
+    if (!job) break
+    jobIds.add(job.id)
+
+    while (job && job.status === 'running' && Date.now() < deadline) {
+      const current: AnalysisJob = job
+      try {
+        job = await runJobStep(admin, current, provider)
+        steps++
+      } catch (error) {
+        console.error(`Analysis job ${current.id} step failed:`, error)
+        job = await failJobStep(admin, current, error)
+      }
+    }
+
+    if (job && job.status === 'running') {
+      await updateRunningJob(admin, job, { status: 'queued', locked_at: null })
+    }
+  }
+
+  return { jobs: jobIds.size, steps }
+}
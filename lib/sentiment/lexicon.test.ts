@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import { lexiconProvider } from './lexicon'
+import { validateSentimentResult } from './validate'
+
+const analyze = (content: string) => lexiconProvider.analyze(content)
+
+describe('lexiconProvider', () => {
+  it('scores praise as positive and complaints as negative', async () => {
+    const praise = await analyze('Love this shop, the staff were amazing 😍')
+    const complaint = await analyze('Terrible service, worst order ever 😡')
+
+    expect(praise).toMatchObject({ label: 'positive', language: 'en' })
+    expect(praise.score).toBeGreaterThan(7)
+    expect(complaint.label).toBe('negative')
+    expect(complaint.score).toBeLessThan(3)
+  })
+
+  it('is neutral without sentiment-bearing words', async () => {
+    expect(await analyze('The store opens at nine')).toMatchObject({
+      score: 5,
+      label: 'neutral',
+      reasoning: 'No sentiment-bearing words found',
+      confidence: 0.3,
+      aspects: [],
+    })
+  })
+
+  it('flips negated words and boosts intensified ones', async () => {
+    const plain = await analyze('good')
+    const negated = await analyze('not good')
+    const intensified = await analyze('very good')
+
+    expect(negated.score).toBeLessThan(5)
+    expect(intensified.score).toBeGreaterThan(plain.score)
+  })
+
+  it('scores aspects on the sentences that mention them', async () => {
+    const result = await analyze('Delivery was late and slow. The staff were friendly!')
+
+    expect(result.aspects).toEqual([
+      expect.objectContaining({ aspect: 'delivery', label: 'negative' }),
+      expect.objectContaining({ aspect: 'staff', label: 'positive' }),
+    ])
+  })
+
+  it('detects emotions, sarcasm and language', async () => {
+    expect((await analyze('So happy, I really recommend it 🎉')).emotions).toEqual(['joy', 'trust'])
+    expect((await analyze('Oh great, my parcel is late again')).sarcastic).toBe(true)
+    expect((await analyze('Это очень хороший магазин, но доставка медленная')).language).toBe('ru')
+  })
+
+  it('is less confident outside English', async () => {
+    const result = await analyze('Der Service ist sehr gut und die Lieferung war schnell, love it')
+
+    expect(result.language).toBe('de')
+    expect(result.confidence).toBeLessThanOrEqual(0.3)
+  })
+
+  it('produces results that pass the model output schema', async () => {
+    const result = await analyze('Not bad at all, but the price is too expensive 👎 /s')
+
+    expect(validateSentimentResult(result)).toEqual({ ok: true, value: result })
+  })
+
+  it('is deterministic', async () => {
+    const text = 'Great app, but checkout keeps crashing. Annoyed.'
+
+    expect(await analyze(text)).toEqual(await analyze(text))
+  })
+})
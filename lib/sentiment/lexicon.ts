@@ -0,0 +1,193 @@
+import { labelForScore, type AspectSentiment, type Emotion, type SentimentProvider, type SentimentResult } from './types'
+import { hashPromptVersion } from './version'
+
+// Word weights on a -3..3 scale. Kept small on purpose: this engine is meant to
+// be cheap and deterministic, not to compete with Claude on nuance.
+const LEXICON: Record<string, number> = {
+  love: 3, loved: 3, amazing: 3, awesome: 3, excellent: 3, fantastic: 3, perfect: 3,
+  great: 2, good: 2, happy: 2, beautiful: 2, recommend: 2, best: 2, thanks: 2, thank: 2,
+  nice: 1, helpful: 2, fast: 1, friendly: 2, glad: 1, like: 1, liked: 1, enjoy: 2, enjoyed: 2,
+  okay: 0, ok: 0,
+  bad: -2, poor: -2, slow: -1, disappointed: -2, disappointing: -2, broken: -2, rude: -2,
+  worst: -3, terrible: -3, awful: -3, hate: -3, hated: -3, horrible: -3, scam: -3, useless: -3,
+  refund: -1, late: -1, never: -1, problem: -1, issue: -1, expensive: -1, angry: -2, annoyed: -2,
+}
+
+const EMOJI: Record<string, number> = {
+  '😍': 3, '❤️': 3, '🥰': 3, '😊': 2, '😀': 2, '👍': 2, '🙌': 2, '🔥': 1, '🎉': 2,
+  '😐': 0, '🤔': 0,
+  '😞': -2, '😢': -2, '😡': -3, '🤬': -3, '👎': -2, '💔': -2, '😤': -2,
+}
+
+const NEGATORS = new Set(['not', 'no', "don't", 'dont', "didn't", 'didnt', "isn't", 'isnt', "wasn't", 'wasnt', 'never', "won't", 'wont', "can't", 'cant'])
+const INTENSIFIERS: Record<string, number> = { very: 1.5, really: 1.5, so: 1.3, extremely: 2, super: 1.5, totally: 1.5 }
+
+// Keywords that tie a sentence to one of the standard aspects
+const ASPECT_KEYWORDS: Record<string, string[]> = {
+  price: ['price', 'prices', 'expensive', 'cheap', 'cost', 'overpriced', 'value'],
+  delivery: ['delivery', 'delivered', 'shipping', 'shipped', 'courier', 'arrived', 'late'],
+  staff: ['staff', 'employee', 'cashier', 'waiter', 'waitress', 'rude', 'friendly'],
+  'product quality': ['quality', 'broken', 'material', 'durable', 'cheaply', 'defective'],
+  'customer service': ['service', 'support', 'refund', 'helpdesk', 'response', 'replied'],
+  packaging: ['packaging', 'package', 'box', 'wrapped'],
+  website: ['website', 'site', 'app', 'checkout', 'login'],
+}
+
+// Words and emoji that signal each emotion
+const EMOTION_KEYWORDS: Record<Emotion, string[]> = {
+  joy: ['love', 'happy', 'glad', 'amazing', 'awesome', 'enjoy', 'enjoyed', '😍', '😊', '😀', '🎉', '🥰'],
+  trust: ['recommend', 'reliable', 'trust', 'trusted', 'dependable', 'honest'],
+  surprise: ['wow', 'unexpected', 'surprised', 'surprising', 'shocked', '😮', '😲'],
+  anger: ['angry', 'furious', 'hate', 'hated', 'outraged', 'scam', '😡', '🤬', '😤'],
+  fear: ['worried', 'scared', 'afraid', 'unsafe', 'nervous', 'concerned'],
+  sadness: ['sad', 'unhappy', 'miss', 'upset', '😢', '😞', '💔'],
+  disappointment: ['disappointed', 'disappointing', 'expected', 'letdown', 'underwhelming'],
+  confusion: ['confused', 'confusing', 'unclear', 'understand', 'why', '🤔'],
+}
+
+// Phrases that usually flip the literal meaning of what follows
+const SARCASM_MARKERS = ['/s', 'yeah right', 'oh great', 'just great', 'thanks a lot', 'what a surprise', 'how convenient']
+
+// Common function words per language; the lexicon itself only covers English
+const LANGUAGE_STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'it', 'was', 'this', 'that', 'with', 'for', 'you', 'my', 'very'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ich', 'sehr', 'mit', 'ein', 'eine', 'auch'],
+  es: ['el', 'la', 'los', 'las', 'y', 'es', 'muy', 'pero', 'que', 'con', 'por', 'una'],
+  lv: ['un', 'ir', 'ar', 'bet', 'ļoti', 'nav', 'kas', 'par', 'arī', 'es', 'tas', 'man'],
+  ru: ['и', 'не', 'это', 'что', 'очень', 'но', 'как', 'все', 'мне', 'на', 'был', 'так'],
+}
+
+// Letters that only occur in one of the supported languages
+const LANGUAGE_LETTERS: Record<string, RegExp> = {
+  de: /[äöüß]/,
+  es: /[ñ¿¡]/,
+  lv: /[āčēģīķļņšūž]/,
+  ru: /[а-яё]/,
+}
+
+function detectLanguage(content: string): string | null {
+  const text = content.toLowerCase()
+  const words = text.match(/[a-zäöüßñáéíóúāčēģīķļņšūžа-яё']+/g) || []
+  let best: string | null = null
+  let bestHits = 0
+
+  for (const [language, stopwords] of Object.entries(LANGUAGE_STOPWORDS)) {
+    const letters = LANGUAGE_LETTERS[language]
+    const hits = words.filter(word => stopwords.includes(word)).length
+      + (letters && letters.test(text) ? 2 : 0)
+    if (hits > bestHits) {
+      best = language
+      bestHits = hits
+    }
+  }
+
+  return best
+}
+
+function detectEmotions(content: string, tokens: string[]): Emotion[] {
+  // Words must match whole tokens; emoji can only be found in the raw text
+  const matches = (keyword: string) => /^[a-z']+$/.test(keyword)
+    ? tokens.includes(keyword)
+    : content.includes(keyword)
+
+  return (Object.keys(EMOTION_KEYWORDS) as Emotion[]).filter(emotion =>
+    EMOTION_KEYWORDS[emotion].some(matches)
+  )
+}
+
+function scoreText(text: string) {
+  const tokens = text.toLowerCase().match(/[a-z']+/g) || []
+  const matched: string[] = []
+  let total = 0
+  let hits = 0
+
+  tokens.forEach((token, i) => {
+    const weight = LEXICON[token]
+    if (weight === undefined) return
+
+    let value = weight
+    const prev = tokens[i - 1]
+    const prevPrev = tokens[i - 2]
+    if (prev && INTENSIFIERS[prev]) value *= INTENSIFIERS[prev]
+    if ((prev && NEGATORS.has(prev)) || (prevPrev && NEGATORS.has(prevPrev))) value *= -0.75
+
+    total += value
+    hits++
+    matched.push(token)
+  })
+
+  for (const [emoji, weight] of Object.entries(EMOJI)) {
+    const count = text.split(emoji).length - 1
+    if (count > 0) {
+      total += weight * count
+      hits += count
+      matched.push(emoji)
+    }
+  }
+
+  // Squash the raw total into 0-10 around a neutral 5
+  const normalized = hits > 0 ? total / Math.sqrt(hits * 9 + 1) : 0
+  const score = Math.round(Math.max(0, Math.min(10, 5 + normalized * 5)) * 10) / 10
+
+  return { score, hits, matched, tokens }
+}
+
+// Score each aspect on the sentences that mention it
+function extractAspects(content: string): AspectSentiment[] {
+  const sentences = content.split(/[.!?\n]+/).filter(sentence => sentence.trim())
+  const aspects: AspectSentiment[] = []
+
+  for (const [aspect, keywords] of Object.entries(ASPECT_KEYWORDS)) {
+    const relevant = sentences.filter(sentence => {
+      const { tokens } = scoreText(sentence)
+      return tokens.some(token => keywords.includes(token))
+    })
+    if (relevant.length === 0) continue
+
+    const { score, hits } = scoreText(relevant.join('. '))
+    if (hits === 0) continue
+
+    aspects.push({ aspect, label: labelForScore(score), score })
+  }
+
+  return aspects
+}
+
+function analyzeWithLexicon(content: string): SentimentResult {
+  const { score, hits, matched, tokens } = scoreText(content)
+  const language = detectLanguage(content)
+  // Word scores are English-only, so anything else is little more than a guess
+  const maxConfidence = language === null || language === 'en' ? 0.9 : 0.3
+  const confidence = Math.round(Math.min(maxConfidence, 0.3 + hits * 0.1) * 100) / 100
+
+  return {
+    score,
+    label: labelForScore(score),
+    reasoning: hits > 0
+      ? `Lexicon match on: ${matched.slice(0, 8).join(', ')}`
+      : 'No sentiment-bearing words found',
+    confidence,
+    aspects: extractAspects(content),
+    emotions: detectEmotions(content, tokens),
+    language,
+    translation: null,
+    sarcastic: SARCASM_MARKERS.some(marker => content.toLowerCase().includes(marker)),
+  }
+}
+
+export const lexiconProvider: SentimentProvider = {
+  name: 'local',
+  model: 'lexicon-v1',
+  promptVersion: hashPromptVersion(
+    JSON.stringify(LEXICON),
+    JSON.stringify(EMOJI),
+    JSON.stringify(Array.from(NEGATORS)),
+    JSON.stringify(INTENSIFIERS),
+    JSON.stringify(ASPECT_KEYWORDS),
+    JSON.stringify(EMOTION_KEYWORDS),
+    JSON.stringify(SARCASM_MARKERS),
+    JSON.stringify(LANGUAGE_STOPWORDS),
+    JSON.stringify(LANGUAGE_LETTERS, (_key, value) => (value instanceof RegExp ? value.source : value))
+  ),
+  analyze: async (content: string) => analyzeWithLexicon(content),
+}
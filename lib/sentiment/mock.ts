@@ -0,0 +1,60 @@
+import type { SentimentProvider, SentimentResult } from './types'
+
+type OptionalDetail = 'aspects' | 'emotions' | 'language' | 'translation' | 'sarcastic'
+
+// Scripted results may leave out optional detail such as aspects
+export type MockStep = (Omit<SentimentResult, OptionalDetail> & Partial<SentimentResult>) | { error: string }
+
+const DEFAULT_RESULT: SentimentResult = {
+  score: 5,
+  label: 'neutral',
+  reasoning: 'Mock provider default response',
+  confidence: 1,
+  aspects: [],
+  emotions: [],
+  language: 'en',
+  translation: null,
+  sarcastic: false,
+}
+
+// Replays the given steps in order, one per analyze() call. Once the script
+// runs out the last step repeats, so a single-entry script behaves like a stub.
+export function createMockProvider(script: MockStep[] = [DEFAULT_RESULT]): SentimentProvider {
+  let cursor = 0
+
+  return {
+    name: 'mock',
+    model: 'mock',
+    promptVersion: 'mock',
+    analyze: async () => {
+      const step = script[Math.min(cursor, script.length - 1)] || DEFAULT_RESULT
+      cursor++
+
+      if ('error' in step) {
+        throw new Error(step.error)
+      }
+
+      return { aspects: [], emotions: [], language: 'en', translation: null, sarcastic: false, ...step }
+    },
+  }
+}
+
+// SENTIMENT_MOCK_SCRIPT holds a JSON array of MockStep entries, e.g.
+// [{"score":8,"label":"positive","reasoning":"...","confidence":0.9},{"error":"rate limited"}]
+export function createMockProviderFromEnv(): SentimentProvider {
+  const raw = process.env.SENTIMENT_MOCK_SCRIPT
+
+  if (!raw) {
+    return createMockProvider()
+  }
+
+  try {
+    const script = JSON.parse(raw)
+    if (!Array.isArray(script) || script.length === 0) {
+      throw new Error('expected a non-empty array')
+    }
+    return createMockProvider(script as MockStep[])
+  } catch (error) {
+    throw new Error(`Invalid SENTIMENT_MOCK_SCRIPT: ${error instanceof Error ? error.message : 'parse error'}`)
+  }
+}
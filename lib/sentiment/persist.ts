@@ -0,0 +1,140 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { analyzeSentimentBatch } from './batch'
+import { needsReview, recordReanalysis } from './review'
+import type { AspectSentiment, SentimentBatchItem, SentimentProvider, SentimentResult } from './types'
+
+// Mentions sent to the model per request when batch analyzing
+export const BATCH_CHUNK_SIZE = Number(process.env.SENTIMENT_BATCH_CHUNK_SIZE) || 25
+
+export type MentionAnalysisResult =
+  | { mentionId: string; success: true; fallback: boolean; sentiment: SentimentResult }
+  | { mentionId: string; success: false; error: string }
+
+// Store a result together with what produced it, so analyses can be audited
+// and re-run once the model or prompt changes. `threadContext` records that
+// the model was shown the conversation around the mention. A review of the
+// mention is kept (see recordReanalysis).
+export async function saveMentionSentiment(
+  supabase: SupabaseClient,
+  userId: string,
+  mentionId: string,
+  sentiment: SentimentResult,
+  provider: SentimentProvider,
+  { threadContext = false }: { threadContext?: boolean } = {}
+) {
+  const { error } = await supabase
+    .from('mentions')
+    .update({
+      sentiment_score: sentiment.score,
+      sentiment_label: sentiment.label,
+      sentiment_reasoning: sentiment.reasoning,
+      sentiment_confidence: sentiment.confidence,
+      emotions: sentiment.emotions,
+      language: sentiment.language,
+      translated_content: sentiment.translation,
+      is_sarcastic: sentiment.sarcastic,
+      needs_review: needsReview(sentiment),
+      sentiment_model: provider.model,
+      sentiment_prompt_version: provider.promptVersion,
+      sentiment_thread_context: threadContext,
+      sentiment_analyzed_at: new Date().toISOString(),
+    })
+    .eq('id', mentionId)
+    .eq('user_id', userId)
+
+  if (error) {
+    throw error
+  }
+
+  await recordReanalysis(supabase, userId, mentionId, sentiment)
+  await saveMentionAspects(supabase, userId, mentionId, sentiment.aspects)
+}
+
+// Aspects are replaced wholesale on every analysis of a mention
+async function saveMentionAspects(
+  supabase: SupabaseClient,
+  userId: string,
+  mentionId: string,
+  aspects: AspectSentiment[]
+) {
+  const { error: deleteError } = await supabase
+    .from('mention_aspects')
+    .delete()
+    .eq('mention_id', mentionId)
+    .eq('user_id', userId)
+
+  if (deleteError) {
+    throw deleteError
+  }
+
+  // One row per aspect; if the model repeats an aspect the first mention wins
+  const unique = aspects.filter((aspect, i) => aspects.findIndex(a => a.aspect === aspect.aspect) === i)
+
+  if (unique.length === 0) {
+    return
+  }
+
+  const { error: insertError } = await supabase
+    .from('mention_aspects')
+    .insert(unique.map(aspect => ({
+      user_id: userId,
+      mention_id: mentionId,
+      aspect: aspect.aspect,
+      sentiment_label: aspect.label,
+      sentiment_score: aspect.score,
+    })))
+
+  if (insertError) {
+    throw insertError
+  }
+}
+
+// Analyze and store a list of mentions, packing them into as few model calls
+// as the provider allows. Per-mention failures are reported, not thrown.
+export async function analyzeMentions(
+  supabase: SupabaseClient,
+  userId: string,
+  provider: SentimentProvider,
+  mentions: SentimentBatchItem[]
+): Promise<MentionAnalysisResult[]> {
+  const results: MentionAnalysisResult[] = []
+
+  for (let i = 0; i < mentions.length; i += BATCH_CHUNK_SIZE) {
+    const chunk = mentions.slice(i, i + BATCH_CHUNK_SIZE)
+    const outcomes = await analyzeSentimentBatch(provider, chunk)
+
+    for (const outcome of outcomes) {
+      if (!outcome.sentiment) {
+        results.push({
+          mentionId: outcome.id,
+          success: false,
+          error: outcome.error || 'Analysis failed'
+        })
+        continue
+      }
+
+      try {
+        await saveMentionSentiment(supabase, userId, outcome.id, outcome.sentiment, provider)
+        results.push({
+          mentionId: outcome.id,
+          success: true,
+          fallback: outcome.fallback,
+          sentiment: outcome.sentiment
+        })
+      } catch (error) {
+        results.push({
+          mentionId: outcome.id,
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to save sentiment'
+        })
+      }
+    }
+
+    // Rate limiting between model calls
+    if (i + BATCH_CHUNK_SIZE < mentions.length) {
+      await new Promise(resolve => setTimeout(resolve, 100))
+    }
+  }
+
+  return results
+}
@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { FakeSupabase } from '@/test/supabase'
+import { createMockProvider } from './mock'
+import { saveMentionSentiment } from './persist'
+import { submitReview } from './review'
+import type { SentimentResult } from './types'
+
+const result = (label: SentimentResult['label'], score: number): SentimentResult => ({
+  score,
+  label,
+  reasoning: 'Re-analyzed',
+  confidence: 0.9,
+  aspects: [],
+  emotions: [],
+  language: 'en',
+  translation: null,
+  sarcastic: false,
+})
+
+describe('reviews across re-analysis', () => {
+  let db: FakeSupabase
+
+  beforeEach(async () => {
+    db = new FakeSupabase({
+      mentions: [{ id: 'm1', user_id: 'u1', sentiment_label: 'neutral', sentiment_score: 5 }],
+    })
+    await submitReview(db.client, 'u1', 'u1', 'm1', { action: 'override', label: 'negative' })
+  })
+
+  it('keeps the override when the mention is re-analyzed', async () => {
+    await saveMentionSentiment(db.client, 'u1', 'm1', result('positive', 8), createMockProvider())
+
+    expect(db.tables.sentiment_reviews).toEqual([
+      expect.objectContaining({
+        action: 'override',
+        sentiment_label: 'negative',
+        sentiment_score: 2.5,
+        model_label: 'neutral',
+        latest_model_label: 'positive',
+        latest_model_score: 8,
+      }),
+    ])
+  })
+
+  it("doesn't flag a review when the new label agrees with the reviewed one", async () => {
+    await saveMentionSentiment(db.client, 'u1', 'm1', result('positive', 8), createMockProvider())
+    await saveMentionSentiment(db.client, 'u1', 'm1', result('neutral', 5.5), createMockProvider())
+
+    expect(db.tables.sentiment_reviews[0]).toMatchObject({ latest_model_label: null, latest_model_score: null })
+  })
+
+  it('clears the flag when the mention is reviewed again', async () => {
+    await saveMentionSentiment(db.client, 'u1', 'm1', result('positive', 8), createMockProvider())
+    await submitReview(db.client, 'u1', 'u1', 'm1', { action: 'confirm' })
+
+    expect(db.tables.sentiment_reviews).toEqual([
+      expect.objectContaining({
+        action: 'confirm',
+        sentiment_label: 'positive',
+        model_label: 'positive',
+        latest_model_label: null,
+        latest_model_score: null,
+      }),
+    ])
+  })
+})
@@ -0,0 +1,182 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import type { Database } from '@/supabase'
+import { isLabelConsistent, type SentimentLabel, type SentimentResult } from './types'
+
+export type SentimentReview = Database['public']['Tables']['sentiment_reviews']['Row']
+
+// Results the model is less sure about than this go to the human review queue
+export const REVIEW_CONFIDENCE_THRESHOLD = Number(process.env.SENTIMENT_REVIEW_THRESHOLD) || 0.6
+
+// Score stored for an override that doesn't bring its own
+const LABEL_DEFAULT_SCORES: Record<SentimentLabel, number> = {
+  positive: 7.5,
+  neutral: 5,
+  negative: 2.5,
+}
+
+export function needsReview(sentiment: SentimentResult) {
+  return sentiment.sarcastic || sentiment.confidence < REVIEW_CONFIDENCE_THRESHOLD
+}
+
+export const reviewInputSchema = z.union([
+  z.object({
+    action: z.literal('confirm'),
+    note: z.string().trim().max(500).optional(),
+  }),
+  z.object({
+    action: z.literal('override'),
+    label: z.enum(['positive', 'negative', 'neutral']),
+    score: z.number().min(0).max(10).optional(),
+    note: z.string().trim().max(500).optional(),
+  }).refine(input => input.score === undefined || isLabelConsistent(input.label, input.score), input => ({
+    message: `label "${input.label}" is inconsistent with score ${input.score}`,
+    path: ['score'],
+  })),
+])
+
+export type ReviewInput = z.infer<typeof reviewInputSchema>
+
+// Mentions flagged for review that nobody has looked at yet, least confident first
+export async function getReviewQueue(
+  supabase: SupabaseClient,
+  userId: string,
+  { limit = 50 }: { limit?: number } = {}
+) {
+  const { data, error, count } = await supabase
+    .from('mentions')
+    .select(
+      'id, content, translated_content, language, author, author_handle, post_url, posted_at, platform, sentiment_score, sentiment_label, sentiment_reasoning, sentiment_confidence, is_sarcastic, sentiment_reviews!left(id)',
+      { count: 'exact' }
+    )
+    .eq('user_id', userId)
+    .eq('needs_review', true)
+    .is('sentiment_reviews', null)
+    .order('sentiment_confidence', { ascending: true })
+    .limit(limit)
+
+  if (error) {
+    throw error
+  }
+
+  return {
+    mentions: (data || []).map(({ sentiment_reviews, ...mention }) => mention),
+    total: count || 0,
+  }
+}
+
+// Record a reviewer's verdict. A confirmation pins the model's current label;
+// an override replaces it. Either way the mention leaves the queue, and the
+// analytics rollup uses the reviewed label from then on. Returns null when
+// the mention doesn't exist or hasn't been analyzed.
+export async function submitReview(
+  supabase: SupabaseClient,
+  userId: string,
+  reviewerId: string,
+  mentionId: string,
+  input: ReviewInput
+): Promise<SentimentReview | null> {
+  const { data: mention, error: mentionError } = await supabase
+    .from('mentions')
+    .select('id, sentiment_score, sentiment_label')
+    .eq('id', mentionId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (mentionError) {
+    throw mentionError
+  }
+
+  if (!mention || mention.sentiment_score === null || mention.sentiment_label === null) {
+    return null
+  }
+
+  const modelScore = Number(mention.sentiment_score)
+  let label: SentimentLabel = mention.sentiment_label
+  let score = modelScore
+
+  if (input.action === 'override') {
+    label = input.label
+    score = input.score
+      ?? (isLabelConsistent(input.label, modelScore) ? modelScore : LABEL_DEFAULT_SCORES[input.label])
+  }
+
+  const { data: review, error } = await supabase
+    .from('sentiment_reviews')
+    .upsert({
+      user_id: userId,
+      mention_id: mentionId,
+      action: input.action,
+      sentiment_label: label,
+      sentiment_score: score,
+      model_label: mention.sentiment_label,
+      model_score: modelScore,
+      latest_model_label: null,
+      latest_model_score: null,
+      note: input.note || null,
+      reviewed_by: reviewerId,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'mention_id' })
+    .select('*')
+    .single()
+
+  if (error) {
+    throw error
+  }
+
+  return review as SentimentReview
+}
+
+// Called after a mention is re-analyzed. The review stays and keeps counting;
+// when the new label differs from the one that was reviewed, the new result
+// is recorded next to it so the drawer can ask for another look.
+export async function recordReanalysis(
+  supabase: SupabaseClient,
+  userId: string,
+  mentionId: string,
+  sentiment: SentimentResult
+) {
+  const { data: review, error } = await supabase
+    .from('sentiment_reviews')
+    .select('id, model_label')
+    .eq('mention_id', mentionId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  if (!review) {
+    return
+  }
+
+  const changed = review.model_label !== sentiment.label
+  const { error: updateError } = await supabase
+    .from('sentiment_reviews')
+    .update({
+      latest_model_label: changed ? sentiment.label : null,
+      latest_model_score: changed ? sentiment.score : null,
+    })
+    .eq('id', review.id)
+
+  if (updateError) {
+    throw updateError
+  }
+}
+
+// Undo a review, putting the mention back in the queue if it is still flagged
+export async function clearReview(supabase: SupabaseClient, userId: string, mentionId: string) {
+  const { data, error } = await supabase
+    .from('sentiment_reviews')
+    .delete()
+    .eq('mention_id', mentionId)
+    .eq('user_id', userId)
+    .select('id')
+
+  if (error) {
+    throw error
+  }
+
+  return (data?.length || 0) > 0
+}
@@ -0,0 +1,102 @@
+export type SentimentLabel = 'positive' | 'negative' | 'neutral'
+
+// Multi-label emotions detected alongside the overall sentiment
+export const EMOTIONS = ['joy', 'trust', 'surprise', 'anger', 'fear', 'sadness', 'disappointment', 'confusion'] as const
+
+export type Emotion = typeof EMOTIONS[number]
+
+// Sentiment towards one specific topic of a mention (price, delivery, staff...)
+export interface AspectSentiment {
+  aspect: string
+  label: SentimentLabel
+  score: number
+}
+
+export interface SentimentResult {
+  score: number
+  label: SentimentLabel
+  reasoning: string
+  confidence: number
+  aspects: AspectSentiment[]
+  emotions: Emotion[]
+  // ISO 639-1 code of the mention's language, null when it couldn't be told
+  language: string | null
+  // English rendering of a non-English mention
+  translation: string | null
+  // The literal wording says the opposite of what the author means
+  sarcastic: boolean
+}
+
+export interface ThreadPost {
+  author: string
+  content: string
+}
+
+// The conversation a reply belongs to: the post it answers and other replies to
+// that post. Only informs the reading of the mention; it is never scored itself.
+export interface ThreadContext {
+  parent: ThreadPost | null
+  siblings: ThreadPost[]
+}
+
+export interface SentimentBatchItem {
+  id: string
+  content: string
+}
+
+export interface SentimentBatchOutcome {
+  id: string
+  sentiment?: SentimentResult
+  error?: string
+  // true when the batch entry was unusable and the item was re-analyzed alone
+  fallback: boolean
+}
+
+// Any engine that can turn a piece of text into a SentimentResult.
+// Providers that can score many texts in one call implement analyzeBatch,
+// returning the raw (unvalidated) entries keyed by item id. Providers that
+// can't make use of thread context ignore it.
+export interface SentimentProvider {
+  name: string
+  // Identifier of the underlying model/engine, e.g. claude-sonnet-4-20250514
+  model: string
+  // Hash of the prompt templates (or lexicon) the provider currently uses
+  promptVersion: string
+  analyze(content: string, context?: ThreadContext): Promise<SentimentResult>
+  analyzeBatch?(items: SentimentBatchItem[]): Promise<Record<string, unknown>>
+}
+
+export type SentimentProviderName = 'claude' | 'local' | 'mock'
+
+// Map a 0-10 score onto the label buckets used across the dashboard
+export function labelForScore(score: number): SentimentLabel {
+  if (score >= 6) return 'positive'
+  if (score <= 4) return 'negative'
+  return 'neutral'
+}
+
+// Looser than labelForScore: the buckets overlap around the boundaries so a
+// model may call a 6 "neutral", but never a 2 "positive".
+export function isLabelConsistent(label: SentimentLabel, score: number) {
+  switch (label) {
+    case 'positive': return score >= 5.5
+    case 'negative': return score <= 4.5
+    case 'neutral': return score >= 3.5 && score <= 6.5
+  }
+}
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English', lv: 'Latvian', ru: 'Russian', de: 'German', es: 'Spanish', lt: 'Lithuanian',
+  et: 'Estonian', uk: 'Ukrainian', pl: 'Polish', fr: 'French', it: 'Italian', pt: 'Portuguese',
+  nl: 'Dutch', sv: 'Swedish', fi: 'Finnish',
+}
+
+// Human-readable name for an ISO 639-1 code, e.g. "lv" -> "Latvian"
+export function languageName(code: string) {
+  return LANGUAGE_NAMES[code] || code.toUpperCase()
+}
+
+// Lowercase, single-spaced aspect names so "Delivery " and "delivery" group together
+export function normalizeAspect(aspect: string) {
+  return aspect.trim().toLowerCase().replace(/\s+/g, ' ')
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest'
+import { validateSentimentResult } from './validate'
+
+const valid = {
+  score: 8,
+  label: 'positive',
+  reasoning: 'Praises the delivery speed',
+  confidence: 0.9,
+}
+
+describe('validateSentimentResult', () => {
+  it('fills in defaults for the optional fields', () => {
+    expect(validateSentimentResult(valid)).toEqual({
+      ok: true,
+      value: {
+        ...valid,
+        aspects: [],
+        emotions: [],
+        language: null,
+        translation: null,
+        sarcastic: false,
+      },
+    })
+  })
+
+  it('normalizes aspects, emotions and the language code', () => {
+    const outcome = validateSentimentResult({
+      ...valid,
+      aspects: [{ aspect: '  Delivery   Time ', label: 'positive', score: 9 }],
+      emotions: ['Joy', 'joy', ' trust '],
+      language: 'LV',
+      translation: 'Great, arrived the next day',
+    })
+
+    expect(outcome).toMatchObject({
+      ok: true,
+      value: {
+        aspects: [{ aspect: 'delivery time', label: 'positive', score: 9 }],
+        emotions: ['joy', 'trust'],
+        language: 'lv',
+        translation: 'Great, arrived the next day',
+      },
+    })
+  })
+
+  it('drops the translation of English text', () => {
+    const outcome = validateSentimentResult({ ...valid, language: 'en', translation: 'Same text' })
+
+    expect(outcome).toMatchObject({ ok: true, value: { language: 'en', translation: null } })
+  })
+
+  it('accepts neutral labels near the bucket boundaries', () => {
+    expect(validateSentimentResult({ ...valid, label: 'neutral', score: 6 }).ok).toBe(true)
+    expect(validateSentimentResult({ ...valid, label: 'neutral', score: 4 }).ok).toBe(true)
+  })
+
+  it('rejects a label that contradicts the score', () => {
+    expect(validateSentimentResult({ ...valid, label: 'positive', score: 2 })).toEqual({
+      ok: false,
+      error: 'label: label "positive" is inconsistent with score 2',
+    })
+  })
+
+  it('rejects an inconsistent aspect with its path', () => {
+    const outcome = validateSentimentResult({
+      ...valid,
+      aspects: [{ aspect: 'price', label: 'negative', score: 9 }],
+    })
+
+    expect(outcome).toEqual({ ok: false, error: 'aspects.0.label: label "negative" is inconsistent with score 9' })
+  })
+
+  it('reports every problem in one message', () => {
+    const outcome = validateSentimentResult({
+      ...valid,
+      score: 11,
+      confidence: -1,
+      emotions: ['happiness'],
+      language: 'latvian',
+    })
+
+    expect(outcome.ok).toBe(false)
+    if (!outcome.ok) {
+      expect(outcome.error.split('; ').map(issue => issue.split(':')[0])).toEqual([
+        'score',
+        'confidence',
+        'emotions.0',
+        'language',
+      ])
+    }
+  })
+
+  it('rejects values of the wrong type instead of coercing them', () => {
+    expect(validateSentimentResult({ ...valid, score: '8' })).toEqual({
+      ok: false,
+      error: 'score: Expected number, received string',
+    })
+    expect(validateSentimentResult('{"score": 8}')).toEqual({ ok: false, error: 'Expected object, received string' })
+  })
+
+  it('drops fields the schema does not know', () => {
+    expect(validateSentimentResult({ ...valid, id: 'm1', topic: 'price' })).toMatchObject({ ok: true, value: valid })
+    const outcome = validateSentimentResult({ ...valid, id: 'm1' })
+    expect(outcome.ok && 'id' in outcome.value).toBe(false)
+  })
+
+  it('rejects missing reasoning and unknown labels', () => {
+    expect(validateSentimentResult({ ...valid, reasoning: '   ' }).ok).toBe(false)
+    expect(validateSentimentResult({ ...valid, label: 'mixed' }).ok).toBe(false)
+    expect(validateSentimentResult(null).ok).toBe(false)
+  })
+})
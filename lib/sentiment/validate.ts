@@ -0,0 +1,62 @@
+import { z } from 'zod'
+import { EMOTIONS, isLabelConsistent, normalizeAspect, type SentimentResult } from './types'
+
+const labelSchema = z.enum(['positive', 'negative', 'neutral'])
+
+export const aspectSentimentSchema = z
+  .object({
+    aspect: z.string().trim().min(1).max(60).transform(normalizeAspect),
+    label: labelSchema,
+    score: z.number().min(0).max(10),
+  })
+  .refine(aspect => isLabelConsistent(aspect.label, aspect.score), aspect => ({
+    message: `label "${aspect.label}" is inconsistent with score ${aspect.score}`,
+    path: ['label'],
+  }))
+
+export const sentimentResultSchema = z
+  .object({
+    score: z.number().min(0).max(10),
+    label: labelSchema,
+    reasoning: z.string().trim().min(1),
+    confidence: z.number().min(0).max(1),
+    aspects: z.array(aspectSentimentSchema).max(10).default([]),
+    emotions: z
+      .array(z.string().trim().toLowerCase().pipe(z.enum(EMOTIONS)))
+      .default([])
+      .transform(emotions => Array.from(new Set(emotions))),
+    language: z
+      .string()
+      .trim()
+      .toLowerCase()
+      .regex(/^[a-z]{2}$/, 'expected a two-letter ISO 639-1 code')
+      .nullable()
+      .default(null),
+    translation: z.string().trim().min(1).nullable().default(null),
+    sarcastic: z.boolean().default(false),
+  })
+  .refine(result => isLabelConsistent(result.label, result.score), result => ({
+    message: `label "${result.label}" is inconsistent with score ${result.score}`,
+    path: ['label'],
+  }))
+  // A translation of English text is just noise
+  .transform(result => (result.language === 'en' ? { ...result, translation: null } : result))
+
+export type ValidationOutcome =
+  | { ok: true; value: SentimentResult }
+  | { ok: false; error: string }
+
+export function validateSentimentResult(value: unknown): ValidationOutcome {
+  const parsed = sentimentResultSchema.safeParse(value)
+
+  if (!parsed.success) {
+    return {
+      ok: false,
+      error: parsed.error.issues
+        .map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+        .join('; '),
+    }
+  }
+
+  return { ok: true, value: parsed.data }
+}
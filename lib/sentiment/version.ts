@@ -0,0 +1,8 @@
+import { createHash } from 'crypto'
+
+// Short, stable fingerprint of everything that shapes a provider's output
+// (prompt templates, lexicons...). Stored per mention so analyses made with
+// an older prompt can be found after it changes.
+export function hashPromptVersion(...parts: string[]) {
+  return createHash('sha256').update(parts.join('\u0000')).digest('hex').slice(0, 12)
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import { FakeSupabase } from '@/test/supabase'
+import { countPinnedViews, loadViewTiles, MAX_PINNED_VIEWS, viewInputSchema, viewUpdateSchema, type SavedView } from './index'
+
+describe('viewInputSchema', () => {
+  it('stores filters in the query string form the feed reads', () => {
+    expect(viewInputSchema.parse({
+      name: '  Negative Instagram  ',
+      filters: { label: 'negative', platform: 'instagram', minEngagement: 50, hasUrl: true, days: '7', cursor: 'abc', view: 'v1' },
+      isPinned: true,
+    })).toEqual({
+      name: 'Negative Instagram',
+      filters: { label: 'negative', platform: 'instagram', days: '7', minEngagement: '50', hasUrl: 'true' },
+      isPinned: true,
+    })
+  })
+
+  it('drops empty filter values and keeps an empty filter', () => {
+    expect(viewInputSchema.parse({ name: 'Everything', filters: { q: '', label: 'positive' } }).filters).toEqual({ label: 'positive' })
+    expect(viewInputSchema.parse({ name: 'Everything', filters: {} }).filters).toEqual({})
+  })
+
+  it('reports filters the feed would reject', () => {
+    const result = viewInputSchema.safeParse({ name: 'Broken', filters: { minScore: 9, maxScore: 2, language: 'english' } })
+
+    expect(result.success).toBe(false)
+    expect(result.error?.issues.map(issue => [issue.path.join('.'), issue.message])).toEqual([
+      ['filters', 'language must be a two-letter ISO 639-1 code'],
+      ['filters', 'minScore must not be above maxScore'],
+    ])
+  })
+
+  it('rejects blank names and filters that are not flat values', () => {
+    expect(viewInputSchema.safeParse({ name: '   ', filters: {} }).success).toBe(false)
+    expect(viewInputSchema.safeParse({ name: 'Nested', filters: { label: ['negative'] } }).success).toBe(false)
+    expect(viewInputSchema.safeParse({ name: 'No filters' }).success).toBe(false)
+  })
+
+  it('lets updates change one field at a time', () => {
+    expect(viewUpdateSchema.parse({ isPinned: false })).toEqual({ isPinned: false })
+    expect(viewUpdateSchema.safeParse({ filters: { days: 0 } }).success).toBe(false)
+  })
+})
+
+describe('countPinnedViews', () => {
+  it('counts the pinned views of the user, leaving out the one being edited', async () => {
+    const db = new FakeSupabase({
+      saved_views: [
+        { id: 'v1', user_id: 'u1', is_pinned: true },
+        { id: 'v2', user_id: 'u1', is_pinned: true },
+        { id: 'v3', user_id: 'u1', is_pinned: false },
+        { id: 'v4', user_id: 'u2', is_pinned: true },
+      ],
+    })
+
+    expect(await countPinnedViews(db.client, 'u1')).toBe(2)
+    expect(await countPinnedViews(db.client, 'u1', 'v1')).toBe(1)
+  })
+})
+
+describe('loadViewTiles', () => {
+  const view = (id: string, isPinned: boolean, filters: Record<string, string> = {}) =>
+    ({ id, user_id: 'u1', name: id, filters, is_pinned: isPinned }) as unknown as SavedView
+
+  it('counts each pinned view with the feed filter it stores', async () => {
+    const db = new FakeSupabase()
+    db.rpcs.mention_facets = ({ p_filter }) => ({ total: p_filter.minEngagement ?? 0 })
+
+    const tiles = await loadViewTiles(db.client, 'u1', [
+      view('v1', true, { label: 'negative', minEngagement: '50' }),
+      view('v2', false),
+      view('v3', true, { minScore: 'high' }),
+    ])
+
+    expect(tiles.map(tile => [tile.view.id, tile.facets])).toEqual([
+      ['v1', { total: 50 }],
+      ['v3', null],
+    ])
+  })
+
+  it(`shows at most ${MAX_PINNED_VIEWS} tiles`, async () => {
+    const db = new FakeSupabase()
+    db.rpcs.mention_facets = () => ({ total: 0 })
+
+    const views = Array.from({ length: MAX_PINNED_VIEWS + 2 }, (_, i) => view(`v${i}`, true))
+
+    expect(await loadViewTiles(db.client, 'u1', views)).toHaveLength(MAX_PINNED_VIEWS)
+  })
+})
@@ -0,0 +1,156 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import type { Database } from '@/supabase'
+import {
+  filterParams,
+  filterQueryString,
+  getMentionFacets,
+  mentionFilterSchema,
+  type MentionFacets
+} from '@/lib/mentions'
+
+export type SavedView = Database['public']['Tables']['saved_views']['Row']
+
+// Every pinned view costs a facet query on each dashboard load
+export const MAX_PINNED_VIEWS = 4
+
+// Feed filters in their query string form, validated and normalized the same
+// way the feed reads them from the URL. Unknown keys are dropped.
+const viewFiltersSchema = z.record(z.union([z.string(), z.number(), z.boolean()])).transform((filters, ctx) => {
+  const values: Record<string, string> = {}
+  for (const key of Object.keys(filters)) {
+    values[key] = String(filters[key])
+  }
+
+  const parsed = mentionFilterSchema.safeParse(filterParams(new URLSearchParams(values)))
+
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: issue.message })
+    }
+    return z.NEVER
+  }
+
+  return filterParams(new URLSearchParams(filterQueryString(parsed.data))) as Record<string, string>
+})
+
+export const viewInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  filters: viewFiltersSchema,
+  isPinned: z.boolean().optional(),
+})
+
+export const viewUpdateSchema = viewInputSchema.partial()
+
+export type ViewInput = z.infer<typeof viewInputSchema>
+export type ViewUpdate = z.infer<typeof viewUpdateSchema>
+
+export interface ViewTile {
+  view: SavedView
+  // null when the stored filters no longer validate
+  facets: MentionFacets | null
+}
+
+export async function listViews(supabase: SupabaseClient, userId: string): Promise<SavedView[]> {
+  const { data, error } = await supabase
+    .from('saved_views')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw error
+  }
+
+  return (data || []) as SavedView[]
+}
+
+// Pinned views other than `exceptId`, for checking MAX_PINNED_VIEWS
+export async function countPinnedViews(supabase: SupabaseClient, userId: string, exceptId?: string) {
+  let query = supabase
+    .from('saved_views')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('is_pinned', true)
+
+  if (exceptId) {
+    query = query.neq('id', exceptId)
+  }
+
+  const { count, error } = await query
+
+  if (error) {
+    throw error
+  }
+
+  return count || 0
+}
+
+export async function createView(supabase: SupabaseClient, userId: string, input: ViewInput) {
+  const { data, error } = await supabase
+    .from('saved_views')
+    .insert({
+      user_id: userId,
+      name: input.name,
+      filters: input.filters,
+      is_pinned: input.isPinned ?? false,
+    })
+    .select('*')
+    .single()
+
+  if (error) {
+    throw error
+  }
+
+  return data as SavedView
+}
+
+export async function updateView(supabase: SupabaseClient, userId: string, viewId: string, input: ViewUpdate) {
+  const { data, error } = await supabase
+    .from('saved_views')
+    .update({
+      ...(input.name !== undefined && { name: input.name }),
+      ...(input.filters !== undefined && { filters: input.filters }),
+      ...(input.isPinned !== undefined && { is_pinned: input.isPinned }),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', viewId)
+    .eq('user_id', userId)
+    .select('*')
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  return data as SavedView | null
+}
+
+export async function deleteView(supabase: SupabaseClient, userId: string, viewId: string) {
+  const { data, error } = await supabase
+    .from('saved_views')
+    .delete()
+    .eq('id', viewId)
+    .eq('user_id', userId)
+    .select('id')
+
+  if (error) {
+    throw error
+  }
+
+  return (data?.length || 0) > 0
+}
+
+// Summaries for the pinned views, counted by the same filter_mentions query
+// that lists the feed, so a tile and the feed it opens always agree
+export async function loadViewTiles(supabase: SupabaseClient, userId: string, views: SavedView[]): Promise<ViewTile[]> {
+  const pinned = views.filter(view => view.is_pinned).slice(0, MAX_PINNED_VIEWS)
+
+  return Promise.all(pinned.map(async view => {
+    const filter = mentionFilterSchema.safeParse(view.filters)
+    return {
+      view,
+      facets: filter.success ? await getMentionFacets(supabase, userId, filter.data) : null,
+    }
+  }))
+}
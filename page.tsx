@@ -1,12 +1,30 @@
 import { Suspense } from 'react'
 import { createSupabaseServerClient, getCurrentUser } from '@/lib/supabase'
 import { redirect } from 'next/navigation'
+import Link from 'next/link'
 import SentimentHealthCard from '@/components/SentimentHealthCard'
 import MentionFeed from '@/components/MentionFeed'
 import ConnectSocial from '@/components/ConnectSocial'
+import TopicBreakdown from '@/components/TopicBreakdown'
+import LanguageBreakdown from '@/components/LanguageBreakdown'
+import ReconnectButton from '@/components/ReconnectButton'
+import TrackedQueries from '@/components/TrackedQueries'
+import SavedViewTiles from '@/components/SavedViewTiles'
+import { SYNC_INTERVAL_MS } from '@/lib/connectors/sync'
+import { getSubscriptionTier } from '@/lib/plans'
+import { buildBenchmark, type BenchmarkRow } from '@/lib/queries/benchmark'
+import {
+  filterParams,
+  getMentionFacets,
+  listMentions,
+  mentionFilterSchema,
+  type MentionFilter,
+  type MentionFilterKey
+} from '@/lib/mentions'
+import { listViews, loadViewTiles } from '@/lib/views'
 import { BarChart3, TrendingUp, MessageSquare, Users } from 'lucide-react'
 
-async function getSentimentData(userId: string) {
+async function getSentimentData(userId: string, feedFilter: MentionFilter) {
   const supabase = await createSupabaseServerClient()
   
   // Get last 30 days of analytics
@@ -20,13 +38,57 @@ async function getSentimentData(userId: string) {
     .gte('date', thirtyDaysAgo.toISOString().split('T')[0])
     .order('date', { ascending: true })
   
-  // Get recent mentions
-  const { data: mentions, error: mentionsError } = await supabase
+  // Get the first page of the mention feed for the filters in the URL; the
+  // rest loads as the user scrolls
+  const mentionPage = await listMentions(supabase, userId, feedFilter)
+  const mentionFacets = await getMentionFacets(supabase, userId, feedFilter)
+  
+  // Saved feed views; pinned ones are summarized as tiles
+  const savedViews = await listViews(supabase, userId)
+  const viewTiles = await loadViewTiles(supabase, userId, savedViews)
+  
+  // Analysis covers every unanalyzed mention, whatever the feed shows
+  const { count: unanalyzedCount } = await supabase
     .from('mentions')
-    .select('*, social_accounts!inner(platform, account_name)')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .is('sentiment_score', null)
+    .is('duplicate_of', null)
+  
+  // Get per-topic sentiment for the same window
+  const { data: topicRows } = await supabase
+    .from('daily_topic_sentiment')
+    .select('aspect, mention_count, positive_count, negative_count, neutral_count, average_score')
+    .eq('user_id', userId)
+    .gte('date', thirtyDaysAgo.toISOString().split('T')[0])
+  
+  // Get per-language sentiment for the same window
+  const { data: languageRows } = await supabase
+    .from('daily_language_sentiment')
+    .select('language, mention_count, positive_count, negative_count, neutral_count, average_score')
+    .eq('user_id', userId)
+    .gte('date', thirtyDaysAgo.toISOString().split('T')[0])
+  
+  // Get tracked queries and their daily sentiment for the same window
+  const { data: trackedQueries } = await supabase
+    .from('tracked_queries')
+    .select('id, name, kind, expression, is_active, last_search_error')
     .eq('user_id', userId)
-    .order('posted_at', { ascending: false })
-    .limit(50)
+    .order('created_at', { ascending: true })
+  
+  const { data: queryAnalytics } = await supabase
+    .from('daily_query_sentiment')
+    .select('query_id, date, total_mentions, positive_count, negative_count, neutral_count, average_score, emotion_counts')
+    .eq('user_id', userId)
+    .gte('date', thirtyDaysAgo.toISOString().split('T')[0])
+    .order('date', { ascending: true })
+  
+  // Get our share of voice and sentiment next to each competitor query's
+  const { data: benchmarkRows } = await supabase
+    .from('daily_benchmark_sentiment')
+    .select('competitor_id, date, total_mentions, analyzed_mentions, positive_count, negative_count, average_score')
+    .eq('user_id', userId)
+    .gte('date', thirtyDaysAgo.toISOString().split('T')[0])
   
   // Get connected social accounts
   const { data: socialAccounts, error: accountsError } = await supabase
@@ -35,6 +97,59 @@ async function getSentimentData(userId: string) {
     .eq('user_id', userId)
     .eq('is_active', true)
   
+  // Roll the daily topic rows up into one entry per topic
+  const topicMap = new Map<string, { aspect: string; mentions: number; positive: number; negative: number; neutral: number; scoreSum: number }>()
+  topicRows?.forEach((row) => {
+    const topic = topicMap.get(row.aspect) || { aspect: row.aspect, mentions: 0, positive: 0, negative: 0, neutral: 0, scoreSum: 0 }
+    topic.mentions += row.mention_count
+    topic.positive += row.positive_count
+    topic.negative += row.negative_count
+    topic.neutral += row.neutral_count
+    topic.scoreSum += row.average_score * row.mention_count
+    topicMap.set(row.aspect, topic)
+  })
+  const topics = Array.from(topicMap.values()).map(({ scoreSum, ...topic }) => ({
+    ...topic,
+    averageScore: topic.mentions > 0 ? scoreSum / topic.mentions : 0
+  }))
+  
+  // Same roll-up per language
+  const languageMap = new Map<string, { language: string; mentions: number; positive: number; negative: number; neutral: number; scoreSum: number }>()
+  languageRows?.forEach((row) => {
+    const entry = languageMap.get(row.language) || { language: row.language, mentions: 0, positive: 0, negative: 0, neutral: 0, scoreSum: 0 }
+    entry.mentions += row.mention_count
+    entry.positive += row.positive_count
+    entry.negative += row.negative_count
+    entry.neutral += row.neutral_count
+    entry.scoreSum += row.average_score * row.mention_count
+    languageMap.set(row.language, entry)
+  })
+  const languages = Array.from(languageMap.values()).map(({ scoreSum, ...entry }) => ({
+    ...entry,
+    averageScore: entry.mentions > 0 ? scoreSum / entry.mentions : 0
+  }))
+  
+  // Count mentions waiting for a human to confirm or correct their label
+  const { count: reviewCount } = await supabase
+    .from('mentions')
+    .select('id, sentiment_reviews!left(id)', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('needs_review', true)
+    .is('sentiment_reviews', null)
+  
+  // Get the latest in-flight analysis job, if any
+  const { data: activeJob } = await supabase
+    .from('analysis_jobs')
+    .select('id, status, total_count, processed_count, failed_count')
+    .eq('user_id', userId)
+    .in('status', ['queued', 'running'])
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  
+  // Professional-only platforms are locked in the connect dialog otherwise
+  const subscriptionTier = await getSubscriptionTier(userId)
+  
   // Calculate summary stats
   const totalMentions = analytics?.reduce((sum, day) => sum + day.total_mentions, 0) || 0
   const avgScore = analytics?.length 
@@ -45,8 +160,33 @@ async function getSentimentData(userId: string) {
   
   return {
     analytics: analytics || [],
-    mentions: mentions || [],
+    analyticsSince: thirtyDaysAgo.toISOString().split('T')[0],
+    mentions: mentionPage.mentions,
+    mentionsCursor: mentionPage.nextCursor,
+    mentionFacets,
+    unanalyzedCount: unanalyzedCount || 0,
+    savedViews,
+    viewTiles,
     socialAccounts: socialAccounts || [],
+    topics,
+    languages,
+    reviewCount: reviewCount || 0,
+    subscriptionTier,
+    trackedQueries: trackedQueries || [],
+    queryAnalytics: queryAnalytics || [],
+    benchmark: buildBenchmark(
+      (benchmarkRows || []) as BenchmarkRow[],
+      (trackedQueries || []).filter(query => query.kind === 'competitor')
+    ),
+    activeJob: activeJob
+      ? {
+          id: activeJob.id,
+          status: activeJob.status,
+          total: activeJob.total_count,
+          processed: activeJob.processed_count,
+          failed: activeJob.failed_count
+        }
+      : null,
     summary: {
       totalMentions,
       avgScore,
@@ -57,14 +197,58 @@ async function getSentimentData(userId: string) {
   }
 }
 
-export default async function SentimentPage() {
+function formatTimeAgo(date: string) {
+  const minutes = Math.floor((Date.now() - new Date(date).getTime()) / 60000)
+  if (minutes < 1) return 'just now'
+  if (minutes < 60) return `${minutes}m ago`
+  if (minutes < 1440) return `${Math.floor(minutes / 60)}h ago`
+  return `${Math.floor(minutes / 1440)}d ago`
+}
+
+// Dot color and caption for an account's last sync
+function getSyncStatus(account: { last_synced_at: string | null; last_sync_error: string | null; sync_backoff_until: string | null; needs_reconnect: boolean }) {
+  if (account.needs_reconnect) {
+    return { dot: 'bg-orange-400', label: 'Access expired', title: account.last_sync_error || undefined }
+  }
+
+  if (account.last_sync_error) {
+    const retry = account.sync_backoff_until && new Date(account.sync_backoff_until) > new Date()
+      ? `, retrying ${new Date(account.sync_backoff_until).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`
+      : ''
+    return { dot: 'bg-red-400', label: `Sync failed${retry}`, title: account.last_sync_error }
+  }
+
+  if (!account.last_synced_at) {
+    return { dot: 'bg-slate-500', label: 'Waiting for first sync', title: undefined }
+  }
+
+  // Missing two scheduled polls in a row means the scheduler isn't running
+  const overdue = Date.now() - new Date(account.last_synced_at).getTime() > SYNC_INTERVAL_MS * 2
+  return {
+    dot: overdue ? 'bg-yellow-400' : 'bg-green-400',
+    label: `Synced ${formatTimeAgo(account.last_synced_at)}`,
+    title: new Date(account.last_synced_at).toLocaleString('en-US')
+  }
+}
+
+interface SentimentPageProps {
+  // connected/accounts/connect_error are set by the OAuth callback after
+  // connecting an account; the rest are mention feed filters
+  searchParams: Promise<{ connected?: string; accounts?: string; connect_error?: string } & Partial<Record<MentionFilterKey, string>>>
+}
+
+export default async function SentimentPage({ searchParams }: SentimentPageProps) {
   const user = await getCurrentUser()
   
   if (!user) {
     redirect('/login')
   }
   
-  const data = await getSentimentData(user.id)
+  const connection = await searchParams
+  const feedParams = filterParams(new URLSearchParams(connection as Record<string, string>))
+  const feedFilter = mentionFilterSchema.safeParse(feedParams)
+  // A malformed link falls back to the unfiltered feed; the feed shows why
+  const data = await getSentimentData(user.id, feedFilter.success ? feedFilter.data : {})
   const hasConnectedAccounts = data.socialAccounts.length > 0
   
   return (
@@ -90,11 +274,38 @@ export default async function SentimentPage() {
             </div>
             
             <div className="flex gap-3">
+              {data.reviewCount > 0 && (
+                <Link
+                  href="/sentiment/review"
+                  className="px-6 py-3 bg-yellow-500/10 border border-yellow-500/20 rounded-xl hover:bg-yellow-500/20 transition-all duration-300 text-yellow-400 font-medium"
+                >
+                  Review Queue ({data.reviewCount})
+                </Link>
+              )}
+              {hasConnectedAccounts && (
+                <Link
+                  href="/sentiment/import"
+                  className="px-6 py-3 bg-white/5 backdrop-blur-sm border border-white/10 rounded-xl hover:bg-white/10 transition-all duration-300 text-white font-medium"
+                >
+                  Import
+                </Link>
+              )}
               <button className="px-6 py-3 bg-white/5 backdrop-blur-sm border border-white/10 rounded-xl hover:bg-white/10 transition-all duration-300 text-white font-medium">
                 Export Report
               </button>
             </div>
           </div>
+
+          {connection.connected && (
+            <div className="px-4 py-3 bg-green-500/10 border border-green-500/20 rounded-xl text-green-400 text-sm">
+              Connected {connection.accounts} {connection.connected} account{connection.accounts === '1' ? '' : 's'}. New mentions will appear after the first sync.
+            </div>
+          )}
+          {connection.connect_error && (
+            <div className="px-4 py-3 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-sm">
+              Couldn't connect account: {connection.connect_error}
+            </div>
+          )}
         </header>
 
         {!hasConnectedAccounts ? (
@@ -110,7 +321,7 @@ export default async function SentimentPage() {
               <p className="text-slate-400 text-lg mb-8">
                 Start analyzing sentiment across your social media presence. Connect Instagram, Facebook, or other platforms to get started.
               </p>
-              <ConnectSocial />
+              <ConnectSocial tier={data.subscriptionTier} />
             </div>
           </div>
         ) : (
@@ -162,53 +373,90 @@ export default async function SentimentPage() {
               </div>
             </div>
 
+            {/* Pinned Saved Views */}
+            {data.viewTiles.length > 0 && (
+              <div className="mb-12 animate-fade-in animation-delay-200">
+                <SavedViewTiles tiles={data.viewTiles} />
+              </div>
+            )}
+
             {/* Main Content Grid */}
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 animate-fade-in animation-delay-400">
-              {/* Sentiment Health Card - 2 columns */}
-              <div className="lg:col-span-2">
+              {/* Sentiment Health Card & Topic Breakdown - 2 columns */}
+              <div className="lg:col-span-2 space-y-6">
                 <SentimentHealthCard 
+                  userId={user.id}
                   analytics={data.analytics} 
+                  since={data.analyticsSince}
                   summary={data.summary}
+                  queries={data.trackedQueries}
+                  queryAnalytics={data.queryAnalytics}
+                  benchmark={data.benchmark}
                 />
+                <TopicBreakdown topics={data.topics} />
+                <LanguageBreakdown languages={data.languages} />
               </div>
               
-              {/* Connect Social - 1 column */}
-              <div className="lg:col-span-1">
-                <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-2xl p-8 h-full">
+              {/* Connect Social & Tracked Queries - 1 column */}
+              <div className="lg:col-span-1 space-y-6">
+                <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-2xl p-8">
                   <h3 className="text-xl font-bold text-white mb-4">
                     Connected Accounts
                   </h3>
                   <div className="space-y-4 mb-6">
-                    {data.socialAccounts.map((account) => (
-                      <div 
-                        key={account.id}
-                        className="flex items-center gap-3 p-3 bg-white/5 rounded-xl border border-white/5"
-                      >
-                        <div className="w-10 h-10 bg-gradient-to-br from-purple-500 to-cyan-500 rounded-lg flex items-center justify-center">
-                          <span className="text-white font-bold text-sm">
-                            {account.platform[0].toUpperCase()}
-                          </span>
-                        </div>
-                        <div className="flex-1">
-                          <p className="text-white font-medium text-sm">
-                            {account.account_name}
-                          </p>
-                          <p className="text-slate-500 text-xs capitalize">
-                            {account.platform}
-                          </p>
+                    {data.socialAccounts.map((account) => {
+                      const syncStatus = getSyncStatus(account)
+                      return (
+                        <div 
+                          key={account.id}
+                          className={`flex items-center gap-3 p-3 rounded-xl border ${
+                            account.needs_reconnect ? 'bg-orange-500/5 border-orange-500/20' : 'bg-white/5 border-white/5'
+                          }`}
+                        >
+                          <div className="w-10 h-10 bg-gradient-to-br from-purple-500 to-cyan-500 rounded-lg flex items-center justify-center">
+                            <span className="text-white font-bold text-sm">
+                              {account.platform[0].toUpperCase()}
+                            </span>
+                          </div>
+                          <div className="flex-1">
+                            <p className="text-white font-medium text-sm">
+                              {account.account_name}
+                            </p>
+                            <p className="text-slate-500 text-xs">
+                              <span className="capitalize">{account.platform}</span> · {syncStatus.label}
+                            </p>
+                          </div>
+                          {account.needs_reconnect ? (
+                            <ReconnectButton platform={account.platform} />
+                          ) : (
+                            <div className={`w-2 h-2 ${syncStatus.dot} rounded-full`} title={syncStatus.title}></div>
+                          )}
                         </div>
-                        <div className="w-2 h-2 bg-green-400 rounded-full"></div>
-                      </div>
-                    ))}
+                      )
+                    })}
                   </div>
-                  <ConnectSocial />
+                  <ConnectSocial tier={data.subscriptionTier} />
                 </div>
+                <TrackedQueries queries={data.trackedQueries} />
               </div>
             </div>
 
             {/* Mention Feed */}
-            <div className="mt-6 animate-fade-in animation-delay-600">
-              <MentionFeed mentions={data.mentions} />
+            <div id="mentions" className="mt-6 animate-fade-in animation-delay-600">
+              {/* Keyed by the URL filters so opening a view or tile starts the feed afresh */}
+              <MentionFeed
+                key={new URLSearchParams(feedParams).toString()}
+                userId={user.id}
+                mentions={data.mentions}
+                nextCursor={data.mentionsCursor}
+                facets={data.mentionFacets}
+                filters={feedParams}
+                unanalyzedCount={data.unanalyzedCount}
+                accounts={data.socialAccounts}
+                activeJob={data.activeJob}
+                queries={data.trackedQueries}
+                views={data.savedViews}
+              />
             </div>
           </>
         )}
@@ -0,0 +1,196 @@
+import type { NextRequest } from 'next/server'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { FakeSupabase } from '@/test/supabase'
+import { GET, POST } from './route'
+
+const session = vi.hoisted(() => ({
+  user: { id: 'u1' } as { id: string } | null,
+  db: null as unknown as FakeSupabase,
+}))
+
+vi.mock('@/lib/supabase', () => ({
+  getCurrentUser: async () => session.user,
+  createSupabaseServerClient: async () => session.db.client,
+  createSupabaseAdmin: () => session.db.client,
+}))
+
+const { after } = vi.hoisted(() => ({ after: vi.fn() }))
+
+vi.mock('next/server', async importOriginal => ({
+  ...(await importOriginal<typeof import('next/server')>()),
+  after,
+}))
+
+const post = async (body: unknown) => {
+  const response = await POST({ json: async () => body } as NextRequest)
+  return { status: response.status, body: await response.json() }
+}
+
+const mention = (id: string, fields: Record<string, unknown> = {}) => ({
+  id,
+  user_id: 'u1',
+  content: `Mention ${id}`,
+  platform: 'instagram',
+  posted_at: '2024-05-01T10:00:00.000Z',
+  duplicate_of: null,
+  sentiment_score: null,
+  sentiment_label: null,
+  sentiment_prompt_version: null,
+  sentiment_model: null,
+  ...fields,
+})
+
+const ANALYSIS_JOB_DEFAULTS = { status: 'queued', processed_count: 0, failed_count: 0, attempts: 0, force: false, backlog: false }
+
+const POSITIVE = { score: 8, label: 'positive', reasoning: 'Praise', confidence: 0.9 }
+
+describe('POST /api/sentiment/analyze', () => {
+  beforeEach(() => {
+    session.user = { id: 'u1' }
+    session.db = new FakeSupabase({
+      mentions: [
+        mention('m1'),
+        mention('m2', { sentiment_score: 3, sentiment_label: 'negative', sentiment_model: 'mock', sentiment_prompt_version: 'mock' }),
+        mention('other', { user_id: 'u2' }),
+      ],
+    })
+    session.db.defaults.analysis_jobs = ANALYSIS_JOB_DEFAULTS
+    vi.stubEnv('SENTIMENT_PROVIDER', 'mock')
+    vi.stubEnv('SENTIMENT_MOCK_SCRIPT', JSON.stringify([POSITIVE]))
+    after.mockClear()
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('requires a signed-in user', async () => {
+    session.user = null
+
+    expect(await post({ content: 'hi' })).toEqual({ status: 401, body: { error: 'Unauthorized' } })
+  })
+
+  describe('with mentionIds', () => {
+    it('analyzes unanalyzed mentions, serves cached results and reports missing ones', async () => {
+      const { status, body } = await post({ mentionIds: ['m1', 'm2', 'other'] })
+
+      expect(status).toBe(200)
+      expect(body).toMatchObject({ success: true, analyzed: 1, cached: 1, failed: 1 })
+      expect(body.results).toEqual([
+        expect.objectContaining({ mentionId: 'm1', success: true, cached: false, sentiment: expect.objectContaining(POSITIVE) }),
+        expect.objectContaining({ mentionId: 'm2', success: true, cached: true, sentiment: expect.objectContaining({ score: 3, label: 'negative' }) }),
+        { mentionId: 'other', success: false, error: 'Mention not found or access denied' },
+      ])
+      expect(session.db.tables.mentions[0]).toMatchObject({ sentiment_score: 8, sentiment_label: 'positive', sentiment_model: 'mock' })
+    })
+
+    it('re-scores analyzed mentions with force', async () => {
+      const { body } = await post({ mentionIds: ['m2'], force: true })
+
+      expect(body).toMatchObject({ analyzed: 1, cached: 0, failed: 0 })
+      expect(session.db.tables.mentions[1]).toMatchObject({ sentiment_score: 8, sentiment_label: 'positive' })
+    })
+
+    it('reports provider failures per mention', async () => {
+      vi.stubEnv('SENTIMENT_MOCK_SCRIPT', JSON.stringify([{ error: 'rate limited' }]))
+
+      const { status, body } = await post({ mentionIds: ['m1'] })
+
+      expect(status).toBe(200)
+      expect(body).toMatchObject({ analyzed: 0, failed: 1, results: [{ mentionId: 'm1', success: false, error: 'rate limited' }] })
+      expect(session.db.tables.mentions[0].sentiment_score).toBeNull()
+    })
+  })
+
+  it('analyzes a content string without storing it', async () => {
+    const { status, body } = await post({ content: 'Loving it' })
+
+    expect(status).toBe(200)
+    expect(body).toEqual({ success: true, sentiment: expect.objectContaining(POSITIVE) })
+    expect(session.db.log.filter(entry => entry.action !== 'select')).toEqual([])
+  })
+
+  describe('with reanalyze', () => {
+    it('queues a forced job for the analyzed mentions matching the filter', async () => {
+      const { status, body } = await post({ reanalyze: { platform: 'instagram' } })
+
+      expect(status).toBe(202)
+      expect(body.job).toMatchObject({ status: 'queued', total: 1 })
+      expect(session.db.tables.analysis_jobs).toEqual([
+        expect.objectContaining({ mention_ids: ['m2'], force: true, backlog: false }),
+      ])
+      expect(after).toHaveBeenCalledTimes(1)
+    })
+
+    it('leaves mentions analyzed with the current model out of a stale-only run', async () => {
+      const { body } = await post({ reanalyze: { staleOnly: true } })
+
+      expect(body).toEqual({ success: true, message: 'No analyzed mentions match the filter', analyzed: 0 })
+      expect(session.db.tables.analysis_jobs).toBeUndefined()
+      expect(after).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('without a target', () => {
+    it('queues the unanalyzed backlog once', async () => {
+      const first = await post({})
+      const second = await post({})
+
+      expect(first.status).toBe(202)
+      expect(second.body.job.id).toBe(first.body.job.id)
+      expect(session.db.tables.analysis_jobs).toEqual([
+        expect.objectContaining({ mention_ids: ['m1'], force: false, backlog: true }),
+      ])
+      expect(after).toHaveBeenCalledTimes(2)
+    })
+
+    it('reports when there is nothing to analyze', async () => {
+      session.db.tables.mentions = [mention('m2', { sentiment_score: 3, sentiment_label: 'negative' })]
+
+      expect((await post({})).body).toEqual({ success: true, message: 'No unanalyzed mentions found', analyzed: 0 })
+    })
+  })
+
+  it('reports unexpected errors', async () => {
+    session.db.failures['analysis_jobs.insert'] = 'connection reset'
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    expect(await post({})).toEqual({
+      status: 500,
+      body: { error: 'Failed to analyze sentiment', details: 'connection reset' },
+    })
+  })
+})
+
+describe('GET /api/sentiment/analyze', () => {
+  beforeEach(() => {
+    session.user = { id: 'u1' }
+    vi.stubEnv('SENTIMENT_PROVIDER', 'mock')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('counts progress and stale analyses, leaving out reposts', async () => {
+    const current = { sentiment_score: 7, sentiment_label: 'positive', sentiment_model: 'mock', sentiment_prompt_version: 'mock' }
+    const outdated = { ...current, sentiment_prompt_version: 'old' }
+    session.db = new FakeSupabase({
+      mentions: [
+        mention('m1'),
+        mention('m2', current),
+        mention('m3', outdated),
+        mention('m4', { ...outdated, duplicate_of: 'm3' }),
+        mention('other', { ...outdated, user_id: 'u2' }),
+      ],
+    })
+
+    const response = await GET({} as NextRequest)
+
+    expect(await response.json()).toEqual({
+      success: true,
+      stats: { total: 3, analyzed: 2, pending: 1, stale: 1, percentageComplete: (2 / 3) * 100 },
+      current: { provider: 'mock', model: 'mock', promptVersion: 'mock' },
+    })
+  })
+})
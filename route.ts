@@ -1,100 +1,21 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { createSupabaseServerClient, getCurrentUser } from '@/lib/supabase'
+import { NextRequest, NextResponse, after } from 'next/server'
+import { createSupabaseAdmin, createSupabaseServerClient, getCurrentUser } from '@/lib/supabase'
+import { getSentimentProvider } from '@/lib/sentiment'
+import { findMentionsToReanalyze, type ReanalyzeFilter } from '@/lib/sentiment/history'
+import { enqueueAnalysisJob, processAnalysisJobs } from '@/lib/sentiment/jobs'
+import { saveMentionSentiment } from '@/lib/sentiment/persist'
 
-const ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY!
+// How long the request may keep working on a freshly queued job after responding
+const AFTER_RESPONSE_BUDGET_MS = 20_000
 
 interface AnalyzeRequest {
   mentionIds?: string[]
   content?: string
   batchSize?: number
-}
-
-interface SentimentResult {
-  score: number
-  label: 'positive' | 'negative' | 'neutral'
-  reasoning: string
-  confidence: number
-}
-
-async function analyzeSentimentWithClaude(content: string): Promise<SentimentResult> {
-  if (!ANTHROPIC_API_KEY) {
-    throw new Error('ANTHROPIC_API_KEY is not configured')
-  }
-
-  try {
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': ANTHROPIC_API_KEY,
-        'anthropic-version': '2023-06-01',
-      },
-      body: JSON.stringify({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 1024,
-        messages: [
-          {
-            role: 'user',
-            content: `Analyze the sentiment of this social media mention and provide a detailed assessment.
-
-Social Media Content:
-"""
-${content}
-"""
-
-Provide your analysis in the following JSON format (respond ONLY with valid JSON, no other text):
-{
-  "score": <number between 0-10, where 0 is very negative, 5 is neutral, 10 is very positive>,
-  "label": "<positive|negative|neutral>",
-  "reasoning": "<brief explanation of why you chose this sentiment>",
-  "confidence": <number between 0-1 indicating how confident you are>
-}
-
-Consider:
-- Emotional tone and word choice
-- Context and subtext
-- Sarcasm or irony
-- Emoji usage and meaning
-- Overall intent of the message
-
-Respond with ONLY the JSON object, no markdown formatting or additional text.`,
-          },
-        ],
-      }),
-    })
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}))
-      throw new Error(`Claude API error: ${response.status} - ${JSON.stringify(errorData)}`)
-    }
-
-    const data = await response.json()
-    const textContent = data.content.find((c: any) => c.type === 'text')?.text || ''
-    
-    // Clean up the response - remove markdown code blocks if present
-    let cleanedText = textContent.trim()
-    if (cleanedText.startsWith('```json')) {
-      cleanedText = cleanedText.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim()
-    } else if (cleanedText.startsWith('```')) {
-      cleanedText = cleanedText.replace(/```\n?/g, '').trim()
-    }
-    
-    const result = JSON.parse(cleanedText) as SentimentResult
-
-    // Validate the result
-    if (
-      typeof result.score !== 'number' ||
-      !['positive', 'negative', 'neutral'].includes(result.label) ||
-      typeof result.reasoning !== 'string'
-    ) {
-      throw new Error('Invalid sentiment analysis result from Claude')
-    }
-
-    return result
-  } catch (error) {
-    console.error('Error calling Claude API:', error)
-    throw error
-  }
+  // Re-score mentions even if they already have a result
+  force?: boolean
+  // Queue a forced re-analysis of every analyzed mention matching the filter
+  reanalyze?: ReanalyzeFilter
 }
 
 export async function POST(req: NextRequest) {
@@ -110,6 +31,7 @@ export async function POST(req: NextRequest) {
 
     const body: AnalyzeRequest = await req.json()
     const supabase = await createSupabaseServerClient()
+    const provider = getSentimentProvider()
 
     // Case 1: Analyze specific mention IDs
     if (body.mentionIds && body.mentionIds.length > 0) {
@@ -133,8 +55,8 @@ export async function POST(req: NextRequest) {
           continue
         }
 
-        // Skip if already analyzed
-        if (mention.sentiment_score !== null) {
+        // Skip if already analyzed, unless a re-analysis was requested
+        if (mention.sentiment_score !== null && !body.force) {
           results.push({
             mentionId,
             success: true,
@@ -142,30 +64,22 @@ export async function POST(req: NextRequest) {
             sentiment: {
               score: mention.sentiment_score,
               label: mention.sentiment_label,
-              reasoning: mention.sentiment_reasoning
+              reasoning: mention.sentiment_reasoning,
+              confidence: mention.sentiment_confidence,
+              model: mention.sentiment_model,
+              promptVersion: mention.sentiment_prompt_version,
+              analyzedAt: mention.sentiment_analyzed_at
             }
           })
           continue
         }
 
         try {
-          // Analyze with Claude
-          const sentiment = await analyzeSentimentWithClaude(mention.content)
+          // Analyze with the configured provider
+          const sentiment = await provider.analyze(mention.content)
 
           // Update the mention
-          const { error: updateError } = await supabase
-            .from('mentions')
-            .update({
-              sentiment_score: sentiment.score,
-              sentiment_label: sentiment.label,
-              sentiment_reasoning: sentiment.reasoning,
-            })
-            .eq('id', mentionId)
-            .eq('user_id', user.id)
-
-          if (updateError) {
-            throw updateError
-          }
+          await saveMentionSentiment(supabase, user.id, mentionId, sentiment, provider)
 
           results.push({
             mentionId,
@@ -196,7 +110,7 @@ export async function POST(req: NextRequest) {
 
     // Case 2: Analyze single content string (for testing)
     if (body.content) {
-      const sentiment = await analyzeSentimentWithClaude(body.content)
+      const sentiment = await provider.analyze(body.content)
       
       return NextResponse.json({
         success: true,
@@ -204,21 +118,39 @@ export async function POST(req: NextRequest) {
       })
     }
 
-    // Case 3: Batch analyze unanalyzed mentions
-    const batchSize = body.batchSize || 10
-    
-    const { data: unanalyzedMentions, error: fetchError } = await supabase
-      .from('mentions')
-      .select('id, content')
-      .eq('user_id', user.id)
-      .is('sentiment_score', null)
-      .limit(batchSize)
+    // Case 3: Queue a forced re-analysis across a filter (date range, platform, prompt version)
+    if (body.reanalyze) {
+      const mentionIds = await findMentionsToReanalyze(supabase, user.id, body.reanalyze, provider)
+
+      if (mentionIds.length === 0) {
+        return NextResponse.json({
+          success: true,
+          message: 'No analyzed mentions match the filter',
+          analyzed: 0
+        })
+      }
+
+      const job = await enqueueAnalysisJob(supabase, user.id, { mentionIds, force: true })
 
-    if (fetchError) {
-      throw fetchError
+      after(() => processAnalysisJobs(createSupabaseAdmin(), { timeBudgetMs: AFTER_RESPONSE_BUDGET_MS })
+        .catch(error => console.error('Background analysis error:', error)))
+
+      return NextResponse.json({
+        success: true,
+        job: job && {
+          id: job.id,
+          status: job.status,
+          total: job.total_count,
+          processed: job.processed_count,
+          failed: job.failed_count
+        }
+      }, { status: 202 })
     }
 
-    if (!unanalyzedMentions || unanalyzedMentions.length === 0) {
+    // Case 4: Queue the unanalyzed backlog as a background job
+    const job = await enqueueAnalysisJob(supabase, user.id, { limit: body.batchSize })
+
+    if (!job) {
       return NextResponse.json({
         success: true,
         message: 'No unanalyzed mentions found',
@@ -226,50 +158,20 @@ export async function POST(req: NextRequest) {
       })
     }
 
-    const results = []
-    
-    for (const mention of unanalyzedMentions) {
-      try {
-        const sentiment = await analyzeSentimentWithClaude(mention.content)
-
-        const { error: updateError } = await supabase
-          .from('mentions')
-          .update({
-            sentiment_score: sentiment.score,
-            sentiment_label: sentiment.label,
-            sentiment_reasoning: sentiment.reasoning,
-          })
-          .eq('id', mention.id)
-          .eq('user_id', user.id)
-
-        if (updateError) {
-          throw updateError
-        }
-
-        results.push({
-          mentionId: mention.id,
-          success: true,
-          sentiment
-        })
-      } catch (error) {
-        results.push({
-          mentionId: mention.id,
-          success: false,
-          error: error instanceof Error ? error.message : 'Analysis failed'
-        })
-      }
-
-      // Rate limiting
-      await new Promise(resolve => setTimeout(resolve, 100))
-    }
+    // Start working on it right away; the cron worker picks up whatever is left
+    after(() => processAnalysisJobs(createSupabaseAdmin(), { timeBudgetMs: AFTER_RESPONSE_BUDGET_MS })
+      .catch(error => console.error('Background analysis error:', error)))
 
     return NextResponse.json({
       success: true,
-      results,
-      analyzed: results.filter(r => r.success).length,
-      failed: results.filter(r => !r.success).length,
-      remaining: Math.max(0, unanalyzedMentions.length - results.filter(r => r.success).length)
-    })
+      job: {
+        id: job.id,
+        status: job.status,
+        total: job.total_count,
+        processed: job.processed_count,
+        failed: job.failed_count
+      }
+    }, { status: 202 })
 
   } catch (error) {
     console.error('Sentiment analysis error:', error)
@@ -297,18 +199,30 @@ export async function GET(req: NextRequest) {
     }
 
     const supabase = await createSupabaseServerClient()
+    const provider = getSentimentProvider()
     
-    // Get counts
-    const { data: total } = await supabase
+    // Get counts (reposts of another mention are never analyzed on their own)
+    const { count: total } = await supabase
       .from('mentions')
       .select('id', { count: 'exact', head: true })
       .eq('user_id', user.id)
+      .is('duplicate_of', null)
     
-    const { data: analyzed } = await supabase
+    const { count: analyzed } = await supabase
       .from('mentions')
       .select('id', { count: 'exact', head: true })
       .eq('user_id', user.id)
+      .is('duplicate_of', null)
       .not('sentiment_score', 'is', null)
+
+    // Analyses made with a different model or prompt than the current one
+    const { count: stale } = await supabase
+      .from('mentions')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id)
+      .is('duplicate_of', null)
+      .not('sentiment_score', 'is', null)
+      .or(`sentiment_prompt_version.is.null,sentiment_prompt_version.neq.${provider.promptVersion},sentiment_model.neq.${provider.model}`)
     
     const totalCount = total || 0
     const analyzedCount = analyzed || 0
@@ -320,7 +234,13 @@ export async function GET(req: NextRequest) {
         total: totalCount,
         analyzed: analyzedCount,
         pending: pendingCount,
+        stale: stale || 0,
         percentageComplete: totalCount > 0 ? (analyzedCount / totalCount) * 100 : 0
+      },
+      current: {
+        provider: provider.name,
+        model: provider.model,
+        promptVersion: provider.promptVersion
       }
     })
 
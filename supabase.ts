@@ -2,6 +2,10 @@ import { createClient } from '@supabase/supabase-js'
 import { createClientComponentClient, createServerComponentClient } from '@supabase/auth-helpers-nextjs'
 import { cookies } from 'next/headers'
 
+// social_accounts tokens are encrypted at rest; go through
+// lib/connectors/tokens to read or write them
+export type EncryptedToken = string & { readonly __encrypted: true }
+
 // Types for our database schema
 export type Database = {
   public: {
@@ -12,6 +16,7 @@ export type Database = {
           email: string
           full_name: string | null
           avatar_url: string | null
+          subscription_tier: 'starter' | 'professional' | null
           created_at: string
           updated_at: string
         }
@@ -20,6 +25,7 @@ export type Database = {
           email: string
           full_name?: string | null
           avatar_url?: string | null
+          subscription_tier?: 'starter' | 'professional' | null
           created_at?: string
           updated_at?: string
         }
@@ -28,6 +34,7 @@ export type Database = {
           email?: string
           full_name?: string | null
           avatar_url?: string | null
+          subscription_tier?: 'starter' | 'professional' | null
           created_at?: string
           updated_at?: string
         }
@@ -39,9 +46,15 @@ export type Database = {
           platform: 'instagram' | 'facebook' | 'twitter' | 'linkedin'
           account_id: string
           account_name: string
-          access_token: string
-          refresh_token: string | null
+          access_token: EncryptedToken
+          refresh_token: EncryptedToken | null
           token_expires_at: string | null
+          sync_cursor: string | null
+          last_synced_at: string | null
+          last_sync_error: string | null
+          sync_failures: number
+          sync_backoff_until: string | null
+          needs_reconnect: boolean
           is_active: boolean
           created_at: string
           updated_at: string
@@ -52,9 +65,15 @@ export type Database = {
           platform: 'instagram' | 'facebook' | 'twitter' | 'linkedin'
           account_id: string
           account_name: string
-          access_token: string
-          refresh_token?: string | null
+          access_token: EncryptedToken
+          refresh_token?: EncryptedToken | null
           token_expires_at?: string | null
+          sync_cursor?: string | null
+          last_synced_at?: string | null
+          last_sync_error?: string | null
+          sync_failures?: number
+          sync_backoff_until?: string | null
+          needs_reconnect?: boolean
           is_active?: boolean
           created_at?: string
           updated_at?: string
@@ -65,9 +84,15 @@ export type Database = {
           platform?: 'instagram' | 'facebook' | 'twitter' | 'linkedin'
           account_id?: string
           account_name?: string
-          access_token?: string
-          refresh_token?: string | null
+          access_token?: EncryptedToken
+          refresh_token?: EncryptedToken | null
           token_expires_at?: string | null
+          sync_cursor?: string | null
+          last_synced_at?: string | null
+          last_sync_error?: string | null
+          sync_failures?: number
+          sync_backoff_until?: string | null
+          needs_reconnect?: boolean
           is_active?: boolean
           created_at?: string
           updated_at?: string
@@ -79,6 +104,7 @@ export type Database = {
           user_id: string
           social_account_id: string
           platform: string
+          external_id: string | null
           content: string
           author: string
           author_handle: string | null
@@ -87,6 +113,22 @@ export type Database = {
           sentiment_score: number | null
           sentiment_label: 'positive' | 'negative' | 'neutral' | null
           sentiment_reasoning: string | null
+          sentiment_confidence: number | null
+          emotions: ('joy' | 'trust' | 'surprise' | 'anger' | 'fear' | 'sadness' | 'disappointment' | 'confusion')[]
+          language: string | null
+          translated_content: string | null
+          is_sarcastic: boolean
+          needs_review: boolean
+          content_hash: string | null
+          duplicate_of: string | null
+          // Platform id of the post this one replies to, and that post once stored
+          parent_external_id: string | null
+          parent_id: string | null
+          // The latest analysis was given the surrounding thread
+          sentiment_thread_context: boolean
+          sentiment_model: string | null
+          sentiment_prompt_version: string | null
+          sentiment_analyzed_at: string | null
           engagement_count: number | null
           created_at: string
         }
@@ -95,6 +137,7 @@ export type Database = {
           user_id: string
           social_account_id: string
           platform: string
+          external_id?: string | null
           content: string
           author: string
           author_handle?: string | null
@@ -103,6 +146,20 @@ export type Database = {
           sentiment_score?: number | null
           sentiment_label?: 'positive' | 'negative' | 'neutral' | null
           sentiment_reasoning?: string | null
+          sentiment_confidence?: number | null
+          emotions?: ('joy' | 'trust' | 'surprise' | 'anger' | 'fear' | 'sadness' | 'disappointment' | 'confusion')[]
+          language?: string | null
+          translated_content?: string | null
+          is_sarcastic?: boolean
+          needs_review?: boolean
+          content_hash?: string | null
+          duplicate_of?: string | null
+          parent_external_id?: string | null
+          parent_id?: string | null
+          sentiment_thread_context?: boolean
+          sentiment_model?: string | null
+          sentiment_prompt_version?: string | null
+          sentiment_analyzed_at?: string | null
           engagement_count?: number | null
           created_at?: string
         }
@@ -111,6 +168,7 @@ export type Database = {
           user_id?: string
           social_account_id?: string
           platform?: string
+          external_id?: string | null
           content?: string
           author?: string
           author_handle?: string | null
@@ -119,6 +177,20 @@ export type Database = {
           sentiment_score?: number | null
           sentiment_label?: 'positive' | 'negative' | 'neutral' | null
           sentiment_reasoning?: string | null
+          sentiment_confidence?: number | null
+          emotions?: ('joy' | 'trust' | 'surprise' | 'anger' | 'fear' | 'sadness' | 'disappointment' | 'confusion')[]
+          language?: string | null
+          translated_content?: string | null
+          is_sarcastic?: boolean
+          needs_review?: boolean
+          content_hash?: string | null
+          duplicate_of?: string | null
+          parent_external_id?: string | null
+          parent_id?: string | null
+          sentiment_thread_context?: boolean
+          sentiment_model?: string | null
+          sentiment_prompt_version?: string | null
+          sentiment_analyzed_at?: string | null
           engagement_count?: number | null
           created_at?: string
         }
@@ -133,6 +205,7 @@ export type Database = {
           neutral_count: number
           average_score: number
           total_mentions: number
+          emotion_counts: Record<string, number>
           created_at: string
         }
         Insert: {
@@ -144,6 +217,7 @@ export type Database = {
           neutral_count?: number
           average_score?: number
           total_mentions?: number
+          emotion_counts?: Record<string, number>
           created_at?: string
         }
         Update: {
@@ -155,12 +229,342 @@ export type Database = {
           neutral_count?: number
           average_score?: number
           total_mentions?: number
+          emotion_counts?: Record<string, number>
+          created_at?: string
+        }
+      }
+      analysis_jobs: {
+        Row: {
+          id: string
+          user_id: string
+          status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+          mention_ids: string[]
+          force: boolean
+          backlog: boolean
+          total_count: number
+          processed_count: number
+          failed_count: number
+          attempts: number
+          max_attempts: number
+          last_error: string | null
+          run_after: string
+          locked_at: string | null
+          started_at: string | null
+          completed_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          status?: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+          mention_ids?: string[]
+          force?: boolean
+          backlog?: boolean
+          total_count?: number
+          processed_count?: number
+          failed_count?: number
+          attempts?: number
+          max_attempts?: number
+          last_error?: string | null
+          run_after?: string
+          locked_at?: string | null
+          started_at?: string | null
+          completed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          status?: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+          mention_ids?: string[]
+          force?: boolean
+          backlog?: boolean
+          total_count?: number
+          processed_count?: number
+          failed_count?: number
+          attempts?: number
+          max_attempts?: number
+          last_error?: string | null
+          run_after?: string
+          locked_at?: string | null
+          started_at?: string | null
+          completed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      sentiment_history: {
+        Row: {
+          id: string
+          user_id: string
+          mention_id: string
+          sentiment_score: number
+          sentiment_label: 'positive' | 'negative' | 'neutral'
+          sentiment_reasoning: string | null
+          sentiment_confidence: number | null
+          sentiment_model: string | null
+          sentiment_prompt_version: string | null
+          thread_context: boolean
+          analyzed_at: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          mention_id: string
+          sentiment_score: number
+          sentiment_label: 'positive' | 'negative' | 'neutral'
+          sentiment_reasoning?: string | null
+          sentiment_confidence?: number | null
+          sentiment_model?: string | null
+          sentiment_prompt_version?: string | null
+          thread_context?: boolean
+          analyzed_at?: string
+          created_at?: string
+        }
+        Update: {
+          [_ in never]: never
+        }
+      }
+      mention_aspects: {
+        Row: {
+          id: string
+          user_id: string
+          mention_id: string
+          aspect: string
+          sentiment_label: 'positive' | 'negative' | 'neutral'
+          sentiment_score: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          mention_id: string
+          aspect: string
+          sentiment_label: 'positive' | 'negative' | 'neutral'
+          sentiment_score: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          mention_id?: string
+          aspect?: string
+          sentiment_label?: 'positive' | 'negative' | 'neutral'
+          sentiment_score?: number
+          created_at?: string
+        }
+      }
+      sentiment_reviews: {
+        Row: {
+          id: string
+          user_id: string
+          mention_id: string
+          action: 'confirm' | 'override'
+          sentiment_label: 'positive' | 'negative' | 'neutral'
+          sentiment_score: number
+          model_label: 'positive' | 'negative' | 'neutral'
+          model_score: number
+          latest_model_label: 'positive' | 'negative' | 'neutral' | null
+          latest_model_score: number | null
+          note: string | null
+          reviewed_by: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          mention_id: string
+          action: 'confirm' | 'override'
+          sentiment_label: 'positive' | 'negative' | 'neutral'
+          sentiment_score: number
+          model_label: 'positive' | 'negative' | 'neutral'
+          model_score: number
+          latest_model_label?: 'positive' | 'negative' | 'neutral' | null
+          latest_model_score?: number | null
+          note?: string | null
+          reviewed_by: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          mention_id?: string
+          action?: 'confirm' | 'override'
+          sentiment_label?: 'positive' | 'negative' | 'neutral'
+          sentiment_score?: number
+          model_label?: 'positive' | 'negative' | 'neutral'
+          model_score?: number
+          latest_model_label?: 'positive' | 'negative' | 'neutral' | null
+          latest_model_score?: number | null
+          note?: string | null
+          reviewed_by?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      tracked_queries: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          kind: 'brand' | 'hashtag' | 'competitor' | 'keyword'
+          expression: string
+          is_active: boolean
+          search_cursors: Record<string, string>
+          last_search_error: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          kind: 'brand' | 'hashtag' | 'competitor' | 'keyword'
+          expression: string
+          is_active?: boolean
+          search_cursors?: Record<string, string>
+          last_search_error?: string | null
           created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          kind?: 'brand' | 'hashtag' | 'competitor' | 'keyword'
+          expression?: string
+          is_active?: boolean
+          search_cursors?: Record<string, string>
+          last_search_error?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      mention_queries: {
+        Row: {
+          mention_id: string
+          query_id: string
+          user_id: string
+          matched_at: string
+        }
+        Insert: {
+          mention_id: string
+          query_id: string
+          user_id: string
+          matched_at?: string
+        }
+        Update: {
+          mention_id?: string
+          query_id?: string
+          user_id?: string
+          matched_at?: string
+        }
+      }
+      saved_views: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          // Feed query string parameters
+          filters: Record<string, string>
+          is_pinned: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          filters?: Record<string, string>
+          is_pinned?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          filters?: Record<string, string>
+          is_pinned?: boolean
+          created_at?: string
+          updated_at?: string
         }
       }
     }
     Views: {
-      [_ in never]: never
+      daily_topic_sentiment: {
+        Row: {
+          user_id: string
+          date: string
+          aspect: string
+          mention_count: number
+          positive_count: number
+          negative_count: number
+          neutral_count: number
+          average_score: number
+        }
+      }
+      daily_language_sentiment: {
+        Row: {
+          user_id: string
+          date: string
+          language: string
+          mention_count: number
+          positive_count: number
+          negative_count: number
+          neutral_count: number
+          average_score: number
+        }
+      }
+      daily_query_sentiment: {
+        Row: {
+          user_id: string
+          query_id: string
+          date: string
+          total_mentions: number
+          positive_count: number
+          negative_count: number
+          neutral_count: number
+          average_score: number
+          emotion_counts: Record<string, number>
+        }
+      }
+      daily_benchmark_sentiment: {
+        Row: {
+          user_id: string
+          // null for the user's own mentions
+          competitor_id: string | null
+          date: string
+          total_mentions: number
+          analyzed_mentions: number
+          positive_count: number
+          negative_count: number
+          average_score: number | null
+        }
+      }
+      mention_feed: {
+        Row: {
+          id: string
+          user_id: string
+          social_account_id: string
+          platform: string
+          language: string | null
+          posted_at: string
+          search_vector: unknown
+          author: string
+          author_handle: string | null
+          has_url: boolean
+          engagement_count: number
+          // Reviewed label and score if any, else the model's; 'unanalyzed' before analysis
+          label: 'positive' | 'negative' | 'neutral' | 'unanalyzed'
+          score: number | null
+        }
+      }
     }
     Functions: {
       [_ in never]: never
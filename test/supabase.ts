@@ -0,0 +1,329 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// A small in-memory stand-in for the supabase-js query builder, enough for
+// unit tests of the lib/ modules. Filters, ordering, paging and the
+// insert/update/upsert/delete calls work on plain rows; embedded resources
+// in select() are not resolved (rows come back whole), and `.or()` only
+// understands the comparison operators below.
+
+export type Row = Record<string, any>
+
+type Action = 'select' | 'insert' | 'update' | 'upsert' | 'delete'
+
+// Like supabase-js's PostgrestError, which is an Error with a code
+type FakeError = Error & { code?: string }
+
+function fakeError(message: string, code?: string): FakeError {
+  return Object.assign(new Error(message), { code })
+}
+
+const OPERATORS: Record<string, (value: unknown, operand: string) => boolean> = {
+  eq: (value, operand) => String(value) === operand,
+  neq: (value, operand) => String(value) !== operand,
+  lt: (value, operand) => value !== null && value !== undefined && compare(value, operand) < 0,
+  lte: (value, operand) => value !== null && value !== undefined && compare(value, operand) <= 0,
+  gt: (value, operand) => value !== null && value !== undefined && compare(value, operand) > 0,
+  gte: (value, operand) => value !== null && value !== undefined && compare(value, operand) >= 0,
+  is: (value, operand) => (operand === 'null' ? value === null || value === undefined : String(value) === operand),
+}
+
+function compare(a: unknown, b: unknown) {
+  if (typeof a === 'number' || typeof b === 'number') return Number(a) - Number(b)
+  return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0
+}
+
+// Split on commas that aren't inside parentheses
+function splitTopLevel(text: string) {
+  const parts: string[] = []
+  let depth = 0
+  let current = ''
+  for (const char of text) {
+    if (char === '(') depth++
+    if (char === ')') depth--
+    if (char === ',' && depth === 0) {
+      parts.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  if (current) parts.push(current)
+  return parts
+}
+
+// PostgREST logic trees, e.g. `and(status.eq.queued,run_after.lte.2024-01-01),status.eq.running`
+function parseLogic(expression: string, combine: 'and' | 'or'): (row: Row) => boolean {
+  const conditions = splitTopLevel(expression).map(part => {
+    const group = part.match(/^(and|or)\((.*)\)$/)
+    if (group) {
+      return parseLogic(group[2], group[1] as 'and' | 'or')
+    }
+    const [column, operator, ...rest] = part.split('.')
+    const test = OPERATORS[operator]
+    if (!test) {
+      throw new Error(`Fake supabase doesn't support "${operator}" in or()`)
+    }
+    // Values may be double-quoted, e.g. timestamps
+    const operand = rest.join('.').replace(/^"(.*)"$/, '$1')
+    return (row: Row) => test(row[column], operand)
+  })
+
+  return row => (combine === 'and' ? conditions.every(c => c(row)) : conditions.some(c => c(row)))
+}
+
+function project(row: Row, columns: string) {
+  if (columns.includes('*') || columns.includes('(')) {
+    return { ...row }
+  }
+  const picked: Row = {}
+  for (const column of columns.split(',').map(c => c.trim()).filter(Boolean)) {
+    picked[column] = row[column]
+  }
+  return picked
+}
+
+class FakeQuery implements PromiseLike<{ data: any; error: FakeError | null; count?: number | null }> {
+  private action: Action = 'select'
+  private values: Row[] = []
+  private patch: Row = {}
+  private onConflict: string[] = []
+  private ignoreDuplicates = false
+  private filters: ((row: Row) => boolean)[] = []
+  private ordering: { column: string; ascending: boolean }[] = []
+  private window: { from: number; to: number } | null = null
+  private columns: string | null = null
+  private countRequested = false
+  private head = false
+  private cardinality: 'many' | 'single' | 'maybeSingle' = 'many'
+
+  // `source` stands in for the table, e.g. the rows a function returned
+  constructor(private db: FakeSupabase, private table: string, private source?: Row[]) {}
+
+  select(columns = '*', options: { count?: string; head?: boolean } = {}) {
+    this.columns = columns
+    this.countRequested = !!options.count
+    this.head = !!options.head
+    return this
+  }
+
+  insert(values: Row | Row[]) {
+    this.action = 'insert'
+    this.values = Array.isArray(values) ? values : [values]
+    return this
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}) {
+    this.action = 'upsert'
+    this.values = Array.isArray(values) ? values : [values]
+    this.onConflict = (options.onConflict || 'id').split(',').map(c => c.trim())
+    this.ignoreDuplicates = !!options.ignoreDuplicates
+    return this
+  }
+
+  update(patch: Row) {
+    this.action = 'update'
+    this.patch = patch
+    return this
+  }
+
+  delete() {
+    this.action = 'delete'
+    return this
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push(row => row[column] === value)
+    return this
+  }
+
+  neq(column: string, value: unknown) {
+    this.filters.push(row => row[column] !== value)
+    return this
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push(row => values.includes(row[column]))
+    return this
+  }
+
+  is(column: string, value: null | boolean) {
+    this.filters.push(row => (value === null ? row[column] === null || row[column] === undefined : row[column] === value))
+    return this
+  }
+
+  lt(column: string, value: unknown) {
+    this.filters.push(row => OPERATORS.lt(row[column], String(value)))
+    return this
+  }
+
+  lte(column: string, value: unknown) {
+    this.filters.push(row => OPERATORS.lte(row[column], String(value)))
+    return this
+  }
+
+  gt(column: string, value: unknown) {
+    this.filters.push(row => OPERATORS.gt(row[column], String(value)))
+    return this
+  }
+
+  gte(column: string, value: unknown) {
+    this.filters.push(row => OPERATORS.gte(row[column], String(value)))
+    return this
+  }
+
+  not(column: string, operator: string, value: unknown) {
+    this.filters.push(row => !OPERATORS[operator](row[column], String(value)))
+    return this
+  }
+
+  or(expression: string) {
+    this.filters.push(parseLogic(expression, 'or'))
+    return this
+  }
+
+  match(values: Row) {
+    for (const [column, value] of Object.entries(values)) this.eq(column, value)
+    return this
+  }
+
+  order(column: string, { ascending = true }: { ascending?: boolean } = {}) {
+    this.ordering.push({ column, ascending })
+    return this
+  }
+
+  limit(count: number) {
+    this.window = { from: 0, to: count - 1 }
+    return this
+  }
+
+  range(from: number, to: number) {
+    this.window = { from, to }
+    return this
+  }
+
+  single() {
+    this.cardinality = 'single'
+    return this
+  }
+
+  maybeSingle() {
+    this.cardinality = 'maybeSingle'
+    return this
+  }
+
+  then<A = any, B = never>(
+    onFulfilled?: ((value: { data: any; error: FakeError | null; count?: number | null }) => A | PromiseLike<A>) | null,
+    onRejected?: ((reason: unknown) => B | PromiseLike<B>) | null
+  ): PromiseLike<A | B> {
+    return Promise.resolve().then(() => this.execute()).then(onFulfilled, onRejected)
+  }
+
+  private execute(): { data: any; error: FakeError | null; count?: number | null } {
+    const failure = this.db.failures[`${this.table}.${this.action}`]
+    if (failure) {
+      return { data: null, error: fakeError(failure) }
+    }
+
+    const rows = this.source || this.db.table(this.table)
+    let affected: Row[]
+
+    switch (this.action) {
+      case 'insert':
+        affected = this.values.map(values => this.db.newRow(this.table, values))
+        rows.push(...affected)
+        break
+      case 'upsert':
+        affected = []
+        for (const values of this.values) {
+          const existing = rows.find(row => this.onConflict.every(column => row[column] === values[column]))
+          if (existing) {
+            if (!this.ignoreDuplicates) affected.push(Object.assign(existing, values))
+            continue
+          }
+          const row = this.db.newRow(this.table, values)
+          rows.push(row)
+          affected.push(row)
+        }
+        break
+      case 'update':
+        affected = rows.filter(row => this.filters.every(f => f(row)))
+        affected.forEach(row => Object.assign(row, this.patch))
+        break
+      case 'delete':
+        affected = rows.filter(row => this.filters.every(f => f(row)))
+        this.db.tables[this.table] = rows.filter(row => !affected.includes(row))
+        break
+      default:
+        affected = rows.filter(row => this.filters.every(f => f(row)))
+    }
+
+    this.db.log.push({ table: this.table, action: this.action, rows: affected.map(row => ({ ...row })) })
+
+    if (this.action !== 'select' && this.columns === null) {
+      return { data: null, error: null }
+    }
+
+    let result = affected.slice()
+    for (const { column, ascending } of this.ordering.slice().reverse()) {
+      result.sort((a, b) => compare(a[column] ?? '', b[column] ?? '') * (ascending ? 1 : -1))
+    }
+    const count = result.length
+    if (this.window) {
+      result = result.slice(this.window.from, this.window.to + 1)
+    }
+    const data = result.map(row => project(row, this.columns || '*'))
+
+    if (this.head) {
+      return { data: null, error: null, count }
+    }
+
+    if (this.cardinality !== 'many') {
+      if (data.length > 1 || (data.length === 0 && this.cardinality === 'single')) {
+        return { data: null, error: fakeError(`Expected one row, found ${data.length}`, 'PGRST116') }
+      }
+      return { data: data[0] ?? null, error: null }
+    }
+
+    return { data, error: null, count: this.countRequested ? count : null }
+  }
+}
+
+export class FakeSupabase {
+  tables: Record<string, Row[]>
+  // Every executed query, with copies of the rows it returned or changed
+  log: { table: string; action: Action; rows: Row[] }[] = []
+  // `table.action` -> error message returned instead of running the query
+  failures: Record<string, string> = {}
+  // Column defaults per table, applied to inserted rows
+  defaults: Record<string, Row> = {}
+  // Function name -> handler; returning an array makes it set-returning
+  rpcs: Record<string, (args: any) => unknown> = {}
+  private ids = 0
+
+  constructor(tables: Record<string, Row[]> = {}) {
+    this.tables = tables
+  }
+
+  table(name: string) {
+    return (this.tables[name] = this.tables[name] || [])
+  }
+
+  newRow(table: string, values: Row): Row {
+    return { id: `fake-${++this.ids}`, ...this.defaults[table], ...values }
+  }
+
+  get client() {
+    return {
+      from: (table: string) => new FakeQuery(this, table),
+      rpc: (fn: string, args: unknown) => {
+        const handler = this.rpcs[fn]
+        if (!handler) {
+          return Promise.resolve({ data: null, error: fakeError(`Unknown function ${fn}`) })
+        }
+        const result = handler(args)
+        // Set-returning functions can be filtered, ordered and paged like a table
+        return Array.isArray(result) ? new FakeQuery(this, fn, result) : Promise.resolve({ data: result, error: null })
+      },
+    } as unknown as SupabaseClient
+  }
+}
@@ -0,0 +1,12 @@
+import { fileURLToPath } from 'url'
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  resolve: {
+    // Same as the "@/*" path in tsconfig.json
+    alias: { '@': fileURLToPath(new URL('.', import.meta.url)) },
+  },
+  test: {
+    include: ['*.test.ts', '{app,lib}/**/*.test.ts'],
+  },
+})